@@ -1,4 +1,5 @@
 import type { RateRequestInput, AddressInput, PackageInfo } from "../../src/models/rate-request.js";
+import type { ShipmentRequest } from "../../src/carriers/carrier.interface.js";
 
 export function buildTestRateRequest(overrides?: Partial<RateRequestInput>): RateRequestInput {
   const defaultOrigin: AddressInput = {
@@ -35,3 +36,16 @@ export function buildTestRateRequest(overrides?: Partial<RateRequestInput>): Rat
     ...overrides,
   };
 }
+
+export function buildTestShipmentRequest(overrides?: Partial<ShipmentRequest>): ShipmentRequest {
+  const { origin, destination, packages } = buildTestRateRequest();
+  return {
+    origin,
+    destination,
+    packages,
+    serviceCode: "03",
+    shipper: { name: "Acme Warehouse", phone: "4105551234" },
+    recipient: { name: "Jane Doe" },
+    ...overrides,
+  };
+}
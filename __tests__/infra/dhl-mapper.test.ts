@@ -0,0 +1,288 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDhlRateRequestBody,
+  mapDhlRateResponseToQuotes,
+  toDhlDateTime,
+} from "../../infra/carriers/dhl/dhl-mapper.js";
+import type { DhlRateResponse } from "../../infra/carriers/dhl/dhl-rate-response.js";
+import { CarrierResponseError } from "../../src/errors/carrier-errors.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("DHL Mapper", () => {
+  const plannedShippingDateAndTime = "2024-01-02T10:00:00GMT+00:00";
+
+  describe("toDhlDateTime", () => {
+    it("should format timestamps with an explicit GMT offset", () => {
+      expect(toDhlDateTime(new Date("2024-01-02T10:00:00.123Z"))).toBe(
+        "2024-01-02T10:00:00GMT+00:00"
+      );
+    });
+  });
+
+  describe("buildDhlRateRequestBody", () => {
+    it("should build request with account, addresses and imperial packages", () => {
+      const { origin, destination, packages } = buildTestRateRequest();
+      const body = buildDhlRateRequestBody({
+        accountNumber: "123456789",
+        origin,
+        destination,
+        packages,
+        plannedShippingDateAndTime,
+      });
+
+      expect(body.accounts).toEqual([{ typeCode: "shipper", number: "123456789" }]);
+      expect(body.customerDetails.shipperDetails).toEqual({
+        postalCode: "21093",
+        cityName: "Baltimore",
+        countryCode: "US",
+        provinceCode: "MD",
+        addressLine1: "123 Main St",
+      });
+      expect(body.unitOfMeasurement).toBe("imperial");
+      expect(body.packages).toEqual([
+        { weight: 10, dimensions: { length: 10, width: 10, height: 10 } },
+      ]);
+      expect(body.productCode).toBeUndefined();
+      expect(body.isCustomsDeclarable).toBe(false);
+      expect(body.monetaryAmount).toBeUndefined();
+    });
+
+    it("should convert every package to the first package's unit system", () => {
+      const { origin, destination } = buildTestRateRequest();
+      const body = buildDhlRateRequestBody({
+        accountNumber: "1",
+        origin,
+        destination,
+        packages: [
+          { weight: 2, weightUnit: "KG", dimensions: { length: 30, width: 20, height: 10, unit: "CM" } },
+          { weight: 11.0231, weightUnit: "LB", dimensions: { length: 10, width: 10, height: 10, unit: "IN" } },
+        ],
+        plannedShippingDateAndTime,
+        productCode: "P",
+      });
+
+      expect(body.unitOfMeasurement).toBe("metric");
+      expect(body.productCode).toBe("P");
+      expect(body.packages[1]).toEqual({
+        weight: 5,
+        dimensions: { length: 25.4, width: 25.4, height: 25.4 },
+      });
+    });
+
+    it("should declare customs value for dutiable shipments", () => {
+      const { origin, destination, packages } = buildTestRateRequest();
+      const body = buildDhlRateRequestBody({
+        accountNumber: "1",
+        origin,
+        destination,
+        packages,
+        plannedShippingDateAndTime,
+        customs: { declaredValue: 250, currency: "USD" },
+      });
+
+      expect(body.isCustomsDeclarable).toBe(true);
+      expect(body.monetaryAmount).toEqual([
+        { typeCode: "declaredValue", value: 250, currency: "USD" },
+      ]);
+    });
+
+    it("should not declare customs for non-dutiable contents", () => {
+      const { origin, destination, packages } = buildTestRateRequest();
+      const body = buildDhlRateRequestBody({
+        accountNumber: "1",
+        origin,
+        destination,
+        packages,
+        plannedShippingDateAndTime,
+        customs: { declaredValue: 0, currency: "USD", dutiable: false },
+      });
+
+      expect(body.isCustomsDeclarable).toBe(false);
+      expect(body.monetaryAmount).toHaveLength(1);
+    });
+
+    it("should declare commodity lines for dutiable shipments", () => {
+      const { origin, destination, packages } = buildTestRateRequest();
+      const body = buildDhlRateRequestBody({
+        accountNumber: "1",
+        origin,
+        destination,
+        packages,
+        plannedShippingDateAndTime,
+        customs: {
+          declaredValue: 250,
+          currency: "USD",
+          commodities: [
+            {
+              description: "Cotton T-shirt",
+              hsCode: "6109.10",
+              originCountry: "US",
+              quantity: 4,
+              value: 100,
+            },
+            { description: "Mug", originCountry: "CN", quantity: 1, value: 150 },
+          ],
+        },
+      });
+
+      expect(body.content?.exportDeclaration.lineItems).toEqual([
+        {
+          number: 1,
+          description: "Cotton T-shirt",
+          price: 25,
+          quantity: { value: 4, unitOfMeasurement: "PCS" },
+          commodityCodes: [{ typeCode: "outbound", value: "610910" }],
+          manufacturerCountry: "US",
+        },
+        {
+          number: 2,
+          description: "Mug",
+          price: 150,
+          quantity: { value: 1, unitOfMeasurement: "PCS" },
+          manufacturerCountry: "CN",
+        },
+      ]);
+    });
+  });
+
+  describe("mapDhlRateResponseToQuotes", () => {
+    it("should map each product in the billing currency with landed cost", () => {
+      const response: DhlRateResponse = {
+        products: [
+          {
+            productName: "EXPRESS WORLDWIDE",
+            productCode: "P",
+            totalPrice: [
+              { currencyType: "BILLC", priceCurrency: "USD", price: 187.9 },
+              { currencyType: "PULCL", priceCurrency: "EUR", price: 171.3 },
+            ],
+            detailedPriceBreakdown: [
+              {
+                currencyType: "BILLC",
+                priceCurrency: "USD",
+                breakdown: [
+                  {
+                    name: "EXPRESS WORLDWIDE",
+                    price: 120,
+                    priceBreakdown: [{ typeCode: "STTXA", price: 0 }],
+                  },
+                  { name: "FUEL SURCHARGE", serviceCode: "FF", price: 25.4 },
+                  { name: "REMOTE AREA DELIVERY", serviceCode: "OO", price: 12.5 },
+                  { name: "DUTY", typeCode: "DUTY", price: 18 },
+                  { name: "IMPORT TAX", typeCode: "TAX", price: 12 },
+                ],
+              },
+            ],
+            deliveryCapabilities: {
+              estimatedDeliveryDateAndTime: "2024-01-05T23:59:00",
+              totalTransitDays: 3,
+            },
+          },
+        ],
+      };
+
+      expect(mapDhlRateResponseToQuotes(response)).toEqual([
+        {
+          serviceCode: "P",
+          serviceName: "EXPRESS WORLDWIDE",
+          serviceLevel: "INTERNATIONAL_EXPRESS",
+          totalPrice: 187.9,
+          currency: "USD",
+          estimatedDays: 3,
+          deliveryDate: "2024-01-05T23:59:00",
+          breakdown: {
+            publishedTotal: 187.9,
+            charges: [
+              { type: "TRANSPORTATION", description: "EXPRESS WORLDWIDE", amount: 120 },
+              { type: "FUEL", code: "FF", description: "FUEL SURCHARGE", amount: 25.4 },
+              {
+                type: "DELIVERY_AREA",
+                code: "OO",
+                description: "REMOTE AREA DELIVERY",
+                amount: 12.5,
+              },
+              { type: "DUTY", code: "DUTY", description: "DUTY", amount: 18 },
+              { type: "TAX", code: "TAX", description: "IMPORT TAX", amount: 12 },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it("should itemize line-item taxes as separate tax charges", () => {
+      const [quote] = mapDhlRateResponseToQuotes({
+        products: [
+          {
+            productCode: "D",
+            totalPrice: [{ currencyType: "BILLC", priceCurrency: "GBP", price: 60 }],
+            detailedPriceBreakdown: [
+              {
+                currencyType: "BILLC",
+                breakdown: [
+                  { name: "EXPRESS WORLDWIDE DOC", price: 50, priceBreakdown: [{ typeCode: "STTXA", price: 10 }] },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(quote!.currency).toBe("GBP");
+      expect(quote!.breakdown).toEqual({
+        publishedTotal: 60,
+        charges: [
+          { type: "TRANSPORTATION", description: "EXPRESS WORLDWIDE DOC", amount: 50 },
+          {
+            type: "TAX",
+            code: "STTXA",
+            description: "Tax on EXPRESS WORLDWIDE DOC",
+            amount: 10,
+          },
+        ],
+      });
+    });
+
+    it("should skip products without a price", () => {
+      const quotes = mapDhlRateResponseToQuotes({
+        products: [
+          { productCode: "N" },
+          {
+            productCode: "P",
+            totalPrice: [{ currencyType: "BILLC", priceCurrency: "USD", price: 90 }],
+          },
+        ],
+      });
+
+      expect(quotes.map((q) => q.serviceCode)).toEqual(["P"]);
+      expect(quotes[0]).not.toHaveProperty("estimatedDays");
+      expect(quotes[0]).not.toHaveProperty("deliveryDate");
+    });
+
+    it("should throw when no product is priced", () => {
+      expect(() => mapDhlRateResponseToQuotes({ products: [{ productCode: "N" }] })).toThrow(
+        CarrierResponseError
+      );
+      expect(() => mapDhlRateResponseToQuotes({})).toThrow(
+        "DHL rate response contains no priced products"
+      );
+    });
+
+    it("should throw rather than invent a product code or currency", () => {
+      const res = { products: [{ totalPrice: [{ currencyType: "BILLC", price: 90 }] }] };
+
+      let error: CarrierResponseError | undefined;
+      try {
+        mapDhlRateResponseToQuotes(res);
+      } catch (e) {
+        error = e as CarrierResponseError;
+      }
+
+      expect(error).toBeInstanceOf(CarrierResponseError);
+      expect(error?.issues).toEqual([
+        "products.0.productCode: missing",
+        "products.0.totalPrice.priceCurrency: missing",
+      ]);
+      expect(error?.payload).toBe(res);
+    });
+  });
+});
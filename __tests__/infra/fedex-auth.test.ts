@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  FedexOAuthManager,
+  fetchFedexAccessToken,
+  type FedexAuthConfig,
+} from "../../infra/auth/fedex-auth.js";
+import { FetchError } from "../../infra/http/fetch-client.js";
+
+describe("FedEx OAuth", () => {
+  const mockConfig: FedexAuthConfig = {
+    clientId: "fedex-client-id",
+    clientSecret: "fedex-client-secret",
+    baseUrl: "https://apis-sandbox.fedex.com",
+  };
+
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe("fetchFedexAccessToken", () => {
+    it("should send client credentials in the form body", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            access_token: "fedex-token",
+            token_type: "bearer",
+            expires_in: 3599,
+            scope: "CXS",
+          }),
+      });
+
+      const result = await fetchFedexAccessToken(mockConfig);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://apis-sandbox.fedex.com/oauth/token",
+        expect.objectContaining({
+          method: "POST",
+          headers: expect.objectContaining({
+            "Content-Type": "application/x-www-form-urlencoded",
+          }),
+          body: "grant_type=client_credentials&client_id=fedex-client-id&client_secret=fedex-client-secret",
+        })
+      );
+      expect(result).toEqual({
+        access_token: "fedex-token",
+        token_type: "bearer",
+        expires_in: 3599,
+        scope: "CXS",
+      });
+    });
+
+    it("should throw FetchError on failed request", async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: async () => "NOT.AUTHORIZED.ERROR",
+      });
+
+      await expect(fetchFedexAccessToken(mockConfig)).rejects.toThrow(FetchError);
+    });
+
+    it("should throw on invalid response", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        text: async () => JSON.stringify({ invalid: "response" }),
+      });
+
+      await expect(fetchFedexAccessToken(mockConfig)).rejects.toThrow(
+        "Invalid FedEx token response: missing access_token"
+      );
+    });
+  });
+
+  describe("FedexOAuthManager", () => {
+    it("should cache the token until near expiry", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () => JSON.stringify({ access_token: "first-token", expires_in: 3600 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () => JSON.stringify({ access_token: "second-token", expires_in: 3600 }),
+        });
+
+      const manager = new FedexOAuthManager(mockConfig);
+
+      expect(await manager.getAccessToken()).toBe("first-token");
+      expect(await manager.getAccessToken()).toBe("first-token");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(3400 * 1000);
+
+      expect(await manager.getAuthorizationHeader()).toBe("Bearer second-token");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep separate caches per instance", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () => JSON.stringify({ access_token: "account-a", expires_in: 3600 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () => JSON.stringify({ access_token: "account-b", expires_in: 3600 }),
+        });
+
+      const a = new FedexOAuthManager(mockConfig);
+      const b = new FedexOAuthManager({ ...mockConfig, clientId: "other-client" });
+
+      expect(await a.getAccessToken()).toBe("account-a");
+      expect(await b.getAccessToken()).toBe("account-b");
+    });
+
+    it("should refetch after clearCache", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        text: async () => JSON.stringify({ access_token: "token", expires_in: 3600 }),
+      });
+
+      const manager = new FedexOAuthManager(mockConfig);
+      await manager.getAccessToken();
+      await manager.clearCache();
+      await manager.getAccessToken();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
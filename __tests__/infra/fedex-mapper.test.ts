@@ -0,0 +1,246 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildFedexRateRequestBody,
+  mapFedexRateResponseToQuotes,
+} from "../../infra/carriers/fedex/fedex-mapper.js";
+import type { FedexRateResponse } from "../../infra/carriers/fedex/fedex-rate-response.js";
+import { CarrierResponseError } from "../../src/errors/carrier-errors.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("FedEx Mapper", () => {
+  describe("buildFedexRateRequestBody", () => {
+    it("should build request with account, addresses and packages", () => {
+      const { origin, destination, packages } = buildTestRateRequest();
+      const body = buildFedexRateRequestBody({
+        accountNumber: "740561073",
+        origin,
+        destination,
+        packages,
+      });
+
+      expect(body.accountNumber).toEqual({ value: "740561073" });
+      expect(body.requestedShipment.shipper.address).toEqual({
+        streetLines: ["123 Main St"],
+        city: "Baltimore",
+        stateOrProvinceCode: "MD",
+        postalCode: "21093",
+        countryCode: "US",
+      });
+      expect(body.requestedShipment.recipient.address.postalCode).toBe("30005");
+      expect(body.requestedShipment.requestedPackageLineItems).toEqual([
+        {
+          weight: { units: "LB", value: 10 },
+          dimensions: { length: 10, width: 10, height: 10, units: "IN" },
+        },
+      ]);
+      expect(body.requestedShipment.rateRequestType).toEqual(["ACCOUNT", "LIST"]);
+    });
+
+    it("should omit service type to quote every service", () => {
+      const { origin, destination, packages } = buildTestRateRequest();
+      const body = buildFedexRateRequestBody({ accountNumber: "1", origin, destination, packages });
+
+      expect(body.requestedShipment.serviceType).toBeUndefined();
+    });
+
+    it("should pass through service type, packaging and units", () => {
+      const { origin, destination } = buildTestRateRequest();
+      const body = buildFedexRateRequestBody({
+        accountNumber: "1",
+        origin,
+        destination,
+        packages: [
+          { weight: 2, weightUnit: "KG", packagingType: "PAK" },
+          { weight: 3, weightUnit: "KG" },
+        ],
+        serviceType: "FEDEX_2_DAY",
+      });
+
+      expect(body.requestedShipment.serviceType).toBe("FEDEX_2_DAY");
+      expect(body.requestedShipment.packagingType).toBe("FEDEX_PAK");
+      expect(body.requestedShipment.totalPackageCount).toBe(2);
+      expect(body.requestedShipment.requestedPackageLineItems[1]).toEqual({
+        weight: { units: "KG", value: 3 },
+      });
+    });
+
+    it("should reject packaging FedEx does not sell", () => {
+      const { origin, destination } = buildTestRateRequest();
+
+      expect(() =>
+        buildFedexRateRequestBody({
+          accountNumber: "1",
+          origin,
+          destination,
+          packages: [{ weight: 1, weightUnit: "LB", packagingType: "FLAT_RATE_ENVELOPE" }],
+        })
+      ).toThrow("FedEx does not support packaging type FLAT_RATE_ENVELOPE");
+    });
+  });
+
+  describe("mapFedexRateResponseToQuotes", () => {
+    it("should map each service and prefer the account rate", () => {
+      const response: FedexRateResponse = {
+        output: {
+          rateReplyDetails: [
+            {
+              serviceType: "FEDEX_GROUND",
+              serviceName: "FedEx Ground",
+              ratedShipmentDetails: [
+                {
+                  rateType: "LIST",
+                  totalBaseCharge: 24.0,
+                  totalNetCharge: 30.0,
+                  currency: "USD",
+                  shipmentRateDetail: {
+                    totalTaxes: 0.5,
+                    surCharges: [
+                      { type: "FUEL", description: "Fuel Surcharge", amount: 3.6 },
+                      { type: "RESIDENTIAL_DELIVERY", amount: 1.9 },
+                    ],
+                  },
+                },
+                {
+                  rateType: "ACCOUNT",
+                  totalBaseCharge: 20.0,
+                  totalNetCharge: 24.5,
+                  currency: "USD",
+                  shipmentRateDetail: {
+                    totalSurcharges: 4.5,
+                    surCharges: [
+                      { type: "FUEL", description: "Fuel Surcharge", amount: 3.0 },
+                      { type: "RESIDENTIAL_DELIVERY", amount: 1.5 },
+                    ],
+                  },
+                },
+              ],
+            },
+            {
+              serviceType: "PRIORITY_OVERNIGHT",
+              serviceName: "FedEx Priority Overnight®",
+              ratedShipmentDetails: [{ rateType: "ACCOUNT", totalNetCharge: 88.1, currency: "USD" }],
+            },
+          ],
+        },
+      };
+
+      const quotes = mapFedexRateResponseToQuotes(response);
+
+      expect(quotes).toHaveLength(2);
+      expect(quotes[0]).toEqual({
+        serviceCode: "FEDEX_GROUND",
+        serviceName: "FedEx Ground",
+        serviceLevel: "GROUND",
+        totalPrice: 24.5,
+        currency: "USD",
+        breakdown: {
+          publishedTotal: 30.0,
+          negotiatedTotal: 24.5,
+          charges: [
+            { type: "TRANSPORTATION", description: "Base charge", amount: 24.0 },
+            { type: "FUEL", code: "FUEL", description: "Fuel Surcharge", amount: 3.6 },
+            {
+              type: "RESIDENTIAL",
+              code: "RESIDENTIAL_DELIVERY",
+              description: "RESIDENTIAL_DELIVERY",
+              amount: 1.9,
+            },
+            { type: "TAX", description: "Taxes", amount: 0.5 },
+          ],
+        },
+      });
+      expect(quotes[1].serviceCode).toBe("PRIORITY_OVERNIGHT");
+      expect(quotes[1].totalPrice).toBe(88.1);
+    });
+
+    it("should keep per-package charges", () => {
+      const response: FedexRateResponse = {
+        output: {
+          rateReplyDetails: [
+            {
+              serviceType: "FEDEX_GROUND",
+              ratedShipmentDetails: [
+                {
+                  rateType: "ACCOUNT",
+                  totalNetCharge: 40,
+                  currency: "USD",
+                  ratedPackages: [
+                    { groupNumber: 0, packageRateDetail: { netCharge: 15, baseCharge: 12, totalSurcharges: 3 } },
+                    { groupNumber: 0, packageRateDetail: { netCharge: 25, baseCharge: 20, totalSurcharges: 5 } },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      };
+
+      const [quote] = mapFedexRateResponseToQuotes(response);
+
+      expect(quote.packageRates).toEqual([
+        { totalPrice: 15, currency: "USD", basePrice: 12, serviceOptionsPrice: 3 },
+        { totalPrice: 25, currency: "USD", basePrice: 20, serviceOptionsPrice: 5 },
+      ]);
+    });
+
+    it("should skip services without rated details", () => {
+      const quotes = mapFedexRateResponseToQuotes({
+        output: {
+          rateReplyDetails: [
+            { serviceType: "FEDEX_2_DAY", ratedShipmentDetails: [] },
+            {
+              serviceType: "FEDEX_GROUND",
+              ratedShipmentDetails: [{ rateType: "ACCOUNT", totalNetCharge: 12, currency: "USD" }],
+            },
+          ],
+        },
+      });
+
+      expect(quotes.map((q) => q.serviceCode)).toEqual(["FEDEX_GROUND"]);
+    });
+
+    it("should throw when no service is rated", () => {
+      let error: CarrierResponseError | undefined;
+      try {
+        mapFedexRateResponseToQuotes({
+          output: { rateReplyDetails: [{ serviceType: "FEDEX_GROUND", ratedShipmentDetails: [] }] },
+        });
+      } catch (e) {
+        error = e as CarrierResponseError;
+      }
+
+      expect(error).toBeInstanceOf(CarrierResponseError);
+      expect(error!.issues).toEqual(["output.rateReplyDetails: none has ratedShipmentDetails"]);
+    });
+
+    it("should throw instead of quoting a rated service without a code or price", () => {
+      const response = {
+        output: { rateReplyDetails: [{ ratedShipmentDetails: [{ rateType: "ACCOUNT" }] }] },
+      };
+
+      let error: CarrierResponseError | undefined;
+      try {
+        mapFedexRateResponseToQuotes(response);
+      } catch (e) {
+        error = e as CarrierResponseError;
+      }
+
+      expect(error).toBeInstanceOf(CarrierResponseError);
+      expect(error!.carrier).toBe("FedEx");
+      expect(error!.issues).toEqual([
+        "output.rateReplyDetails.0.serviceType: missing",
+        "output.rateReplyDetails.0.totalNetCharge: missing",
+        "output.rateReplyDetails.0.currency: missing",
+      ]);
+    });
+
+    it("should throw for an empty response", () => {
+      expect(() => mapFedexRateResponseToQuotes({})).toThrow(
+        "FedEx rate response contains no rated services"
+      );
+      expect(() => mapFedexRateResponseToQuotes({ output: { rateReplyDetails: [] } })).toThrow(
+        CarrierResponseError
+      );
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { FetchClient, FetchError } from "../../infra/http/fetch-client.js";
+import { TokenBucketLimiter } from "../../infra/http/rate-limiter.js";
+import { RateLimitedError, TimeoutError } from "../../src/errors/carrier-errors.js";
 
 describe("FetchClient", () => {
   let client: FetchClient;
@@ -286,4 +288,304 @@ describe("FetchClient", () => {
       );
     });
   });
+
+  describe("retry policy", () => {
+    const unavailable = (headers: Record<string, string> = {}) => ({
+      ok: false,
+      status: 503,
+      statusText: "Service Unavailable",
+      headers: new Headers(headers),
+      text: async () => "try again later",
+    });
+    const ok = { ok: true, status: 200, statusText: "OK", text: async () => '{"ok":true}' };
+
+    const retryingClient = (retry = {}) =>
+      new FetchClient({
+        baseUrl: "https://api.example.com",
+        retry: { baseDelayMs: 100, jitter: "none", ...retry },
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should retry idempotent requests on retryable statuses with exponential backoff", async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(ok);
+
+      const promise = retryingClient().get("test");
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+
+      await expect(promise).resolves.toEqual({ ok: true });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should expose the attempt count when retries are exhausted", async () => {
+      mockFetch.mockResolvedValue(unavailable());
+
+      const promise = retryingClient({ maxAttempts: 4 }).get("test");
+      const assertion = expect(promise).rejects.toMatchObject({
+        name: "FetchError",
+        status: 503,
+        attempts: 4,
+      });
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should not retry POST unless the caller marks it retryable", async () => {
+      mockFetch.mockResolvedValue(unavailable());
+
+      await expect(retryingClient().post("test", {})).rejects.toMatchObject({ attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockClear();
+      mockFetch.mockResolvedValueOnce(unavailable()).mockResolvedValueOnce(ok);
+      const promise = retryingClient().post("test", {}, { retry: true });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ ok: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry statuses outside the retryable list", async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        text: async () => "",
+      });
+
+      await expect(retryingClient().get("test")).rejects.toMatchObject({ attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let a call opt out of retries", async () => {
+      mockFetch.mockResolvedValue(unavailable());
+
+      await expect(retryingClient().get("test", { retry: false })).rejects.toThrow(FetchError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should disable retries when configured with retry: false", async () => {
+      mockFetch.mockResolvedValue(unavailable());
+      const noRetry = new FetchClient({ baseUrl: "https://api.example.com", retry: false });
+
+      await expect(noRetry.get("test")).rejects.toMatchObject({ attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait as long as Retry-After asks, capped at the max delay", async () => {
+      mockFetch.mockResolvedValueOnce(unavailable({ "Retry-After": "2" })).mockResolvedValueOnce(ok);
+
+      const promise = retryingClient().get("test");
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual({ ok: true });
+
+      mockFetch.mockClear();
+      mockFetch.mockResolvedValueOnce(unavailable({ "Retry-After": "3600" })).mockResolvedValueOnce(ok);
+      const capped = retryingClient({ maxDelayMs: 500 }).get("test");
+
+      await vi.advanceTimersByTimeAsync(500);
+      await expect(capped).resolves.toEqual({ ok: true });
+    });
+
+    it("should apply full jitter below the backoff", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.5);
+      mockFetch.mockResolvedValueOnce(unavailable()).mockResolvedValueOnce(ok);
+
+      const promise = retryingClient({ jitter: "full" }).get("test");
+
+      await vi.advanceTimersByTimeAsync(49);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual({ ok: true });
+      vi.mocked(Math.random).mockRestore();
+    });
+
+    it("should retry network failures and wrap the last one in a FetchError", async () => {
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      const promise = retryingClient().get("test");
+      const assertion = expect(promise).rejects.toMatchObject({
+        name: "FetchError",
+        message: "Network error: fetch failed",
+        status: 0,
+        attempts: 3,
+      });
+      await vi.runAllTimersAsync();
+
+      await assertion;
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    // Resolves after the delay unless the request's signal aborts first
+    const respondAfter = (ms: number) => (_url: string, init: RequestInit) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(
+          () => resolve({ ok: true, status: 200, statusText: "OK", text: async () => "{}" }),
+          ms
+        );
+        init.signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(init.signal!.reason);
+        });
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should pass an abort signal to fetch", async () => {
+      mockFetch.mockResolvedValue({ ok: true, text: async () => "{}" });
+
+      await client.get("test");
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it("should throw TimeoutError when a request exceeds the client timeout", async () => {
+      mockFetch.mockImplementation(respondAfter(10_000));
+      const timed = new FetchClient({
+        baseUrl: "https://api.example.com",
+        timeoutMs: 1000,
+        retry: false,
+      });
+
+      const promise = timed.get("test");
+      const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it("should time out even if fetch ignores the signal", async () => {
+      mockFetch.mockReturnValue(new Promise(() => {}));
+      const timed = new FetchClient({ baseUrl: "https://api.example.com", retry: false });
+
+      const promise = timed.get("test", { timeoutMs: 250 });
+      const assertion = expect(promise).rejects.toMatchObject({ name: "TimeoutError", timeoutMs: 250 });
+      await vi.advanceTimersByTimeAsync(250);
+
+      await assertion;
+    });
+
+    it("should retry idempotent requests that time out", async () => {
+      mockFetch.mockImplementationOnce(respondAfter(10_000)).mockImplementationOnce(respondAfter(10));
+      const timed = new FetchClient({
+        baseUrl: "https://api.example.com",
+        timeoutMs: 1000,
+        retry: { baseDelayMs: 0 },
+      });
+
+      const promise = timed.get("test");
+      await vi.advanceTimersByTimeAsync(1100);
+
+      await expect(promise).resolves.toEqual({});
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject with the caller's abort reason and not retry", async () => {
+      mockFetch.mockImplementation(respondAfter(10_000));
+      const controller = new AbortController();
+
+      const promise = client.get("test", { signal: controller.signal });
+      const assertion = expect(promise).rejects.toThrow("Checkout closed");
+      controller.abort(new Error("Checkout closed"));
+
+      await assertion;
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not start a request when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort(new Error("Cancelled"));
+
+      await expect(client.get("test", { signal: controller.signal })).rejects.toThrow("Cancelled");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should stop waiting between retries when the caller aborts", async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        text: async () => "",
+      });
+      const controller = new AbortController();
+      const retrying = new FetchClient({
+        baseUrl: "https://api.example.com",
+        retry: { baseDelayMs: 10_000, jitter: "none" },
+      });
+
+      const promise = retrying.get("test", { signal: controller.signal });
+      const assertion = expect(promise).rejects.toThrow("Cancelled");
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort(new Error("Cancelled"));
+
+      await assertion;
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("should acquire quota before every attempt, retries included", async () => {
+      const rateLimiter = { acquire: vi.fn(async () => {}) };
+      const limited = new FetchClient({
+        baseUrl: "https://api.example.com",
+        retry: { baseDelayMs: 0 },
+        rateLimiter,
+      });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: "Service Unavailable",
+          text: async () => "",
+        })
+        .mockResolvedValueOnce({ ok: true, text: async () => "{}" });
+
+      await limited.get("test");
+
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not call fetch when the limiter refuses", async () => {
+      const limited = new FetchClient({
+        baseUrl: "https://api.example.com",
+        rateLimiter: new TokenBucketLimiter("UPS", {
+          requestsPerSecond: 1,
+          burst: 1,
+          maxWaitMs: 0,
+        }),
+      });
+      mockFetch.mockResolvedValue({ ok: true, text: async () => "{}" });
+
+      await limited.get("test");
+      await expect(limited.get("test")).rejects.toBeInstanceOf(RateLimitedError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { TokenBucketLimiter } from "../../infra/http/rate-limiter.js";
+import { RateLimitedError } from "../../src/errors/carrier-errors.js";
+
+describe("TokenBucketLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow a burst without waiting", async () => {
+    const limiter = new TokenBucketLimiter("UPS", { requestsPerSecond: 1, burst: 3 });
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should queue requests beyond the burst in arrival order", async () => {
+    const limiter = new TokenBucketLimiter("UPS", {
+      requestsPerSecond: 2,
+      burst: 1,
+      maxWaitMs: 2000,
+    });
+    const granted: number[] = [];
+
+    await limiter.acquire();
+    const second = limiter.acquire().then(() => granted.push(2));
+    const third = limiter.acquire().then(() => granted.push(3));
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(granted).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual([2]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([2, 3]);
+    await Promise.all([second, third]);
+  });
+
+  it("should refill at the configured rate", async () => {
+    const limiter = new TokenBucketLimiter("UPS", {
+      requestsPerSecond: 10,
+      burst: 1,
+      maxWaitMs: 0,
+    });
+    await limiter.acquire();
+
+    vi.advanceTimersByTime(100);
+
+    await expect(limiter.acquire()).resolves.toBeUndefined();
+  });
+
+  it("should fail fast with RateLimitedError when the wait exceeds maxWaitMs", async () => {
+    const limiter = new TokenBucketLimiter("UPS", {
+      requestsPerSecond: 1,
+      burst: 1,
+      maxWaitMs: 0,
+    });
+    await limiter.acquire();
+
+    const error = await limiter.acquire().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).limiter).toBe("UPS");
+    expect((error as RateLimitedError).retryAfterMs).toBe(1000);
+  });
+
+  it("should release the reserved slot when a queued caller aborts", async () => {
+    const limiter = new TokenBucketLimiter("UPS", {
+      requestsPerSecond: 1,
+      burst: 1,
+      maxWaitMs: 1000,
+    });
+    const controller = new AbortController();
+    await limiter.acquire();
+
+    const aborted = limiter.acquire(controller.signal);
+    controller.abort(new Error("Checkout closed"));
+    await expect(aborted).rejects.toThrow("Checkout closed");
+
+    // The next caller waits one interval, not two
+    const next = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileTokenStore,
+  InMemoryTokenStore,
+  tokenStoreKey,
+  type TokenStore,
+} from "../../infra/auth/token-store.js";
+
+describe("Token stores", () => {
+  const NOW = new Date("2024-01-01T00:00:00Z").getTime();
+  const liveToken = { accessToken: "live", expiresAtMs: NOW + 60_000 };
+  const expiredToken = { accessToken: "expired", expiresAtMs: NOW - 1 };
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "token-store-"));
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("tokenStoreKey", () => {
+    it("should namespace keys by carrier, base URL and client id", () => {
+      expect(tokenStoreKey("ups", { baseUrl: "https://wwwcie.ups.com/", clientId: "abc" })).toBe(
+        "ups:https://wwwcie.ups.com|abc"
+      );
+    });
+  });
+
+  const contract = (name: string, createStore: () => TokenStore) => {
+    describe(`${name} contract`, () => {
+      it("should return undefined for unknown keys", async () => {
+        expect(await createStore().get("missing")).toBeUndefined();
+      });
+
+      it("should return a stored token until it expires", async () => {
+        const store = createStore();
+        await store.set("key", liveToken);
+
+        expect(await store.get("key")).toEqual(liveToken);
+
+        vi.setSystemTime(liveToken.expiresAtMs);
+        expect(await store.get("key")).toBeUndefined();
+      });
+
+      it("should never return an expired token", async () => {
+        const store = createStore();
+        await store.set("key", expiredToken);
+
+        expect(await store.get("key")).toBeUndefined();
+      });
+
+      it("should overwrite tokens and delete idempotently", async () => {
+        const store = createStore();
+        await store.set("key", expiredToken);
+        await store.set("key", liveToken);
+        expect(await store.get("key")).toEqual(liveToken);
+
+        await store.delete("key");
+        await store.delete("key");
+        expect(await store.get("key")).toBeUndefined();
+      });
+
+      it("should keep keys independent", async () => {
+        const store = createStore();
+        await store.set("a", liveToken);
+        await store.set("b", { ...liveToken, accessToken: "other" });
+        await store.delete("a");
+
+        expect(await store.get("b")).toEqual({ ...liveToken, accessToken: "other" });
+      });
+    });
+  };
+
+  contract("InMemoryTokenStore", () => new InMemoryTokenStore());
+  contract("FileTokenStore", () => new FileTokenStore(join(dir, "tokens.json")));
+
+  describe("FileTokenStore", () => {
+    it("should share tokens across instances using the same file", async () => {
+      const filePath = join(dir, "nested", "tokens.json");
+      await new FileTokenStore(filePath).set("key", liveToken);
+
+      expect(await new FileTokenStore(filePath).get("key")).toEqual(liveToken);
+    });
+
+    it("should drop expired tokens when writing", async () => {
+      const filePath = join(dir, "tokens.json");
+      const store = new FileTokenStore(filePath);
+      await store.set("old", liveToken);
+
+      vi.setSystemTime(liveToken.expiresAtMs + 1);
+      await store.set("new", { accessToken: "new", expiresAtMs: NOW + 120_000 });
+
+      expect(Object.keys(JSON.parse(await readFile(filePath, "utf8")))).toEqual(["new"]);
+    });
+
+    it("should keep every key when set is called in parallel", async () => {
+      const filePath = join(dir, "tokens.json");
+      const keys = ["a", "b", "c", "d", "e"];
+
+      await Promise.all(keys.map((key) => new FileTokenStore(filePath).set(key, liveToken)));
+
+      const store = new FileTokenStore(filePath);
+      for (const key of keys) {
+        expect(await store.get(key)).toEqual(liveToken);
+      }
+    });
+
+    it("should treat a corrupt file as an empty cache", async () => {
+      const filePath = join(dir, "tokens.json");
+      await writeFile(filePath, "{not json");
+      const store = new FileTokenStore(filePath);
+
+      expect(await store.get("key")).toBeUndefined();
+      await store.set("key", liveToken);
+      expect(await store.get("key")).toEqual(liveToken);
+    });
+  });
+});
@@ -3,9 +3,12 @@ import {
   fetchUpsAccessToken,
   getUpsAccessToken,
   clearUpsTokenCache,
+  UpsOAuthManager,
   type UpsAuthConfig,
 } from "../../infra/auth/ups-auth.js";
+import { InMemoryTokenStore } from "../../infra/auth/token-store.js";
 import { FetchError } from "../../infra/http/fetch-client.js";
+import { RateLimitedError } from "../../src/errors/carrier-errors.js";
 
 describe("UPS OAuth", () => {
   const mockConfig: UpsAuthConfig = {
@@ -16,16 +19,16 @@ describe("UPS OAuth", () => {
 
   const mockFetch = vi.fn();
 
-  beforeEach(() => {
+  beforeEach(async () => {
     global.fetch = mockFetch;
-    clearUpsTokenCache();
+    await clearUpsTokenCache();
     vi.useFakeTimers();
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     vi.clearAllMocks();
     vi.useRealTimers();
-    clearUpsTokenCache();
+    await clearUpsTokenCache();
   });
 
   describe("fetchUpsAccessToken", () => {
@@ -214,10 +217,132 @@ describe("UPS OAuth", () => {
       await getUpsAccessToken(mockConfig);
       expect(mockFetch).toHaveBeenCalledTimes(1);
 
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
 
       await getUpsAccessToken(mockConfig);
       expect(mockFetch).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe("UpsOAuthManager", () => {
+    const tokenResponse = (token: string) => ({
+      ok: true,
+      text: async () => JSON.stringify({ access_token: token, expires_in: 14400 }),
+    });
+
+    it("should cache tokens separately per account", async () => {
+      const manager = new UpsOAuthManager();
+      const otherAccount: UpsAuthConfig = { ...mockConfig, clientId: "warehouse-2" };
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse("token-1"))
+        .mockResolvedValueOnce(tokenResponse("token-2"));
+
+      expect(await manager.getAccessToken(mockConfig)).toBe("token-1");
+      expect(await manager.getAccessToken(otherAccount)).toBe("token-2");
+      expect(await manager.getAccessToken(mockConfig)).toBe("token-1");
+      expect(await manager.getAccessToken(otherAccount)).toBe("token-2");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should limit token requests per account with their own bucket", async () => {
+      const manager = new UpsOAuthManager(new InMemoryTokenStore(), {
+        tokenRateLimit: { requestsPerSecond: 1, burst: 1, maxWaitMs: 0 },
+      });
+      const otherAccount: UpsAuthConfig = { ...mockConfig, clientId: "warehouse-2" };
+      mockFetch.mockResolvedValue(tokenResponse("token"));
+
+      await manager.getAccessToken(mockConfig);
+      await manager.invalidate(mockConfig);
+
+      await expect(manager.getAccessToken(mockConfig)).rejects.toBeInstanceOf(RateLimitedError);
+      await expect(manager.getAccessToken(otherAccount)).resolves.toBe("token");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cache tokens separately per base URL", async () => {
+      const manager = new UpsOAuthManager();
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse("cie-token"))
+        .mockResolvedValueOnce(tokenResponse("prod-token"));
+
+      await manager.getAccessToken(mockConfig);
+      const token = await manager.getAccessToken({
+        ...mockConfig,
+        baseUrl: "https://onlinetools.ups.com",
+      });
+
+      expect(token).toBe("prod-token");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should make one token request for concurrent callers on a cold cache", async () => {
+      const manager = new UpsOAuthManager();
+      mockFetch.mockResolvedValue(tokenResponse("shared-token"));
+
+      const tokens = await Promise.all(
+        Array.from({ length: 50 }, () => manager.getAccessToken(mockConfig))
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(new Set(tokens)).toEqual(new Set(["shared-token"]));
+    });
+
+    it("should let the next caller retry after a failed token request", async () => {
+      const manager = new UpsOAuthManager();
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 500,
+          statusText: "Internal Server Error",
+          text: async () => "",
+        })
+        .mockResolvedValueOnce(tokenResponse("recovered-token"));
+
+      const results = await Promise.allSettled([
+        manager.getAccessToken(mockConfig),
+        manager.getAccessToken(mockConfig),
+      ]);
+      expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+
+      expect(await manager.getAccessToken(mockConfig)).toBe("recovered-token");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should clear a single account's token", async () => {
+      const manager = new UpsOAuthManager();
+      const otherAccount: UpsAuthConfig = { ...mockConfig, clientId: "warehouse-2" };
+      mockFetch.mockResolvedValue(tokenResponse("token"));
+
+      await manager.getAccessToken(mockConfig);
+      await manager.getAccessToken(otherAccount);
+      await manager.clearCache(otherAccount);
+      await manager.getAccessToken(mockConfig);
+      await manager.getAccessToken(otherAccount);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should reuse a token another manager saved in a shared store", async () => {
+      const store = new InMemoryTokenStore();
+      mockFetch.mockResolvedValue(tokenResponse("worker-1-token"));
+
+      await new UpsOAuthManager(store).getAccessToken(mockConfig);
+      const token = await new UpsOAuthManager(store).getAccessToken(mockConfig);
+
+      expect(token).toBe("worker-1-token");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fetch a new token after invalidate", async () => {
+      const manager = new UpsOAuthManager();
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse("rejected-token"))
+        .mockResolvedValueOnce(tokenResponse("fresh-token"));
+
+      await manager.getAccessToken(mockConfig);
+      await manager.invalidate(mockConfig);
+
+      expect(await manager.getAccessToken(mockConfig)).toBe("fresh-token");
+    });
+  });
 });
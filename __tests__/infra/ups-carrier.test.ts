@@ -1,17 +1,19 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { UpsCarrier } from "../../infra/carriers/ups/ups-carrier.js";
-import type { UpsAuthConfig } from "../../infra/auth/ups-auth.js";
+import type { UpsAuthConfig, UpsOAuthManager } from "../../infra/auth/ups-auth.js";
 import { FetchClient } from "../../infra/http/fetch-client.js";
-import { buildTestRateRequest } from "../helpers/test-fixtures.js";
-
-vi.mock("../../infra/auth/ups-auth.js", () => ({
-  getUpsAuthorizationHeader: vi.fn(async () => "Bearer mock-token"),
-}));
+import { buildTestRateRequest, buildTestShipmentRequest } from "../helpers/test-fixtures.js";
+import { UnsupportedServiceLevelError } from "../../src/errors/carrier-errors.js";
 
 describe("UpsCarrier", () => {
   let carrier: UpsCarrier;
   let mockClient: FetchClient;
   const mockPost = vi.fn();
+  const mockGet = vi.fn();
+  const mockDelete = vi.fn();
+  const mockAuthManager = {
+    getAuthorizationHeader: vi.fn(async () => "Bearer mock-token"),
+  } as unknown as UpsOAuthManager;
 
   const mockConfig = {
     auth: {
@@ -25,17 +27,29 @@ describe("UpsCarrier", () => {
   beforeEach(() => {
     mockClient = {
       post: mockPost,
+      get: mockGet,
+      delete: mockDelete,
     } as unknown as FetchClient;
 
     carrier = new UpsCarrier({
       ...mockConfig,
       httpClient: mockClient,
+      authManager: mockAuthManager,
     });
 
     vi.clearAllMocks();
   });
 
   describe("getRates", () => {
+    const groundRateResponse = {
+      RateResponse: {
+        RatedShipment: {
+          Service: { Code: "03", Description: "Ground" },
+          TotalCharges: { CurrencyCode: "USD", MonetaryValue: "25.50" },
+        },
+      },
+    };
+
     it("should request rates with origin and destination", async () => {
       mockPost.mockResolvedValue({
         RateResponse: {
@@ -50,10 +64,10 @@ describe("UpsCarrier", () => {
       });
 
       const request = buildTestRateRequest();
-      const quote = await carrier.getRates(request);
+      const [quote] = await carrier.getRates(request);
 
       expect(mockPost).toHaveBeenCalledWith(
-        "/api/rating/v2403/rate?additionalinfo=",
+        "/api/rating/v2403/shoptimeintransit?additionalinfo=",
         expect.objectContaining({
           RateRequest: expect.objectContaining({
             Shipment: expect.objectContaining({
@@ -81,14 +95,138 @@ describe("UpsCarrier", () => {
       expect(quote).toEqual({
         serviceCode: "03",
         serviceName: "Ground",
+        serviceLevel: "GROUND",
         totalPrice: 25.5,
         currency: "USD",
-        breakdown: {
-          basePrice: 25.5,
-          fuelSurcharge: undefined,
-          other: undefined,
+        breakdown: { publishedTotal: 25.5, charges: [] },
+      });
+    });
+
+    it("should rate a single service when a service level is requested", async () => {
+      mockPost.mockResolvedValue({
+        RateResponse: {
+          RatedShipment: {
+            Service: { Code: "02" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "30.00" },
+          },
+        },
+      });
+
+      const request = buildTestRateRequest({ serviceLevel: "TWO_DAY" });
+      const quotes = await carrier.getRates(request);
+
+      expect(mockPost.mock.calls[0][0]).toBe(
+        "/api/rating/v2403/ratetimeintransit?additionalinfo="
+      );
+      const requestBody = mockPost.mock.calls[0][1];
+      expect(requestBody.RateRequest.Request.RequestOption).toBe("Ratetimeintransit");
+      expect(requestBody.RateRequest.Shipment.Service.Code).toBe("02");
+      expect(quotes).toHaveLength(1);
+    });
+
+    it("should map service levels to UPS codes for the route", async () => {
+      mockPost.mockResolvedValue(groundRateResponse);
+      const toToronto = buildTestRateRequest({
+        serviceLevel: "GROUND",
+        destination: {
+          addressLine1: "100 King St W",
+          city: "Toronto",
+          state: "ON",
+          postalCode: "M5X 1A9",
+          country: "CA",
+        },
+      });
+
+      await carrier.getRates(toToronto);
+
+      expect(mockPost.mock.calls[0][1].RateRequest.Shipment.Service.Code).toBe("11");
+      await expect(
+        carrier.getRates({ ...toToronto, serviceLevel: "OVERNIGHT" })
+      ).rejects.toThrow(UnsupportedServiceLevelError);
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it("should shop all services when no service level is requested", async () => {
+      mockPost.mockResolvedValue({
+        RateResponse: {
+          RatedShipment: [
+            {
+              Service: { Code: "03" },
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "10.00" },
+            },
+            {
+              Service: { Code: "01" },
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "40.00" },
+            },
+          ],
+        },
+      });
+
+      const request = buildTestRateRequest();
+      const quotes = await carrier.getRates(request);
+
+      const requestBody = mockPost.mock.calls[0][1];
+      expect(requestBody.RateRequest.Request.RequestOption).toBe("Shoptimeintransit");
+      expect(requestBody.RateRequest.Shipment.Service).toBeUndefined();
+      expect(quotes.map((q) => q.serviceCode)).toEqual(["03", "01"]);
+    });
+
+    it("should request time in transit for a pickup today", async () => {
+      vi.useFakeTimers({ now: new Date(2024, 2, 14, 23, 30) });
+      mockPost.mockResolvedValue(groundRateResponse);
+
+      try {
+        await carrier.getRates(buildTestRateRequest());
+        await carrier.getRates(
+          buildTestRateRequest({ customs: { declaredValue: 0, currency: "USD", dutiable: false } })
+        );
+      } finally {
+        vi.useRealTimers();
+      }
+
+      const [goods, documents] = mockPost.mock.calls.map(
+        (call) => call[1].RateRequest.Shipment.DeliveryTimeInformation
+      );
+      expect(goods).toEqual({ PackageBillType: "03", Pickup: { Date: "20240314" } });
+      expect(documents.PackageBillType).toBe("02");
+    });
+
+    it("should rate international shipments without customs plainly", async () => {
+      mockPost.mockResolvedValue(groundRateResponse);
+      const toToronto = buildTestRateRequest({
+        destination: {
+          addressLine1: "100 King St W",
+          city: "Toronto",
+          state: "ON",
+          postalCode: "M5X 1A9",
+          country: "CA",
         },
       });
+
+      await carrier.getRates(toToronto);
+      await carrier.getRates({
+        ...toToronto,
+        customs: { declaredValue: 250, currency: "USD", dutiable: true },
+      });
+
+      const [[plainUrl, plainBody], [transitUrl, transitBody]] = mockPost.mock.calls;
+      expect(plainUrl).toContain("/shop?");
+      expect(plainBody.RateRequest.Shipment.DeliveryTimeInformation).toBeUndefined();
+      expect(plainBody.RateRequest.Shipment.InvoiceLineTotal).toBeUndefined();
+      expect(transitUrl).toContain("/shoptimeintransit?");
+      expect(transitBody.RateRequest.Shipment.InvoiceLineTotal).toEqual({
+        CurrencyCode: "USD",
+        MonetaryValue: "250.00",
+      });
+    });
+
+    it("should send shipment options with the rate request", async () => {
+      mockPost.mockResolvedValue(groundRateResponse);
+
+      await carrier.getRates(buildTestRateRequest({ options: { residential: true } }));
+
+      const requestBody = mockPost.mock.calls[0][1];
+      expect(requestBody.RateRequest.Shipment.ShipTo.Address.ResidentialAddressIndicator).toBe("");
     });
 
     it("should use shipper number in request", async () => {
@@ -127,10 +265,39 @@ describe("UpsCarrier", () => {
 
       const requestBody = mockPost.mock.calls[0][1];
       expect(
-        requestBody.RateRequest.Shipment.Package.PackageWeight.Weight
+        requestBody.RateRequest.Shipment.Package[0].PackageWeight.Weight
       ).toBe("15");
     });
 
+    it("should include every package in request", async () => {
+      mockPost.mockResolvedValue({
+        RateResponse: {
+          RatedShipment: {
+            Service: { Code: "03" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "30.00" },
+          },
+        },
+      });
+
+      const request = buildTestRateRequest({
+        packages: [
+          { weight: 15, weightUnit: "LB" },
+          { weight: 4, weightUnit: "LB", packagingType: "PAK" },
+          { weight: 8, weightUnit: "LB" },
+        ],
+      });
+      await carrier.getRates(request);
+
+      const shipment = mockPost.mock.calls[0][1].RateRequest.Shipment;
+      expect(shipment.NumOfPieces).toBe("3");
+      expect(shipment.Package.map((p: any) => p.PackageWeight.Weight)).toEqual([
+        "15",
+        "4",
+        "8",
+      ]);
+      expect(shipment.Package[1].PackagingType.Code).toBe("04");
+    });
+
     it("should default to US country code", async () => {
       mockPost.mockResolvedValue({
         RateResponse: {
@@ -187,5 +354,208 @@ describe("UpsCarrier", () => {
 
       expect(carrierWithoutClient).toBeDefined();
     });
+
+    it("should pass the caller's abort signal to the HTTP client", async () => {
+      mockPost.mockResolvedValue(groundRateResponse);
+      const controller = new AbortController();
+
+      await carrier.getRates(buildTestRateRequest(), { signal: controller.signal });
+
+      expect(mockPost).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Object),
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it("should authorize with the carrier's own account credentials", async () => {
+      mockPost.mockResolvedValue(groundRateResponse);
+
+      await carrier.getRates(buildTestRateRequest());
+
+      expect(mockAuthManager.getAuthorizationHeader).toHaveBeenCalledWith(mockConfig.auth);
+    });
+  });
+
+  describe("canTrack", () => {
+    it("should recognize UPS 1Z tracking numbers", () => {
+      expect(carrier.canTrack("1Z023E2X0214323462")).toBe(true);
+      expect(carrier.canTrack(" 1z023e2x0214323462 ")).toBe(true);
+    });
+
+    it("should reject other formats", () => {
+      expect(carrier.canTrack("123456789012")).toBe(false);
+      expect(carrier.canTrack("1Z123")).toBe(false);
+    });
+  });
+
+  describe("track", () => {
+    it("should request tracking details and map the response", async () => {
+      mockGet.mockResolvedValue({
+        trackResponse: {
+          shipment: [
+            {
+              package: [
+                {
+                  trackingNumber: "1Z023E2X0214323462",
+                  activity: [
+                    {
+                      location: { address: { city: "Atlanta", stateProvince: "GA", countryCode: "US" } },
+                      status: { type: "D", description: "DELIVERED", code: "KB" },
+                      date: "20240105",
+                      time: "143000",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      });
+
+      const info = await carrier.track("1Z023E2X0214323462");
+
+      expect(mockGet).toHaveBeenCalledWith(
+        "/api/track/v1/details/1Z023E2X0214323462",
+        expect.objectContaining({
+          query: { locale: "en_US", returnSignature: "false" },
+          headers: expect.objectContaining({
+            Authorization: "Bearer mock-token",
+            transactionSrc: "testing",
+          }),
+        })
+      );
+      expect(info.status).toBe("DELIVERED");
+      expect(info.events).toHaveLength(1);
+    });
+
+    it("should handle API errors", async () => {
+      mockGet.mockRejectedValue(new Error("UPS API error: 404 Not Found"));
+
+      await expect(carrier.track("1Z023E2X0214323462")).rejects.toThrow("UPS API error");
+    });
+  });
+
+  describe("createLabel", () => {
+    const shipResponse = {
+      ShipmentResponse: {
+        ShipmentResults: {
+          ShipmentCharges: { TotalCharges: { CurrencyCode: "USD", MonetaryValue: "24.10" } },
+          ShipmentIdentificationNumber: "1Z2220060290602143",
+          PackageResults: {
+            TrackingNumber: "1Z2220060290602143",
+            ShippingLabel: { ImageFormat: { Code: "GIF" }, GraphicImage: "R0lGODlh" },
+          },
+        },
+      },
+    };
+
+    it("should post shipment to the Shipping API and map the label", async () => {
+      mockPost.mockResolvedValue(shipResponse);
+
+      const label = await carrier.createLabel(buildTestShipmentRequest());
+
+      expect(mockPost).toHaveBeenCalledWith(
+        "/api/shipments/v2409/ship",
+        expect.objectContaining({
+          ShipmentRequest: expect.objectContaining({
+            Shipment: expect.objectContaining({
+              Shipper: expect.objectContaining({ Name: "Acme Warehouse", ShipperNumber: "123456" }),
+              ShipTo: expect.objectContaining({ Name: "Jane Doe" }),
+            }),
+          }),
+        }),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: "Bearer mock-token" }),
+        })
+      );
+      expect(label).toEqual({
+        trackingNumber: "1Z2220060290602143",
+        labelFormat: "GIF",
+        labels: [{ trackingNumber: "1Z2220060290602143", labelData: "R0lGODlh" }],
+        cost: 24.1,
+        currency: "USD",
+      });
+    });
+
+    it("should request the given label format", async () => {
+      mockPost.mockResolvedValue(shipResponse);
+
+      const label = await carrier.createLabel(buildTestShipmentRequest({ labelFormat: "ZPL" }));
+
+      const requestBody = mockPost.mock.calls[0][1];
+      expect(requestBody.ShipmentRequest.LabelSpecification.LabelImageFormat.Code).toBe("ZPL");
+      expect(label.labelFormat).toBe("ZPL");
+    });
+
+    it("should require at least one package", async () => {
+      await expect(
+        carrier.createLabel(buildTestShipmentRequest({ packages: [] }))
+      ).rejects.toThrow("At least one package is required");
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("voidShipment", () => {
+    it("should cancel the shipment by tracking number", async () => {
+      mockDelete.mockResolvedValue({
+        VoidShipmentResponse: {
+          SummaryResult: { Status: { Code: "1", Description: "Voided" } },
+        },
+      });
+
+      const result = await carrier.voidShipment("1Z2220060290602143");
+
+      expect(mockDelete).toHaveBeenCalledWith(
+        "/api/shipments/v2409/void/cancel/1Z2220060290602143",
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: "Bearer mock-token" }),
+        })
+      );
+      expect(result).toEqual({
+        trackingNumber: "1Z2220060290602143",
+        voided: true,
+        status: "Voided",
+      });
+    });
+  });
+
+  describe("validateAddress", () => {
+    it("should post the address to XAV and map the result", async () => {
+      mockPost.mockResolvedValue({
+        XAVResponse: {
+          ValidAddressIndicator: "",
+          AddressClassification: { Code: "1", Description: "Commercial" },
+          Candidate: {
+            AddressClassification: { Code: "1" },
+            AddressKeyFormat: {
+              AddressLine: "123 MAIN ST",
+              PoliticalDivision2: "BALTIMORE",
+              PoliticalDivision1: "MD",
+              PostcodePrimaryLow: "21093",
+              CountryCode: "US",
+            },
+          },
+        },
+      });
+
+      const { origin } = buildTestRateRequest();
+      const result = await carrier.validateAddress(origin);
+
+      expect(mockPost).toHaveBeenCalledWith(
+        "/api/addressvalidation/v2/3",
+        expect.objectContaining({
+          XAVRequest: expect.objectContaining({
+            AddressKeyFormat: expect.objectContaining({ PostcodePrimaryLow: "21093" }),
+          }),
+        }),
+        expect.objectContaining({
+          query: { maximumcandidatelistsize: "5" },
+          headers: expect.objectContaining({ Authorization: "Bearer mock-token" }),
+        })
+      );
+      expect(result.status).toBe("VALID");
+      expect(result.classification).toBe("COMMERCIAL");
+    });
   });
 });
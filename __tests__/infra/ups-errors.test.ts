@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { mapUpsError } from "../../infra/carriers/ups/ups-errors.js";
+import { FetchError } from "../../infra/http/fetch-client.js";
+import {
+  CarrierApiError,
+  CarrierAuthenticationError,
+  CarrierThrottledError,
+  CarrierUnavailableError,
+  InvalidAddressError,
+  UnsupportedServiceError,
+  WeightLimitExceededError,
+} from "../../src/errors/carrier-errors.js";
+
+describe("mapUpsError", () => {
+  const upsFailure = (status: number, code: string, message: string) =>
+    new FetchError(
+      `Request failed: ${status}`,
+      status,
+      "Bad Request",
+      JSON.stringify({ response: { errors: [{ code, message }] } })
+    );
+
+  it.each([
+    ["250002", CarrierAuthenticationError],
+    ["111285", InvalidAddressError],
+    ["111210", UnsupportedServiceError],
+    ["111035", WeightLimitExceededError],
+    ["190001", CarrierUnavailableError],
+  ])("should map UPS code %s to its error class", (code, ErrorClass) => {
+    expect(mapUpsError(upsFailure(400, code, "UPS says no"))).toBeInstanceOf(ErrorClass);
+  });
+
+  it("should carry the UPS code, message, status and payload", () => {
+    const failure = upsFailure(
+      400,
+      "111210",
+      "The requested service is unavailable between the selected locations."
+    );
+
+    const error = mapUpsError(failure) as CarrierApiError;
+
+    expect(error).toMatchObject({
+      name: "UnsupportedServiceError",
+      carrier: "UPS",
+      code: "111210",
+      message: "The requested service is unavailable between the selected locations.",
+      retryable: false,
+      status: 400,
+      payload: {
+        response: {
+          errors: [
+            {
+              code: "111210",
+              message: "The requested service is unavailable between the selected locations.",
+            },
+          ],
+        },
+      },
+    });
+    expect(error.cause).toBe(failure);
+  });
+
+  it("should fall back to the HTTP status for unknown codes", () => {
+    expect(mapUpsError(upsFailure(400, "999999", "Something else"))).toMatchObject({
+      name: "CarrierApiError",
+      code: "999999",
+      retryable: false,
+    });
+    expect(mapUpsError(upsFailure(403, "999999", "Forbidden"))).toBeInstanceOf(
+      CarrierAuthenticationError
+    );
+  });
+
+  it("should mark throttling and outages as retryable", () => {
+    const throttled = mapUpsError(new FetchError("", 429, "Too Many Requests", ""));
+    const unavailable = mapUpsError(new FetchError("", 503, "Service Unavailable", "<html>"));
+
+    expect(throttled).toBeInstanceOf(CarrierThrottledError);
+    expect(throttled).toMatchObject({ code: "HTTP_429", retryable: true, payload: undefined });
+    expect(unavailable).toBeInstanceOf(CarrierUnavailableError);
+    expect(unavailable).toMatchObject({
+      message: "UPS request failed: 503 Service Unavailable",
+      retryable: true,
+      payload: "<html>",
+    });
+  });
+
+  it("should pass through errors that are not UPS error responses", () => {
+    const network = new FetchError("Network error: fetch failed", 0, "", "");
+    const invalidJson = new FetchError("Invalid JSON response", 200, "OK", "not json");
+    const other = new Error("At least one package is required");
+
+    expect(mapUpsError(network)).toBe(network);
+    expect(mapUpsError(invalidJson)).toBe(invalidJson);
+    expect(mapUpsError(other)).toBe(other);
+  });
+});
@@ -1,12 +1,15 @@
 import { describe, it, expect } from "vitest";
 import {
-  mapUpsRateResponseToQuote,
+  mapUpsRateResponseToQuotes,
   buildUpsRateRequestBody,
+  toUpsPackageInput,
+  toUpsDate,
 } from "../../infra/carriers/ups/ups-mapper.js";
 import type { UpsRateResponse } from "../../infra/carriers/ups/ups-rate-response.js";
+import { CarrierResponseError } from "../../src/errors/carrier-errors.js";
 
 describe("UPS Mapper", () => {
-  describe("mapUpsRateResponseToQuote", () => {
+  describe("mapUpsRateResponseToQuotes", () => {
     it("should map basic rate response to quote", () => {
       const response: UpsRateResponse = {
         RateResponse: {
@@ -23,18 +26,15 @@ describe("UPS Mapper", () => {
         },
       };
 
-      const quote = mapUpsRateResponseToQuote(response);
+      const [quote] = mapUpsRateResponseToQuotes(response);
 
       expect(quote).toEqual({
         serviceCode: "03",
         serviceName: "UPS Ground",
+        serviceLevel: "GROUND",
         totalPrice: 25.5,
         currency: "USD",
-        breakdown: {
-          basePrice: 25.5,
-          fuelSurcharge: undefined,
-          other: undefined,
-        },
+        breakdown: { publishedTotal: 25.5, charges: [] },
       });
     });
 
@@ -67,13 +67,13 @@ describe("UPS Mapper", () => {
         },
       };
 
-      const quote = mapUpsRateResponseToQuote(response);
+      const [quote] = mapUpsRateResponseToQuotes(response);
 
       expect(quote.totalPrice).toBe(25.0);
-      expect(quote.breakdown?.fuelSurcharge).toBe(2.5);
+      expect(quote.breakdown).toMatchObject({ publishedTotal: 30, negotiatedTotal: 25 });
     });
 
-    it("should handle multiple rated shipments (uses first)", () => {
+    it("should map every rated shipment to a quote (Shop response)", () => {
       const response: UpsRateResponse = {
         RateResponse: {
           RatedShipment: [
@@ -95,27 +95,216 @@ describe("UPS Mapper", () => {
         },
       };
 
-      const quote = mapUpsRateResponseToQuote(response);
+      const quotes = mapUpsRateResponseToQuotes(response);
+
+      expect(quotes).toHaveLength(2);
+      expect(quotes.map((q) => q.serviceCode)).toEqual(["03", "01"]);
+      expect(quotes.map((q) => q.totalPrice)).toEqual([20.0, 50.0]);
+    });
+
+    it("should keep per-package charges from RatedPackage", () => {
+      const response: UpsRateResponse = {
+        RateResponse: {
+          RatedShipment: {
+            Service: { Code: "03", Description: "Ground" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "30.00" },
+            RatedPackage: [
+              {
+                TransportationCharges: { CurrencyCode: "USD", MonetaryValue: "12.00" },
+                ServiceOptionsCharges: { CurrencyCode: "USD", MonetaryValue: "0.00" },
+                TotalCharges: { CurrencyCode: "USD", MonetaryValue: "12.00" },
+              },
+              {
+                TransportationCharges: { CurrencyCode: "USD", MonetaryValue: "16.50" },
+                ServiceOptionsCharges: { CurrencyCode: "USD", MonetaryValue: "1.50" },
+                TotalCharges: { CurrencyCode: "USD", MonetaryValue: "18.00" },
+              },
+            ],
+          },
+        },
+      };
+
+      const [quote] = mapUpsRateResponseToQuotes(response);
 
-      expect(quote.serviceCode).toBe("03");
-      expect(quote.totalPrice).toBe(20.0);
+      expect(quote.packageRates).toEqual([
+        { totalPrice: 12, currency: "USD", basePrice: 12, serviceOptionsPrice: 0 },
+        { totalPrice: 18, currency: "USD", basePrice: 16.5, serviceOptionsPrice: 1.5 },
+      ]);
     });
 
-    it("should return default quote when no rated shipment", () => {
+    it("should report actual and billing weight when billed on dimensional weight", () => {
+      const response: UpsRateResponse = {
+        RateResponse: {
+          RatedShipment: {
+            Service: { Code: "03", Description: "Ground" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "30.00" },
+            BillingWeight: { UnitOfMeasurement: { Code: "LBS" }, Weight: "58.0" },
+            RatedPackage: [{ Weight: "4.5" }, { Weight: "1.5" }],
+          },
+        },
+      };
+
+      const [quote] = mapUpsRateResponseToQuotes(response);
+
+      expect(quote.weights).toEqual({
+        actual: { value: 6, unit: "LB" },
+        billable: { value: 58, unit: "LB" },
+      });
+    });
+
+    it("should throw instead of quoting when there is no rated shipment", () => {
       const response: UpsRateResponse = {
         RateResponse: {
           RatedShipment: undefined,
         },
       };
 
-      const quote = mapUpsRateResponseToQuote(response);
+      expect(() => mapUpsRateResponseToQuotes(response)).toThrow(
+        "UPS rate response contains no rated shipments"
+      );
+      expect(() => mapUpsRateResponseToQuotes({ RateResponse: { RatedShipment: [] } })).toThrow(
+        CarrierResponseError
+      );
+    });
 
-      expect(quote).toEqual({
-        serviceCode: "ups",
-        serviceName: "UPS",
-        totalPrice: 0,
-        currency: "USD",
+    it("should throw when UPS reports an unsuccessful status", () => {
+      const response = {
+        RateResponse: {
+          Response: { ResponseStatus: { Code: "0", Description: "Failure" } },
+          RatedShipment: {
+            Service: { Code: "03" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "10.00" },
+          },
+        },
+      };
+
+      expect(() => mapUpsRateResponseToQuotes(response)).toThrow(
+        "UPS rate request unsuccessful: Failure"
+      );
+    });
+
+    it("should list schema issues for a malformed response", () => {
+      const response = {
+        RateResponse: {
+          RatedShipment: { Service: { Code: "03" }, TotalCharges: { MonetaryValue: "10.00" } },
+        },
+      };
+
+      let error: CarrierResponseError | undefined;
+      try {
+        mapUpsRateResponseToQuotes(response);
+      } catch (e) {
+        error = e as CarrierResponseError;
+      }
+
+      expect(error).toBeInstanceOf(CarrierResponseError);
+      expect(error!.carrier).toBe("UPS");
+      expect(error!.payload).toBe(response);
+      expect(error!.issues).toEqual([
+        "RateResponse.RatedShipment.TotalCharges.CurrencyCode: Invalid input: expected string, received undefined",
+      ]);
+    });
+
+    it("should reject a body without RateResponse", () => {
+      expect(() => mapUpsRateResponseToQuotes({})).toThrow("Malformed UPS rate response");
+      expect(() => mapUpsRateResponseToQuotes(null)).toThrow(CarrierResponseError);
+    });
+
+    it("should surface UPS alerts as warnings on each quote", () => {
+      const response: UpsRateResponse = {
+        RateResponse: {
+          Response: {
+            ResponseStatus: { Code: "1", Description: "Success" },
+            Alert: [
+              { Code: "110971", Description: "Your invoice may vary from the displayed rates" },
+            ],
+          },
+          RatedShipment: [
+            {
+              Service: { Code: "03" },
+              RatedShipmentAlert: {
+                Code: "110920",
+                Description: "Ship To Address Classification is changed to Residential",
+              },
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "20.00" },
+            },
+            {
+              Service: { Code: "01" },
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "50.00" },
+            },
+          ],
+        },
+      };
+
+      const [ground, nextDay] = mapUpsRateResponseToQuotes(response);
+
+      expect(ground!.warnings!.map((w) => w.code)).toEqual(["110971", "110920"]);
+      expect(nextDay!.warnings).toEqual([
+        { code: "110971", message: "Your invoice may vary from the displayed rates" },
+      ]);
+    });
+
+    it("should map time in transit and the delivery guarantee", () => {
+      const response: UpsRateResponse = {
+        RateResponse: {
+          RatedShipment: [
+            {
+              Service: { Code: "01" },
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "78.25" },
+              GuaranteedDelivery: { BusinessDaysInTransit: "1", DeliveryByTime: "10:30 A.M." },
+              TimeInTransit: {
+                ServiceSummary: {
+                  GuaranteedIndicator: "",
+                  EstimatedArrival: {
+                    Arrival: { Date: "20240103", Time: "1030" },
+                    BusinessDaysInTransit: "1",
+                  },
+                },
+              },
+            },
+            {
+              Service: { Code: "03" },
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "11.63" },
+              TimeInTransit: {
+                ServiceSummary: {
+                  EstimatedArrival: { Arrival: { Date: "20240105" }, BusinessDaysInTransit: "3" },
+                },
+              },
+            },
+          ],
+        },
+      };
+
+      const [nextDay, ground] = mapUpsRateResponseToQuotes(response);
+
+      expect(nextDay).toMatchObject({
+        estimatedDays: 1,
+        deliveryDate: "2024-01-03T10:30:00",
+        guaranteed: true,
+        deliveryByTime: "10:30 A.M.",
       });
+      expect(ground).toMatchObject({
+        estimatedDays: 3,
+        deliveryDate: "2024-01-05",
+        guaranteed: false,
+      });
+      expect(ground.deliveryByTime).toBeUndefined();
+    });
+
+    it("should reject a malformed arrival date", () => {
+      const response = {
+        RateResponse: {
+          RatedShipment: {
+            Service: { Code: "03" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "11.63" },
+            TimeInTransit: {
+              ServiceSummary: { EstimatedArrival: { Arrival: { Date: "2024-01-05" } } },
+            },
+          },
+        },
+      };
+
+      expect(() => mapUpsRateResponseToQuotes(response)).toThrow(CarrierResponseError);
     });
 
     it("should handle missing service description", () => {
@@ -133,57 +322,115 @@ describe("UPS Mapper", () => {
         },
       };
 
-      const quote = mapUpsRateResponseToQuote(response);
+      const [quote] = mapUpsRateResponseToQuotes(response);
 
       expect(quote.serviceName).toBe("UPS");
     });
 
-    it("should parse invalid monetary values as 0", () => {
+    it("should reject invalid monetary values instead of quoting 0", () => {
+      const response = {
+        RateResponse: {
+          RatedShipment: {
+            Service: { Code: "03" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "invalid" },
+          },
+        },
+      };
+
+      expect(() => mapUpsRateResponseToQuotes(response)).toThrow(CarrierResponseError);
+    });
+
+    it("should identify fuel surcharge by code or description", () => {
       const response: UpsRateResponse = {
         RateResponse: {
           RatedShipment: {
             Service: { Code: "03" },
-            TotalCharges: {
-              MonetaryValue: "invalid",
-            },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "22.50" },
+            TransportationCharges: { CurrencyCode: "USD", MonetaryValue: "22.50" },
+            ItemizedCharges: [
+              { Code: "999", Description: "fuel adjustment", MonetaryValue: "2.50" },
+            ],
           },
         },
       };
 
-      const quote = mapUpsRateResponseToQuote(response);
+      const [quote] = mapUpsRateResponseToQuotes(response);
 
-      expect(quote.totalPrice).toBe(0);
+      expect(quote.breakdown?.charges).toEqual([
+        { type: "TRANSPORTATION", description: "Transportation", amount: 20 },
+        { type: "FUEL", code: "999", description: "fuel adjustment", amount: 2.5 },
+      ]);
     });
 
-    it("should identify fuel surcharge by code or description", () => {
+    it("should itemize surcharges out of the transportation charges", () => {
       const response: UpsRateResponse = {
         RateResponse: {
           RatedShipment: {
             Service: { Code: "03" },
-            TotalCharges: {
-              CurrencyCode: "USD",
-              MonetaryValue: "20.00",
-            },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "41.20" },
+            TransportationCharges: { CurrencyCode: "USD", MonetaryValue: "38.20" },
+            ServiceOptionsCharges: { CurrencyCode: "USD", MonetaryValue: "3.00" },
+            ItemizedCharges: [
+              { Code: "375", MonetaryValue: "4.10" },
+              { Code: "270", MonetaryValue: "5.35" },
+              { Code: "376", MonetaryValue: "3.75" },
+              { Code: "100", MonetaryValue: "0.00" },
+            ],
             NegotiatedRateCharges: {
-              TotalCharge: {
-                CurrencyCode: "USD",
-                MonetaryValue: "22.50",
-              },
-              ItemizedCharges: [
-                {
-                  Code: "OTHER",
-                  Description: "fuel adjustment",
-                  MonetaryValue: "2.50",
-                },
-              ],
+              TotalCharge: { CurrencyCode: "USD", MonetaryValue: "35.02" },
             },
           },
         },
       };
 
-      const quote = mapUpsRateResponseToQuote(response);
+      const [quote] = mapUpsRateResponseToQuotes(response);
+
+      expect(quote.totalPrice).toBe(35.02);
+      expect(quote.breakdown).toEqual({
+        publishedTotal: 41.2,
+        negotiatedTotal: 35.02,
+        charges: [
+          { type: "TRANSPORTATION", description: "Transportation", amount: 25 },
+          { type: "FUEL", code: "375", description: "Fuel Surcharge", amount: 4.1 },
+          { type: "RESIDENTIAL", code: "270", description: "Residential Address", amount: 5.35 },
+          { type: "DELIVERY_AREA", code: "376", description: "Delivery Area Surcharge", amount: 3.75 },
+          { type: "SERVICE_OPTIONS", description: "Service Options", amount: 3 },
+        ],
+      });
+    });
 
-      expect(quote.breakdown?.fuelSurcharge).toBe(2.5);
+    it("should sum package surcharges and prefer BaseServiceCharge", () => {
+      const response: UpsRateResponse = {
+        RateResponse: {
+          RatedShipment: {
+            Service: { Code: "03" },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "50.00" },
+            BaseServiceCharge: { CurrencyCode: "USD", MonetaryValue: "30.00" },
+            RatedPackage: [
+              {
+                ItemizedCharges: [
+                  { Code: "100", MonetaryValue: "10.00" },
+                  { Code: "375", MonetaryValue: "2.00" },
+                ],
+              },
+              { ItemizedCharges: { Code: "375", MonetaryValue: "3.00" } },
+            ],
+          },
+        },
+      };
+
+      const [quote] = mapUpsRateResponseToQuotes(response);
+
+      expect(quote.breakdown?.charges).toEqual([
+        { type: "TRANSPORTATION", description: "Transportation", amount: 30 },
+        {
+          type: "ADDITIONAL_HANDLING",
+          code: "100",
+          description: "Additional Handling",
+          amount: 10,
+        },
+        { type: "FUEL", code: "375", description: "Fuel Surcharge", amount: 5 },
+      ]);
     });
   });
 
@@ -191,71 +438,183 @@ describe("UPS Mapper", () => {
     it("should build request with required fields", () => {
       const body = buildUpsRateRequestBody({
         shipperNumber: "123456",
-        shipperAddress: { postalCode: "12345" },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 10,
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 10 }],
       });
 
       expect(body.RateRequest.Shipment.Shipper.ShipperNumber).toBe("123456");
-      expect(body.RateRequest.Shipment.Package.PackageWeight.Weight).toBe("10");
+      expect(body.RateRequest.Shipment.Package[0].PackageWeight.Weight).toBe("10");
       expect(body.RateRequest.Shipment.ShipTo.Address.PostalCode).toBe("67890");
     });
 
+    it("should map every package and set NumOfPieces", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [
+          { weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+          { weightLbs: 2, packagingTypeCode: "04" },
+        ],
+      });
+
+      const { Package, NumOfPieces } = body.RateRequest.Shipment;
+      expect(NumOfPieces).toBe("2");
+      expect(Package).toHaveLength(2);
+      expect(Package[0].PackageWeight.Weight).toBe("5");
+      expect(Package[0].PackagingType.Code).toBe("02");
+      expect(Package[1].PackageWeight.Weight).toBe("2");
+      expect(Package[1].PackagingType.Code).toBe("04");
+    });
+
     it("should use optional dimensions when provided", () => {
       const body = buildUpsRateRequestBody({
         shipperNumber: "123456",
-        shipperAddress: { postalCode: "12345" },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 5,
-        lengthIn: 10,
-        widthIn: 8,
-        heightIn: 6,
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
       });
 
-      expect(body.RateRequest.Shipment.Package.Dimensions.Length).toBe("10");
-      expect(body.RateRequest.Shipment.Package.Dimensions.Width).toBe("8");
-      expect(body.RateRequest.Shipment.Package.Dimensions.Height).toBe("6");
+      expect(body.RateRequest.Shipment.Package[0].Dimensions.Length).toBe("10");
+      expect(body.RateRequest.Shipment.Package[0].Dimensions.Width).toBe("8");
+      expect(body.RateRequest.Shipment.Package[0].Dimensions.Height).toBe("6");
     });
 
-    it("should use default dimensions when not provided", () => {
+    it("should omit dimensions when not provided", () => {
       const body = buildUpsRateRequestBody({
         shipperNumber: "123456",
-        shipperAddress: { postalCode: "12345" },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 5,
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 5 }],
       });
 
-      expect(body.RateRequest.Shipment.Package.Dimensions.Length).toBe("5");
-      expect(body.RateRequest.Shipment.Package.Dimensions.Width).toBe("5");
-      expect(body.RateRequest.Shipment.Package.Dimensions.Height).toBe("5");
+      expect(body.RateRequest.Shipment.Package[0].Dimensions).toBeUndefined();
+    });
+
+    it("should only request Simple Rate when a Simple Rate size is given", () => {
+      const addresses = {
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+      };
+      const plain = buildUpsRateRequestBody({ ...addresses, packages: [{ weightLbs: 5 }] });
+      const simpleRate = buildUpsRateRequestBody({
+        ...addresses,
+        packages: [{ weightLbs: 5, packagingTypeCode: "02", simpleRateCode: "M" }],
+      });
+
+      expect(plain.RateRequest.Shipment.Package[0].SimpleRate).toBeUndefined();
+      expect(simpleRate.RateRequest.Shipment.Package[0].SimpleRate).toEqual({ Code: "M" });
+      expect(simpleRate.RateRequest.Shipment.Package[0].PackagingType.Code).toBe("02");
     });
 
     it("should use custom service code when provided", () => {
       const body = buildUpsRateRequestBody({
         shipperNumber: "123456",
-        shipperAddress: { postalCode: "12345" },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 5,
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 5 }],
         serviceCode: "01",
       });
 
-      expect(body.RateRequest.Shipment.Service.Code).toBe("01");
+      expect(body.RateRequest.Shipment.Service?.Code).toBe("01");
     });
 
     it("should default to Ground service (03)", () => {
       const body = buildUpsRateRequestBody({
         shipperNumber: "123456",
-        shipperAddress: { postalCode: "12345" },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 5,
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 5 }],
+      });
+
+      expect(body.RateRequest.Shipment.Service?.Code).toBe("03");
+      expect(body.RateRequest.Request?.RequestOption).toBe("Rate");
+    });
+
+    it("should request time in transit with the shipment weight", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "21093", countryCode: "US" },
+        shipFromAddress: { postalCode: "21093", countryCode: "US" },
+        shipToAddress: { postalCode: "30005", countryCode: "US" },
+        packages: [{ weightLbs: 2.5 }, { weightLbs: 4 }],
+        requestOption: "Shop",
+        timeInTransit: { pickupDate: "20240102", packageBillType: "03" },
+      });
+
+      const { Request, Shipment } = body.RateRequest;
+      expect(Request?.RequestOption).toBe("Shoptimeintransit");
+      expect(Shipment.Service).toBeUndefined();
+      expect(Shipment.DeliveryTimeInformation).toEqual({
+        PackageBillType: "03",
+        Pickup: { Date: "20240102" },
+      });
+      expect(Shipment.ShipmentTotalWeight?.Weight).toBe("6.5");
+    });
+
+    it("should map shipment options for a domestic shipment", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "21093", countryCode: "US" },
+        shipFromAddress: { postalCode: "21093", countryCode: "US" },
+        shipToAddress: { postalCode: "30005", countryCode: "US" },
+        packages: [{ weightLbs: 2 }, { weightLbs: 3 }],
+        shipmentOptions: {
+          residential: true,
+          saturdayDelivery: true,
+          signature: "ADULT",
+          declaredValue: { amount: 250, currency: "USD" },
+        },
+      });
+
+      const { Shipment } = body.RateRequest;
+      expect(Shipment.ShipTo.Address.ResidentialAddressIndicator).toBe("");
+      expect(Shipment.ShipmentServiceOptions).toEqual({ SaturdayDeliveryIndicator: "" });
+      for (const pkg of Shipment.Package) {
+        expect(pkg.PackageServiceOptions).toEqual({
+          DeliveryConfirmation: { DCISType: "3" },
+          DeclaredValue: { CurrencyCode: "USD", MonetaryValue: "250.00" },
+        });
+      }
+    });
+
+    it("should request signature at shipment level for international shipments", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "21093", countryCode: "US" },
+        shipFromAddress: { postalCode: "21093", countryCode: "US" },
+        shipToAddress: { postalCode: "M5V 2T6", countryCode: "CA" },
+        packages: [{ weightLbs: 2 }],
+        shipmentOptions: { signature: "STANDARD" },
+      });
+
+      const { Shipment } = body.RateRequest;
+      expect(Shipment.ShipmentServiceOptions).toEqual({ DeliveryConfirmation: { DCISType: "1" } });
+      expect(Shipment.Package[0].PackageServiceOptions).toBeUndefined();
+      expect(Shipment.ShipTo.Address.ResidentialAddressIndicator).toBeUndefined();
+    });
+
+    it("should omit the service in Shop mode", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "12345", countryCode: "US" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 5 }],
+        requestOption: "Shop",
       });
 
-      expect(body.RateRequest.Shipment.Service.Code).toBe("03");
+      expect(body.RateRequest.Request?.RequestOption).toBe("Shop");
+      expect(body.RateRequest.Shipment.Service).toBeUndefined();
     });
 
     it("should populate address with city and state when provided", () => {
@@ -267,9 +626,9 @@ describe("UPS Mapper", () => {
           stateProvinceCode: "NY",
           countryCode: "US",
         },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 5,
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 5 }],
       });
 
       expect(body.RateRequest.Shipment.Shipper.Address.City).toBe("New York");
@@ -279,16 +638,76 @@ describe("UPS Mapper", () => {
       expect(body.RateRequest.Shipment.Shipper.Address.CountryCode).toBe("US");
     });
 
-    it("should default to US when country not provided", () => {
+    it("should omit the state for countries without one", () => {
       const body = buildUpsRateRequestBody({
         shipperNumber: "123456",
-        shipperAddress: { postalCode: "12345" },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 5,
+        shipperAddress: { postalCode: "12345", countryCode: "US", stateProvinceCode: "MD" },
+        shipFromAddress: { postalCode: "12345", countryCode: "US", stateProvinceCode: "MD" },
+        shipToAddress: { postalCode: "SW1A 1AA", city: "London", countryCode: "GB" },
+        packages: [{ weightLbs: 5 }],
+      });
+
+      const { Shipment } = body.RateRequest;
+      expect(Shipment.ShipFrom.Address.StateProvinceCode).toBe("MD");
+      expect(Shipment.ShipTo.Address).not.toHaveProperty("StateProvinceCode");
+      expect(Shipment.ShipTo.Address.CountryCode).toBe("GB");
+    });
+
+    it("should omit the postal code for countries without one", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "21093", countryCode: "US" },
+        shipFromAddress: { postalCode: "21093", countryCode: "US" },
+        shipToAddress: { city: "Hong Kong", countryCode: "HK" },
+        packages: [{ weightLbs: 5 }],
+      });
+
+      const { ShipTo } = body.RateRequest.Shipment;
+      expect(ShipTo.Address).not.toHaveProperty("PostalCode");
+      expect(ShipTo.Address.AddressLine).toEqual(["Hong Kong"]);
+    });
+
+    it("should send the invoice total for international shipments", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "21093", countryCode: "US" },
+        shipFromAddress: { postalCode: "21093", countryCode: "US" },
+        shipToAddress: { postalCode: "10115", countryCode: "DE" },
+        packages: [{ weightLbs: 5 }],
+        customs: {
+          declaredValue: 150,
+          currency: "usd",
+          incoterm: "DDP",
+          commodities: [
+            {
+              description: "Cotton T-shirt",
+              hsCode: "6109.10",
+              originCountry: "US",
+              quantity: 3,
+              value: 150,
+            },
+          ],
+        },
       });
 
-      expect(body.RateRequest.Shipment.ShipTo.Address.CountryCode).toBe("US");
+      const { Shipment } = body.RateRequest;
+      expect(Shipment.InvoiceLineTotal).toEqual({ CurrencyCode: "USD", MonetaryValue: "150.00" });
+      expect(Shipment.PaymentDetails.ShipmentCharge.map((c) => c.Type)).toEqual(["01", "02"]);
+    });
+
+    it("should ignore customs data for domestic shipments", () => {
+      const body = buildUpsRateRequestBody({
+        shipperNumber: "123456",
+        shipperAddress: { postalCode: "21093", countryCode: "US" },
+        shipFromAddress: { postalCode: "21093", countryCode: "US" },
+        shipToAddress: { postalCode: "30005", countryCode: "US" },
+        packages: [{ weightLbs: 5 }],
+        customs: { declaredValue: 150, currency: "USD", incoterm: "DDP" },
+      });
+
+      const { Shipment } = body.RateRequest;
+      expect(Shipment.InvoiceLineTotal).toBeUndefined();
+      expect(Shipment.PaymentDetails.ShipmentCharge).toHaveLength(1);
     });
 
     it("should use provided address lines", () => {
@@ -298,9 +717,9 @@ describe("UPS Mapper", () => {
           postalCode: "12345",
           addressLine: ["123 Main St", "Apt 4"],
         },
-        shipFromAddress: { postalCode: "12345" },
-        shipToAddress: { postalCode: "67890" },
-        weightLbs: 5,
+        shipFromAddress: { postalCode: "12345", countryCode: "US" },
+        shipToAddress: { postalCode: "67890", countryCode: "US" },
+        packages: [{ weightLbs: 5 }],
       });
 
       expect(body.RateRequest.Shipment.Shipper.Address.AddressLine).toEqual([
@@ -309,4 +728,56 @@ describe("UPS Mapper", () => {
       ]);
     });
   });
+
+  describe("toUpsPackageInput", () => {
+    it("should convert kilograms and centimeters to UPS units", () => {
+      const input = toUpsPackageInput({
+        weight: 10,
+        weightUnit: "KG",
+        dimensions: { length: 25.4, width: 12.7, height: 2.54, unit: "CM" },
+      });
+
+      expect(input.weightLbs).toBeCloseTo(22.0462);
+      expect(input.lengthIn).toBeCloseTo(10);
+      expect(input.widthIn).toBeCloseTo(5);
+      expect(input.heightIn).toBeCloseTo(1);
+    });
+
+    it("should map packaging type to UPS packaging code", () => {
+      const input = toUpsPackageInput({ weight: 1, weightUnit: "LB", packagingType: "TUBE" });
+
+      expect(input.packagingTypeCode).toBe("03");
+      expect(input.lengthIn).toBeUndefined();
+    });
+
+    it("should map Simple Rate sizes to the customer box code", () => {
+      const input = toUpsPackageInput({
+        weight: 1,
+        weightUnit: "LB",
+        packagingType: "SIMPLE_RATE_XS",
+      });
+
+      expect(input.packagingTypeCode).toBe("02");
+      expect(input.simpleRateCode).toBe("XS");
+    });
+
+    it("should not set a Simple Rate size for ordinary packaging", () => {
+      const input = toUpsPackageInput({ weight: 1, weightUnit: "LB", packagingType: "CUSTOMER_BOX" });
+
+      expect(input.simpleRateCode).toBeUndefined();
+    });
+
+    it("should reject packaging UPS does not sell", () => {
+      expect(() =>
+        toUpsPackageInput({ weight: 1, weightUnit: "LB", packagingType: "SMALL_FLAT_RATE_BOX" })
+      ).toThrow("UPS does not support packaging type SMALL_FLAT_RATE_BOX");
+    });
+  });
+
+  describe("toUpsDate", () => {
+    it("should format the local calendar date", () => {
+      expect(toUpsDate(new Date(2024, 0, 2, 0, 30))).toBe("20240102");
+      expect(toUpsDate(new Date(2024, 11, 31, 23, 30))).toBe("20241231");
+    });
+  });
 });
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildUpsShipRequestBody,
+  mapUpsShipResponseToLabel,
+  mapUpsVoidResponse,
+} from "../../infra/carriers/ups/ups-ship-mapper.js";
+import type { UpsShipResponse } from "../../infra/carriers/ups/ups-ship-response.js";
+import { CarrierResponseError } from "../../src/errors/carrier-errors.js";
+
+describe("UPS Ship Mapper", () => {
+  describe("buildUpsShipRequestBody", () => {
+    const baseOptions = {
+      shipperNumber: "123456",
+      shipper: { name: "Acme", phone: "4105551234", address: { postalCode: "21093", countryCode: "US" } },
+      shipTo: { name: "Jane Doe", address: { postalCode: "30005", countryCode: "US" } },
+      packages: [{ weightLbs: 5 }],
+    };
+
+    it("should build request with shipper, recipient and billing", () => {
+      const body = buildUpsShipRequestBody(baseOptions);
+      const { Shipment } = body.ShipmentRequest;
+
+      expect(Shipment.Shipper.ShipperNumber).toBe("123456");
+      expect(Shipment.Shipper.Name).toBe("Acme");
+      expect(Shipment.Shipper.Phone).toEqual({ Number: "4105551234" });
+      expect(Shipment.ShipFrom.Address.PostalCode).toBe("21093");
+      expect(Shipment.ShipTo.Name).toBe("Jane Doe");
+      expect(Shipment.ShipTo.Phone).toBeUndefined();
+      expect(Shipment.PaymentInformation.ShipmentCharge[0].BillShipper.AccountNumber).toBe("123456");
+    });
+
+    it("should default to Ground service and GIF labels", () => {
+      const body = buildUpsShipRequestBody(baseOptions);
+
+      expect(body.ShipmentRequest.Shipment.Service.Code).toBe("03");
+      expect(body.ShipmentRequest.LabelSpecification).toEqual({
+        LabelImageFormat: { Code: "GIF" },
+      });
+    });
+
+    it("should include stock size for ZPL labels", () => {
+      const body = buildUpsShipRequestBody({ ...baseOptions, labelFormat: "ZPL" });
+
+      expect(body.ShipmentRequest.LabelSpecification).toEqual({
+        LabelImageFormat: { Code: "ZPL" },
+        LabelStockSize: { Height: "6", Width: "4" },
+      });
+    });
+
+    it("should map every package", () => {
+      const body = buildUpsShipRequestBody({
+        ...baseOptions,
+        packages: [
+          { weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+          { weightLbs: 1, packagingTypeCode: "01" },
+        ],
+      });
+
+      const packages = body.ShipmentRequest.Shipment.Package;
+      expect(packages).toHaveLength(2);
+      expect(packages[0].Dimensions.Length).toBe("10");
+      expect(packages[0].Packaging.Code).toBe("02");
+      expect(packages[1].PackageWeight.Weight).toBe("1");
+      expect(packages[1].Packaging.Code).toBe("01");
+      expect(packages[0].SimpleRate).toBeUndefined();
+    });
+
+    it("should ship Simple Rate packages at their Simple Rate size", () => {
+      const body = buildUpsShipRequestBody({
+        ...baseOptions,
+        packages: [{ weightLbs: 5, packagingTypeCode: "02", simpleRateCode: "S" }],
+      });
+
+      const [pkg] = body.ShipmentRequest.Shipment.Package;
+      expect(pkg.SimpleRate).toEqual({ Code: "S" });
+      expect(pkg.Packaging.Code).toBe("02");
+    });
+  });
+
+  describe("mapUpsShipResponseToLabel", () => {
+    it("should map one label per package and the billed cost", () => {
+      const response: UpsShipResponse = {
+        ShipmentResponse: {
+          ShipmentResults: {
+            ShipmentCharges: {
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "24.10" },
+            },
+            ShipmentIdentificationNumber: "1Z2220060290602143",
+            PackageResults: [
+              {
+                TrackingNumber: "1Z2220060290602143",
+                ShippingLabel: { ImageFormat: { Code: "PNG" }, GraphicImage: "aW1hZ2Ux" },
+              },
+              {
+                TrackingNumber: "1Z2220060291994175",
+                ShippingLabel: { ImageFormat: { Code: "PNG" }, GraphicImage: "aW1hZ2Uy" },
+              },
+            ],
+          },
+        },
+      };
+
+      expect(mapUpsShipResponseToLabel(response, "PNG")).toEqual({
+        trackingNumber: "1Z2220060290602143",
+        labelFormat: "PNG",
+        labels: [
+          { trackingNumber: "1Z2220060290602143", labelData: "aW1hZ2Ux" },
+          { trackingNumber: "1Z2220060291994175", labelData: "aW1hZ2Uy" },
+        ],
+        cost: 24.1,
+        currency: "USD",
+      });
+    });
+
+    it("should prefer negotiated charges and accept a single package result", () => {
+      const response: UpsShipResponse = {
+        ShipmentResponse: {
+          ShipmentResults: {
+            ShipmentCharges: {
+              TotalCharges: { CurrencyCode: "USD", MonetaryValue: "24.10" },
+            },
+            NegotiatedRateCharges: {
+              TotalCharge: { CurrencyCode: "USD", MonetaryValue: "19.75" },
+            },
+            ShipmentIdentificationNumber: "1Z2220060290602143",
+            PackageResults: {
+              TrackingNumber: "1Z2220060290602143",
+              ShippingLabel: { GraphicImage: "aW1hZ2Ux" },
+            },
+          },
+        },
+      };
+
+      const label = mapUpsShipResponseToLabel(response, "GIF");
+
+      expect(label.cost).toBe(19.75);
+      expect(label.labels).toHaveLength(1);
+    });
+
+    it("should throw when shipment results are missing", () => {
+      expect(() => mapUpsShipResponseToLabel({ ShipmentResponse: {} }, "GIF")).toThrow(
+        "Invalid UPS ship response: missing shipment results"
+      );
+    });
+
+    it("should throw instead of returning an empty label or a free shipment", () => {
+      const response: UpsShipResponse = {
+        ShipmentResponse: {
+          ShipmentResults: {
+            ShipmentIdentificationNumber: "1Z2220060290602143",
+            PackageResults: { TrackingNumber: "1Z2220060290602143" },
+          },
+        },
+      };
+
+      let error: CarrierResponseError | undefined;
+      try {
+        mapUpsShipResponseToLabel(response, "GIF");
+      } catch (e) {
+        error = e as CarrierResponseError;
+      }
+
+      expect(error).toBeInstanceOf(CarrierResponseError);
+      expect(error!.issues).toEqual([
+        "ShipmentResults.PackageResults.0.ShippingLabel.GraphicImage: missing",
+        "ShipmentResults.ShipmentCharges.TotalCharges: missing",
+      ]);
+    });
+  });
+
+  describe("mapUpsVoidResponse", () => {
+    it("should report voided shipments", () => {
+      const result = mapUpsVoidResponse("1Z2220060290602143", {
+        VoidShipmentResponse: {
+          SummaryResult: { Status: { Code: "1", Description: "Voided" } },
+        },
+      });
+
+      expect(result).toEqual({
+        trackingNumber: "1Z2220060290602143",
+        voided: true,
+        status: "Voided",
+      });
+    });
+
+    it("should report shipments that were not voided", () => {
+      const result = mapUpsVoidResponse("1Z2220060290602143", {
+        VoidShipmentResponse: {
+          SummaryResult: { Status: { Code: "0", Description: "Not Voided" } },
+        },
+      });
+
+      expect(result.voided).toBe(false);
+    });
+  });
+});
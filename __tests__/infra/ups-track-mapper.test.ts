@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  mapUpsTrackResponse,
+  mapUpsTrackStatus,
+} from "../../infra/carriers/ups/ups-track-mapper.js";
+import type { UpsTrackResponse } from "../../infra/carriers/ups/ups-track-response.js";
+
+describe("UPS Track Mapper", () => {
+  describe("mapUpsTrackStatus", () => {
+    it("should map UPS activity types to normalized statuses", () => {
+      expect(mapUpsTrackStatus({ type: "M" })).toBe("PRE_TRANSIT");
+      expect(mapUpsTrackStatus({ type: "P" })).toBe("IN_TRANSIT");
+      expect(mapUpsTrackStatus({ type: "I", code: "DP" })).toBe("IN_TRANSIT");
+      expect(mapUpsTrackStatus({ type: "D" })).toBe("DELIVERED");
+      expect(mapUpsTrackStatus({ type: "X" })).toBe("EXCEPTION");
+      expect(mapUpsTrackStatus({ type: "RS" })).toBe("RETURNED");
+    });
+
+    it("should detect out for delivery by code or description", () => {
+      expect(mapUpsTrackStatus({ type: "I", code: "OT" })).toBe("OUT_FOR_DELIVERY");
+      expect(
+        mapUpsTrackStatus({ type: "I", code: "ZZ", description: "Out For Delivery Today" })
+      ).toBe("OUT_FOR_DELIVERY");
+    });
+
+    it("should fall back to UNKNOWN", () => {
+      expect(mapUpsTrackStatus(undefined)).toBe("UNKNOWN");
+      expect(mapUpsTrackStatus({ type: "W" })).toBe("UNKNOWN");
+    });
+  });
+
+  describe("mapUpsTrackResponse", () => {
+    const response: UpsTrackResponse = {
+      trackResponse: {
+        shipment: [
+          {
+            inquiryNumber: "1Z023E2X0214323462",
+            package: [
+              {
+                trackingNumber: "1Z023E2X0214323462",
+                deliveryDate: [{ type: "SDD", date: "20240105" }],
+                activity: [
+                  {
+                    location: {
+                      address: { city: "Atlanta", stateProvince: "GA", countryCode: "US" },
+                    },
+                    status: { type: "I", description: "Out For Delivery Today ", code: "OT" },
+                    date: "20240105",
+                    time: "071500",
+                  },
+                  {
+                    location: {
+                      address: { city: "Baltimore", stateProvince: "MD", countryCode: "US" },
+                    },
+                    status: { type: "P", description: "Pickup Scan", code: "PU" },
+                    date: "20240103",
+                    time: "180000",
+                    gmtDate: "20240103",
+                    gmtTime: "23:00:00",
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    it("should map activities to tracking events newest first", () => {
+      const info = mapUpsTrackResponse("1Z023E2X0214323462", response);
+
+      expect(info.events).toEqual([
+        {
+          timestamp: "2024-01-05T07:15:00",
+          location: "Atlanta, GA, US",
+          status: "OUT_FOR_DELIVERY",
+          description: "Out For Delivery Today",
+        },
+        {
+          timestamp: "2024-01-03T23:00:00Z",
+          location: "Baltimore, MD, US",
+          status: "IN_TRANSIT",
+          description: "Pickup Scan",
+        },
+      ]);
+    });
+
+    it("should take status from latest event and estimated delivery from schedule", () => {
+      const info = mapUpsTrackResponse("1Z023E2X0214323462", response);
+
+      expect(info.trackingNumber).toBe("1Z023E2X0214323462");
+      expect(info.status).toBe("OUT_FOR_DELIVERY");
+      expect(info.estimatedDelivery).toBe("2024-01-05");
+    });
+
+    it("should return UNKNOWN when package has no activity", () => {
+      const info = mapUpsTrackResponse("1Z023E2X0214323462", {
+        trackResponse: { shipment: [{ package: [{}] }] },
+      });
+
+      expect(info.status).toBe("UNKNOWN");
+      expect(info.events).toEqual([]);
+      expect(info.estimatedDelivery).toBeUndefined();
+    });
+
+    it("should throw with UPS warning when no package is returned", () => {
+      expect(() =>
+        mapUpsTrackResponse("1Z023E2X0214323462", {
+          trackResponse: {
+            shipment: [{ warnings: [{ code: "TW0001", message: "Tracking Information Not Found" }] }],
+          },
+        })
+      ).toThrow("UPS tracking returned no package for 1Z023E2X0214323462: Tracking Information Not Found");
+    });
+  });
+});
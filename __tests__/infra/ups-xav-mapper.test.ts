@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildUpsXavRequestBody,
+  mapUpsXavResponse,
+} from "../../infra/carriers/ups/ups-xav-mapper.js";
+import type { UpsXavResponse } from "../../infra/carriers/ups/ups-xav-response.js";
+import { AddressInputSchema } from "../../src/models/rate-request.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("UPS XAV Mapper", () => {
+  describe("buildUpsXavRequestBody", () => {
+    it("should map address to AddressKeyFormat", () => {
+      const body = buildUpsXavRequestBody({
+        addressLine1: "456 Oak Ave",
+        addressLine2: "Suite 200",
+        city: "Atlanta",
+        state: "GA",
+        postalCode: "30005",
+        country: "US",
+      });
+
+      expect(body).toEqual({
+        XAVRequest: {
+          AddressKeyFormat: {
+            AddressLine: ["456 Oak Ave", "Suite 200"],
+            PoliticalDivision2: "Atlanta",
+            PoliticalDivision1: "GA",
+            PostcodePrimaryLow: "30005",
+            CountryCode: "US",
+          },
+        },
+      });
+    });
+
+    it("should split ZIP+4 postal codes", () => {
+      const body = buildUpsXavRequestBody({
+        addressLine1: "456 Oak Ave",
+        city: "Atlanta",
+        state: "GA",
+        postalCode: "30005-1234",
+        country: "US",
+      });
+
+      expect(body.XAVRequest.AddressKeyFormat.PostcodePrimaryLow).toBe("30005");
+      expect(body.XAVRequest.AddressKeyFormat.PostcodeExtendedLow).toBe("1234");
+    });
+  });
+
+  describe("mapUpsXavResponse", () => {
+    it("should map a valid residential address", () => {
+      const response: UpsXavResponse = {
+        XAVResponse: {
+          ValidAddressIndicator: "",
+          AddressClassification: { Code: "2", Description: "Residential" },
+          Candidate: {
+            AddressClassification: { Code: "2", Description: "Residential" },
+            AddressKeyFormat: {
+              AddressLine: "456 OAK AVE",
+              PoliticalDivision2: "ATLANTA",
+              PoliticalDivision1: "GA",
+              PostcodePrimaryLow: "30005",
+              PostcodeExtendedLow: "1234",
+              CountryCode: "US",
+            },
+          },
+        },
+      };
+
+      const result = mapUpsXavResponse(response);
+
+      expect(result).toEqual({
+        status: "VALID",
+        isValid: true,
+        classification: "RESIDENTIAL",
+        candidates: [
+          {
+            address: {
+              addressLine1: "456 OAK AVE",
+              city: "ATLANTA",
+              state: "GA",
+              postalCode: "30005-1234",
+              country: "US",
+            },
+            classification: "RESIDENTIAL",
+          },
+        ],
+        suggestedAddress: {
+          addressLine1: "456 OAK AVE",
+          city: "ATLANTA",
+          state: "GA",
+          postalCode: "30005-1234",
+          country: "US",
+        },
+      });
+    });
+
+    it("should map ambiguous addresses with every candidate", () => {
+      const response: UpsXavResponse = {
+        XAVResponse: {
+          AmbiguousAddressIndicator: "",
+          AddressClassification: { Code: "1", Description: "Commercial" },
+          Candidate: [
+            {
+              AddressClassification: { Code: "1" },
+              AddressKeyFormat: { AddressLine: ["100 MAIN ST", "STE 1"], PostcodePrimaryLow: "21093" },
+            },
+            {
+              AddressClassification: { Code: "0" },
+              AddressKeyFormat: { AddressLine: ["100 MAIN ST W"], PostcodePrimaryLow: "21093" },
+            },
+          ],
+        },
+      };
+
+      const result = mapUpsXavResponse(response);
+
+      expect(result.status).toBe("AMBIGUOUS");
+      expect(result.isValid).toBe(false);
+      expect(result.classification).toBe("COMMERCIAL");
+      expect(result.candidates).toHaveLength(2);
+      expect(result.candidates[0].address.addressLine2).toBe("STE 1");
+      expect(result.candidates[1].classification).toBe("UNKNOWN");
+    });
+
+    it("should leave out the fields UPS does not return", () => {
+      const result = mapUpsXavResponse({
+        XAVResponse: {
+          AmbiguousAddressIndicator: "",
+          Candidate: { AddressKeyFormat: { AddressLine: "100 MAIN ST", PoliticalDivision1: "MD" } },
+        },
+      });
+
+      const { origin } = buildTestRateRequest();
+      expect(result.suggestedAddress).toEqual({ addressLine1: "100 MAIN ST", state: "MD" });
+      expect(AddressInputSchema.safeParse({ ...origin, ...result.suggestedAddress }).success).toBe(
+        true
+      );
+    });
+
+    it("should map no candidates to invalid", () => {
+      const result = mapUpsXavResponse({
+        XAVResponse: { NoCandidatesIndicator: "" },
+      });
+
+      expect(result).toEqual({
+        status: "INVALID",
+        isValid: false,
+        classification: "UNKNOWN",
+        candidates: [],
+        suggestedAddress: undefined,
+        errors: ["No matching address found"],
+      });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildUspsRateSearchBody,
+  isMailClassEligible,
+  mapUspsRateResponsesToQuote,
+} from "../../infra/carriers/usps/usps-mapper.js";
+import { CarrierResponseError } from "../../src/errors/carrier-errors.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("USPS Mapper", () => {
+  describe("buildUspsRateSearchBody", () => {
+    it("should build a domestic search in pounds and inches", () => {
+      const { origin, destination, packages } = buildTestRateRequest();
+      const body = buildUspsRateSearchBody({
+        origin,
+        destination: { ...destination, postalCode: "30005-1234" },
+        pkg: packages[0]!,
+        mailClass: "PRIORITY_MAIL",
+        priceType: "COMMERCIAL",
+        mailingDate: "2024-01-02",
+      });
+
+      expect(body).toEqual({
+        originZIPCode: "21093",
+        destinationZIPCode: "30005",
+        weight: 10,
+        length: 10,
+        width: 10,
+        height: 10,
+        mailClass: "PRIORITY_MAIL",
+        processingCategory: "MACHINABLE",
+        rateIndicator: "SP",
+        destinationEntryFacilityType: "NONE",
+        priceType: "COMMERCIAL",
+        mailingDate: "2024-01-02",
+      });
+    });
+
+    it("should build an international search with country and foreign postal code", () => {
+      const { origin } = buildTestRateRequest();
+      const body = buildUspsRateSearchBody({
+        origin,
+        destination: {
+          addressLine1: "10 Downing St",
+          city: "London",
+          postalCode: "SW1A 2AA",
+          country: "GB",
+        },
+        pkg: { weight: 2, weightUnit: "KG", dimensions: { length: 30, width: 20, height: 10, unit: "CM" } },
+        mailClass: "PRIORITY_MAIL_INTERNATIONAL",
+        priceType: "RETAIL",
+        mailingDate: "2024-01-02",
+      });
+
+      expect(body).toMatchObject({
+        destinationCountryCode: "GB",
+        foreignPostalCode: "SW1A 2AA",
+        priceType: "RETAIL",
+      });
+      expect(body).not.toHaveProperty("destinationZIPCode");
+      expect(body.weight).toBeCloseTo(4.409, 2);
+      expect(body.length).toBeCloseTo(11.81, 2);
+    });
+
+    it("should use the flat-rate indicator and zero dimensions when none are given", () => {
+      const { origin, destination } = buildTestRateRequest();
+      const body = buildUspsRateSearchBody({
+        origin,
+        destination,
+        pkg: { weight: 1, weightUnit: "LB", packagingType: "MEDIUM_FLAT_RATE_BOX" },
+        mailClass: "PRIORITY_MAIL",
+        priceType: "COMMERCIAL",
+        mailingDate: "2024-01-02",
+      });
+
+      expect(body.rateIndicator).toBe("FB");
+      expect([body.length, body.width, body.height]).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe("isMailClassEligible", () => {
+    it("should allow any mail class for customer packaging", () => {
+      expect(isMailClassEligible({ weight: 1, weightUnit: "LB" }, "USPS_GROUND_ADVANTAGE")).toBe(true);
+    });
+
+    it("should restrict flat-rate packaging to the classes that sell it", () => {
+      const box = { weight: 1, weightUnit: "LB" as const, packagingType: "SMALL_FLAT_RATE_BOX" as const };
+      const envelope = { ...box, packagingType: "FLAT_RATE_ENVELOPE" as const };
+
+      expect(isMailClassEligible(box, "PRIORITY_MAIL")).toBe(true);
+      expect(isMailClassEligible(box, "PRIORITY_MAIL_EXPRESS")).toBe(false);
+      expect(isMailClassEligible(envelope, "PRIORITY_MAIL_EXPRESS")).toBe(true);
+      expect(isMailClassEligible(envelope, "USPS_GROUND_ADVANTAGE")).toBe(false);
+    });
+  });
+
+  describe("mapUspsRateResponsesToQuote", () => {
+    it("should sum package prices into one quote per mail class", () => {
+      const quote = mapUspsRateResponsesToQuote("PRIORITY_MAIL", [
+        { totalBasePrice: 12.5, rates: [{ price: 12.5, fees: [] }] },
+        { totalBasePrice: 9.75, rates: [{ price: 9, fees: [{ name: "Nonstandard", price: 0.75 }] }] },
+      ]);
+
+      expect(quote).toEqual({
+        serviceCode: "PRIORITY_MAIL",
+        serviceName: "Priority Mail",
+        serviceLevel: "TWO_DAY",
+        totalPrice: 22.25,
+        currency: "USD",
+        breakdown: {
+          publishedTotal: 22.25,
+          charges: [
+            { type: "TRANSPORTATION", description: "Postage", amount: 21.5 },
+            { type: "OTHER", description: "Nonstandard", amount: 0.75 },
+          ],
+        },
+        packageRates: [
+          { totalPrice: 12.5, currency: "USD", basePrice: 12.5, serviceOptionsPrice: 0 },
+          { totalPrice: 9.75, currency: "USD", basePrice: 9, serviceOptionsPrice: 0.75 },
+        ],
+      });
+    });
+
+    it("should sum rated and dimensional weights only when every package has them", () => {
+      const quote = mapUspsRateResponsesToQuote("PRIORITY_MAIL", [
+        { totalBasePrice: 30, rates: [{ price: 30, weight: 13, dimWeight: 13 }] },
+        { totalBasePrice: 10, rates: [{ price: 10, weight: 2 }] },
+      ]);
+
+      expect(quote.weights).toEqual({ billable: { value: 15, unit: "LB" } });
+    });
+
+    it("should throw instead of quoting a response without a price", () => {
+      expect(() => mapUspsRateResponsesToQuote("PRIORITY_MAIL", [{}])).toThrow(
+        CarrierResponseError
+      );
+      expect(() =>
+        mapUspsRateResponsesToQuote("PRIORITY_MAIL", [
+          { totalBasePrice: 12.5, rates: [{ price: 12.5 }] },
+          { rates: [{ description: "Base Rate" }] },
+        ])
+      ).toThrow("USPS returned no price for PRIORITY_MAIL");
+    });
+
+    it("should fall back to the rate description for unknown mail classes", () => {
+      const quote = mapUspsRateResponsesToQuote("BOUND_PRINTED_MATTER", [
+        { totalBasePrice: 4, rates: [{ price: 4, description: "Bound Printed Matter" }] },
+      ]);
+
+      expect(quote.serviceName).toBe("Bound Printed Matter");
+    });
+  });
+});
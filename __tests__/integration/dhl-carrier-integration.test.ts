@@ -0,0 +1,221 @@
+/**
+ * Integration tests for DHL Express carrier with realistic API payloads
+ * Tests end-to-end flow: request building → HTTP → response parsing
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DhlExpressCarrier } from "../../infra/carriers/dhl/dhl-carrier.js";
+import type { DhlAuthConfig } from "../../infra/auth/dhl-auth.js";
+import { FetchError } from "../../infra/http/fetch-client.js";
+import {
+  CarrierResponseError,
+  UnsupportedServiceLevelError,
+} from "../../src/errors/carrier-errors.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("DHL Express Carrier Integration", () => {
+  const mockFetch = vi.fn();
+  const mockConfig = {
+    auth: {
+      apiKey: "dhl-key",
+      apiSecret: "dhl-secret",
+      baseUrl: "https://express.api.dhl.com/mydhlapi/test",
+    } as DhlAuthConfig,
+    accountNumber: "123456789",
+  };
+
+  const torontoDestination = {
+    addressLine1: "100 Queen St W",
+    city: "Toronto",
+    state: "ON",
+    postalCode: "M5H 2N2",
+    country: "CA",
+  };
+
+  const ratesResponse = {
+    products: [
+      {
+        productName: "EXPRESS WORLDWIDE",
+        productCode: "P",
+        localProductCode: "P",
+        networkTypeCode: "TD",
+        weight: { volumetric: 0.82, provided: 10, unitOfMeasurement: "imperial" },
+        totalPrice: [
+          { currencyType: "BILLC", priceCurrency: "USD", price: 164.3 },
+          { currencyType: "PULCL", priceCurrency: "USD", price: 164.3 },
+        ],
+        detailedPriceBreakdown: [
+          {
+            currencyType: "BILLC",
+            priceCurrency: "USD",
+            breakdown: [
+              { name: "EXPRESS WORLDWIDE", price: 118.75 },
+              { name: "FUEL SURCHARGE", serviceCode: "FF", localServiceCode: "FF", price: 21.55 },
+              { name: "DUTY", typeCode: "DUTY", price: 14 },
+              { name: "GST/HST", typeCode: "TAX", price: 10 },
+            ],
+          },
+        ],
+        deliveryCapabilities: {
+          estimatedDeliveryDateAndTime: "2024-01-04T23:59:00",
+          totalTransitDays: 2,
+        },
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("End-to-end rate request flow", () => {
+    it("should send Basic auth, customs details and return landed cost", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify(ratesResponse),
+      });
+
+      const carrier = new DhlExpressCarrier(mockConfig);
+      const quotes = await carrier.getRates(
+        buildTestRateRequest({
+          destination: torontoDestination,
+          customs: { declaredValue: 200, currency: "USD" },
+        })
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const [url, init] = mockFetch.mock.calls[0]!;
+      expect(url).toBe("https://express.api.dhl.com/mydhlapi/test/rates");
+      expect(init.method).toBe("POST");
+      expect(init.headers).toEqual(
+        expect.objectContaining({
+          Authorization: `Basic ${Buffer.from("dhl-key:dhl-secret").toString("base64")}`,
+          "Content-Type": "application/json",
+        })
+      );
+
+      const body = JSON.parse(init.body);
+      expect(body.customerDetails.receiverDetails.countryCode).toBe("CA");
+      expect(body.isCustomsDeclarable).toBe(true);
+      expect(body.monetaryAmount).toEqual([
+        { typeCode: "declaredValue", value: 200, currency: "USD" },
+      ]);
+      expect(body.plannedShippingDateAndTime).toMatch(
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}GMT\+00:00$/
+      );
+      expect(body.productCode).toBeUndefined();
+
+      expect(quotes).toEqual([
+        {
+          serviceCode: "P",
+          serviceName: "EXPRESS WORLDWIDE",
+          serviceLevel: "INTERNATIONAL_EXPRESS",
+          totalPrice: 164.3,
+          currency: "USD",
+          estimatedDays: 2,
+          deliveryDate: "2024-01-04T23:59:00",
+          breakdown: {
+            publishedTotal: 164.3,
+            charges: [
+              { type: "TRANSPORTATION", description: "EXPRESS WORLDWIDE", amount: 118.75 },
+              { type: "FUEL", code: "FF", description: "FUEL SURCHARGE", amount: 21.55 },
+              { type: "DUTY", code: "DUTY", description: "DUTY", amount: 14 },
+              { type: "TAX", code: "TAX", description: "GST/HST", amount: 10 },
+            ],
+          },
+          weights: {
+            actual: { value: 10, unit: "LB" },
+            dimensional: { value: 0.82, unit: "LB" },
+            billable: { value: 10, unit: "LB" },
+          },
+        },
+      ]);
+    });
+
+    it("should request a single product for a service level", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify(ratesResponse),
+      });
+
+      const carrier = new DhlExpressCarrier(mockConfig);
+      await carrier.getRates(
+        buildTestRateRequest({
+          destination: torontoDestination,
+          serviceLevel: "INTERNATIONAL_EXPRESS",
+        })
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.productCode).toBe("P");
+      expect(body.isCustomsDeclarable).toBe(false);
+    });
+
+    it("should request the document product for non-dutiable contents", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify(ratesResponse),
+      });
+
+      const carrier = new DhlExpressCarrier(mockConfig);
+      await carrier.getRates(
+        buildTestRateRequest({
+          destination: torontoDestination,
+          serviceLevel: "INTERNATIONAL_EXPRESS",
+          customs: { declaredValue: 0, currency: "USD", dutiable: false },
+        })
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.productCode).toBe("D");
+    });
+
+    it("should reject service levels DHL Express does not offer", async () => {
+      const carrier = new DhlExpressCarrier(mockConfig);
+
+      await expect(
+        carrier.getRates(buildTestRateRequest({ serviceLevel: "GROUND" }))
+      ).rejects.toThrow(UnsupportedServiceLevelError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Error handling", () => {
+    it("should surface DHL problem responses as FetchError", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+        text: async () =>
+          JSON.stringify({
+            instance: "/expressapi/rates",
+            detail: "Missing mandatory parameters: plannedShippingDateAndTime",
+            title: "Missing parameters",
+            status: "400",
+          }),
+      });
+
+      const carrier = new DhlExpressCarrier(mockConfig);
+
+      await expect(
+        carrier.getRates(buildTestRateRequest({ destination: torontoDestination }))
+      ).rejects.toThrow(FetchError);
+    });
+
+    it("should reject a response without products", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ products: [] }),
+      });
+
+      const carrier = new DhlExpressCarrier(mockConfig);
+      await expect(
+        carrier.getRates(buildTestRateRequest({ destination: torontoDestination }))
+      ).rejects.toThrow(CarrierResponseError);
+    });
+  });
+});
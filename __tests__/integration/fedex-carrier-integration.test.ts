@@ -0,0 +1,367 @@
+/**
+ * Integration tests for FedEx carrier with realistic API payloads
+ * Tests end-to-end flow: request building → HTTP → response parsing
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { FedexCarrier } from "../../infra/carriers/fedex/fedex-carrier.js";
+import type { FedexAuthConfig } from "../../infra/auth/fedex-auth.js";
+import { FetchError } from "../../infra/http/fetch-client.js";
+import { RateService } from "../../src/services/rate-service.js";
+import type { IRateProvider } from "../../src/carriers/carrier.interface.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("FedEx Carrier Integration", () => {
+  const mockFetch = vi.fn();
+  const mockConfig = {
+    auth: {
+      clientId: "fedex-client-id",
+      clientSecret: "fedex-secret",
+      baseUrl: "https://apis-sandbox.fedex.com",
+    } as FedexAuthConfig,
+    accountNumber: "740561073",
+  };
+
+  const tokenResponse = (token = "fedex-token") => ({
+    ok: true,
+    text: async () =>
+      JSON.stringify({
+        access_token: token,
+        token_type: "bearer",
+        expires_in: 3599,
+        scope: "CXS",
+      }),
+  });
+
+  const groundReply = {
+    serviceType: "FEDEX_GROUND",
+    serviceName: "FedEx Ground",
+    packagingType: "YOUR_PACKAGING",
+    ratedShipmentDetails: [
+      {
+        rateType: "ACCOUNT",
+        ratedWeightMethod: "ACTUAL",
+        totalDiscounts: 0,
+        totalBaseCharge: 14.52,
+        totalNetCharge: 17.37,
+        totalNetFedExCharge: 17.37,
+        shipmentRateDetail: {
+          rateZone: "5",
+          dimDivisor: 0,
+          fuelSurchargePercent: 19.75,
+          totalSurcharges: 2.85,
+          totalFreightDiscount: 0,
+          surCharges: [
+            { type: "FUEL", description: "Fuel Surcharge", amount: 2.85 },
+          ],
+          totalBillingWeight: { units: "LB", value: 10 },
+          currency: "USD",
+        },
+        ratedPackages: [
+          {
+            groupNumber: 0,
+            effectiveNetDiscount: 0,
+            packageRateDetail: {
+              rateType: "PAYOR_ACCOUNT_PACKAGE",
+              ratedWeightMethod: "ACTUAL",
+              baseCharge: 14.52,
+              netFreight: 14.52,
+              totalSurcharges: 2.85,
+              netFedExCharge: 17.37,
+              totalTaxes: 0,
+              netCharge: 17.37,
+              totalRebates: 0,
+              billingWeight: { units: "LB", value: 10 },
+              totalFreightDiscounts: 0,
+              surcharges: [{ type: "FUEL", description: "Fuel Surcharge", amount: 2.85 }],
+              currency: "USD",
+            },
+          },
+        ],
+        currency: "USD",
+      },
+      {
+        rateType: "LIST",
+        totalBaseCharge: 16.1,
+        totalNetCharge: 19.28,
+        currency: "USD",
+        shipmentRateDetail: {
+          totalSurcharges: 3.18,
+          surCharges: [{ type: "FUEL", description: "Fuel Surcharge", amount: 3.18 }],
+        },
+      },
+    ],
+    operationalDetail: { transitTime: "THREE_DAYS" },
+  };
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("End-to-end rate request flow", () => {
+    it("should handle complete successful rate request with OAuth and parsing", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            transactionId: "624deea6-b709-470c-8c39-4b5511281492",
+            output: {
+              rateReplyDetails: [groundReply],
+              quoteDate: "2024-01-02",
+              encoded: false,
+            },
+          }),
+      });
+
+      const carrier = new FedexCarrier(mockConfig);
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://apis-sandbox.fedex.com/oauth/token",
+        expect.objectContaining({
+          method: "POST",
+          body: "grant_type=client_credentials&client_id=fedex-client-id&client_secret=fedex-secret",
+        })
+      );
+
+      const rateCall = mockFetch.mock.calls[1];
+      expect(rateCall[0]).toBe("https://apis-sandbox.fedex.com/rate/v1/rates/quotes");
+      expect(rateCall[1].method).toBe("POST");
+      expect(rateCall[1].headers).toEqual(
+        expect.objectContaining({
+          Authorization: "Bearer fedex-token",
+          "Content-Type": "application/json",
+          "X-locale": "en_US",
+        })
+      );
+
+      const requestBody = JSON.parse(rateCall[1].body);
+      expect(requestBody.accountNumber.value).toBe("740561073");
+      expect(requestBody.requestedShipment.shipper.address.postalCode).toBe("21093");
+      expect(requestBody.requestedShipment.recipient.address.postalCode).toBe("30005");
+      expect(requestBody.requestedShipment.requestedPackageLineItems[0].weight).toEqual({
+        units: "LB",
+        value: 10,
+      });
+
+      expect(quotes).toEqual([
+        {
+          serviceCode: "FEDEX_GROUND",
+          serviceName: "FedEx Ground",
+          serviceLevel: "GROUND",
+          totalPrice: 17.37, // Uses account rate
+          currency: "USD",
+          breakdown: {
+            publishedTotal: 19.28,
+            negotiatedTotal: 17.37,
+            charges: [
+              { type: "TRANSPORTATION", description: "Base charge", amount: 16.1 },
+              { type: "FUEL", code: "FUEL", description: "Fuel Surcharge", amount: 3.18 },
+            ],
+          },
+          // FedEx reports only the billing weight; RateService estimates the rest
+          weights: { billable: { value: 10, unit: "LB" } },
+          packageRates: [
+            { totalPrice: 17.37, currency: "USD", basePrice: 14.52, serviceOptionsPrice: 2.85 },
+          ],
+        },
+      ]);
+    });
+
+    it("should reuse cached OAuth token for multiple requests", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse("cached-token"));
+      const rateResponse = {
+        ok: true,
+        text: async () => JSON.stringify({ output: { rateReplyDetails: [groundReply] } }),
+      };
+      mockFetch.mockResolvedValueOnce(rateResponse).mockResolvedValueOnce(rateResponse);
+
+      const carrier = new FedexCarrier(mockConfig);
+      await carrier.getRates(buildTestRateRequest());
+      await carrier.getRates(buildTestRateRequest());
+
+      const oauthCalls = mockFetch.mock.calls.filter((call) => call[0].includes("/oauth/token"));
+      const rateCalls = mockFetch.mock.calls.filter((call) => call[0].includes("/rate/"));
+
+      expect(oauthCalls).toHaveLength(1);
+      expect(rateCalls).toHaveLength(2);
+      expect(rateCalls[1][1].headers.Authorization).toBe("Bearer cached-token");
+    });
+
+    it("should aggregate next to other carriers in RateService", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ output: { rateReplyDetails: [groundReply] } }),
+      });
+
+      const otherCarrier: IRateProvider = {
+        name: "Other",
+        getRates: vi.fn(async () => [
+          { serviceCode: "03", serviceName: "UPS Ground", totalPrice: 18.1, currency: "USD" },
+        ]),
+      };
+      const service = new RateService({
+        providers: { ups: otherCarrier, fedex: new FedexCarrier(mockConfig) },
+      });
+
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(result.quotes.map((q) => [q.carrier, q.quote.serviceCode])).toEqual([
+        ["ups", "03"],
+        ["fedex", "FEDEX_GROUND"],
+      ]);
+      expect(result.quotes[1]!.quote.weights).toEqual({
+        actual: { value: 10, unit: "LB" },
+        dimensional: { value: 7.19, unit: "LB" },
+        billable: { value: 10, unit: "LB" },
+      });
+      expect(result.errors).toBeUndefined();
+    });
+  });
+
+  describe("Error handling", () => {
+    it("should handle 401 Unauthorized from the token endpoint", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: async () =>
+          JSON.stringify({
+            transactionId: "b1d9d39a",
+            errors: [{ code: "NOT.AUTHORIZED.ERROR", message: "The given client credentials were not valid." }],
+          }),
+      });
+
+      const carrier = new FedexCarrier(mockConfig);
+
+      await expect(carrier.getRates(buildTestRateRequest())).rejects.toThrow(/401 Unauthorized/);
+    });
+
+    it("should retry once with a fresh token when the rate call answers 401", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse("stale-token"));
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: async () => JSON.stringify({ errors: [{ code: "NOT.AUTHORIZED.ERROR" }] }),
+      });
+      mockFetch.mockResolvedValueOnce(tokenResponse("fresh-token"));
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ output: { rateReplyDetails: [groundReply] } }),
+      });
+
+      const carrier = new FedexCarrier(mockConfig);
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      expect(mockFetch.mock.calls[3][1].headers.Authorization).toBe("Bearer fresh-token");
+      expect(quotes).toHaveLength(1);
+    });
+
+    it("should handle 400 Bad Request with validation errors", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+        text: async () =>
+          JSON.stringify({
+            transactionId: "c4d7b2a1",
+            errors: [{ code: "ACCOUNT.NUMBER.MISMATCH", message: "When payment Type is SENDER, ShippingChargesPayment Payor AccountNumber should match the shipper account number." }],
+          }),
+      });
+
+      const carrier = new FedexCarrier(mockConfig);
+
+      try {
+        await carrier.getRates(buildTestRateRequest());
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(FetchError);
+        expect((error as FetchError).status).toBe(400);
+        expect((error as FetchError).body).toContain("ACCOUNT.NUMBER.MISMATCH");
+      }
+    });
+
+    it("should handle 500 Internal Server Error", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        text: async () => "Internal server error occurred",
+      });
+
+      const carrier = new FedexCarrier(mockConfig);
+
+      await expect(carrier.getRates(buildTestRateRequest())).rejects.toThrow(/500 Internal Server Error/);
+    });
+
+    it("should handle malformed JSON response", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        text: async () => "not valid json {",
+      });
+
+      const carrier = new FedexCarrier(mockConfig);
+
+      await expect(carrier.getRates(buildTestRateRequest())).rejects.toThrow(/Invalid JSON response/);
+    });
+
+    it("should handle network timeout/failure", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network request failed"));
+
+      const carrier = new FedexCarrier(mockConfig);
+
+      await expect(carrier.getRates(buildTestRateRequest())).rejects.toThrow(/Network request failed/);
+    });
+  });
+
+  describe("Response normalization", () => {
+    it("should normalize every service when no service level is requested", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            output: {
+              rateReplyDetails: [
+                groundReply,
+                {
+                  serviceType: "FEDEX_2_DAY",
+                  serviceName: "FedEx 2Day®",
+                  ratedShipmentDetails: [{ rateType: "ACCOUNT", totalNetCharge: 41.2, currency: "USD" }],
+                },
+                {
+                  serviceType: "STANDARD_OVERNIGHT",
+                  serviceName: "FedEx Standard Overnight®",
+                  ratedShipmentDetails: [{ rateType: "ACCOUNT", totalNetCharge: 95.66, currency: "USD" }],
+                },
+              ],
+            },
+          }),
+      });
+
+      const carrier = new FedexCarrier(mockConfig);
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      const requestBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(requestBody.requestedShipment.serviceType).toBeUndefined();
+      expect(quotes.map((q) => [q.serviceCode, q.totalPrice])).toEqual([
+        ["FEDEX_GROUND", 17.37],
+        ["FEDEX_2_DAY", 41.2],
+        ["STANDARD_OVERNIGHT", 95.66],
+      ]);
+    });
+  });
+});
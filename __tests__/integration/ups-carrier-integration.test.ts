@@ -5,8 +5,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { UpsCarrier } from "../../infra/carriers/ups/ups-carrier.js";
 import { clearUpsTokenCache, type UpsAuthConfig } from "../../infra/auth/ups-auth.js";
-import { FetchError } from "../../infra/http/fetch-client.js";
-import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+import { FetchClient, FetchError } from "../../infra/http/fetch-client.js";
+import {
+  CarrierApiError,
+  CarrierAuthenticationError,
+  CarrierResponseError,
+  CarrierUnavailableError,
+} from "../../src/errors/carrier-errors.js";
+import { buildTestRateRequest, buildTestShipmentRequest } from "../helpers/test-fixtures.js";
 
 describe("UPS Carrier Integration", () => {
   const mockFetch = vi.fn();
@@ -19,20 +25,20 @@ describe("UPS Carrier Integration", () => {
     shipperNumber: "123456",
   };
 
-  beforeEach(() => {
+  beforeEach(async () => {
     global.fetch = mockFetch;
-    clearUpsTokenCache();
+    await clearUpsTokenCache();
     vi.clearAllMocks();
   });
 
-  afterEach(() => {
-    clearUpsTokenCache();
+  afterEach(async () => {
+    await clearUpsTokenCache();
     vi.clearAllMocks();
   });
 
   describe("End-to-end rate request flow", () => {
     it("should handle complete successful rate request with OAuth and parsing", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       // Mock OAuth token request
       mockFetch.mockResolvedValueOnce({
@@ -72,12 +78,24 @@ describe("UPS Carrier Integration", () => {
                   Code: "110971",
                   Description: "Your invoice may vary from the displayed reference rates",
                 },
+                TimeInTransit: {
+                  PickupDate: "20240102",
+                  PackageBillType: "03",
+                  ServiceSummary: {
+                    Service: { Description: "UPS Ground" },
+                    EstimatedArrival: {
+                      Arrival: { Date: "20240105", Time: "233000" },
+                      BusinessDaysInTransit: "3",
+                      DayOfWeek: "FRI",
+                    },
+                  },
+                },
                 BillingWeight: {
                   UnitOfMeasurement: {
                     Code: "LBS",
                     Description: "Pounds",
                   },
-                  Weight: "1.0",
+                  Weight: "10.0",
                 },
                 TransportationCharges: {
                   CurrencyCode: "USD",
@@ -87,6 +105,14 @@ describe("UPS Carrier Integration", () => {
                   CurrencyCode: "USD",
                   MonetaryValue: "0.00",
                 },
+                ItemizedCharges: [
+                  {
+                    Code: "375",
+                    Description: "Fuel Surcharge",
+                    CurrencyCode: "USD",
+                    MonetaryValue: "1.16",
+                  },
+                ],
                 TotalCharges: {
                   CurrencyCode: "USD",
                   MonetaryValue: "11.63",
@@ -118,13 +144,13 @@ describe("UPS Carrier Integration", () => {
                     CurrencyCode: "USD",
                     MonetaryValue: "11.63",
                   },
-                  Weight: "1.0",
+                  Weight: "10.0",
                   BillingWeight: {
                     UnitOfMeasurement: {
                       Code: "LBS",
                       Description: "Pounds",
                     },
-                    Weight: "1.0",
+                    Weight: "10.0",
                   },
                 },
               },
@@ -133,7 +159,7 @@ describe("UPS Carrier Integration", () => {
       });
 
       const carrier = new UpsCarrier(mockConfig);
-      const quote = await carrier.getRates(buildTestRateRequest({ packages: [{ weight: 1, weightUnit: "LB" }] }));
+      const [quote] = await carrier.getRates(buildTestRateRequest({ packages: [{ weight: 1, weightUnit: "LB" }] }));
 
       // Verify OAuth request was made correctly
       expect(mockFetch).toHaveBeenNthCalledWith(
@@ -153,7 +179,7 @@ describe("UPS Carrier Integration", () => {
       // Verify rate request was made with proper structure
       const rateCall = mockFetch.mock.calls[1];
       expect(rateCall[0]).toBe(
-        "https://wwwcie.ups.com/api/rating/v2403/rate?additionalinfo="
+        "https://wwwcie.ups.com/api/rating/v2403/shoptimeintransit?additionalinfo="
       );
       expect(rateCall[1].method).toBe("POST");
       expect(rateCall[1].headers.Authorization).toBe("Bearer eyJhbGciOiJSUzI1NiIsInR5cCI6IkpXVCJ9...");
@@ -161,25 +187,45 @@ describe("UPS Carrier Integration", () => {
       const requestBody = JSON.parse(rateCall[1].body);
       expect(requestBody.RateRequest.Shipment.ShipFrom.Address.PostalCode).toBe("21093");
       expect(requestBody.RateRequest.Shipment.ShipTo.Address.PostalCode).toBe("30005");
-      expect(requestBody.RateRequest.Shipment.Package.PackageWeight.Weight).toBe("1");
+      expect(requestBody.RateRequest.Shipment.Package[0].PackageWeight.Weight).toBe("1");
       expect(requestBody.RateRequest.Shipment.Shipper.ShipperNumber).toBe("123456");
 
       // Verify response was parsed correctly into normalized quote
       expect(quote).toEqual({
         serviceCode: "03",
         serviceName: "UPS Ground",
+        serviceLevel: "GROUND",
         totalPrice: 10.88, // Uses negotiated rate
         currency: "USD",
+        estimatedDays: 3,
+        deliveryDate: "2024-01-05T23:30:00",
+        guaranteed: false,
         breakdown: {
-          basePrice: 11.63, // Standard rate
-          fuelSurcharge: 1.09,
-          other: 10.88, // Negotiated total
+          publishedTotal: 11.63, // Standard rate
+          negotiatedTotal: 10.88,
+          charges: [
+            { type: "TRANSPORTATION", description: "Transportation", amount: 10.47 },
+            { type: "FUEL", code: "375", description: "Fuel Surcharge", amount: 1.16 },
+          ],
+        },
+        packageRates: [
+          { totalPrice: 11.63, currency: "USD", basePrice: 11.63, serviceOptionsPrice: 0 },
+        ],
+        weights: {
+          actual: { value: 10, unit: "LB" },
+          billable: { value: 10, unit: "LB" },
         },
+        warnings: [
+          {
+            code: "110971",
+            message: "Your invoice may vary from the displayed reference rates",
+          },
+        ],
       });
     });
 
     it("should reuse cached OAuth token for multiple requests", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       // Mock OAuth token request once
       mockFetch.mockResolvedValueOnce({
@@ -242,11 +288,60 @@ describe("UPS Carrier Integration", () => {
       expect(rateCalls).toHaveLength(2);
       expect(rateCalls[1][1].headers.Authorization).toBe("Bearer cached-token");
     });
+
+    it("should keep separate tokens for carriers on different UPS accounts", async () => {
+      const tokenFor = (token: string) => ({
+        ok: true,
+        text: async () => JSON.stringify({ access_token: token, expires_in: 14400 }),
+      });
+      const rateResponse = {
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            RateResponse: {
+              RatedShipment: {
+                Service: { Code: "03" },
+                TotalCharges: { CurrencyCode: "USD", MonetaryValue: "10.00" },
+              },
+            },
+          }),
+      };
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+        if (!url.includes("/oauth/token")) return rateResponse;
+        const merchant = (init.headers as Record<string, string>)["x-merchant-id"];
+        return tokenFor(`${merchant}-token`);
+      });
+
+      const eastCarrier = new UpsCarrier(mockConfig);
+      const westCarrier = new UpsCarrier({
+        ...mockConfig,
+        auth: { ...mockConfig.auth, clientId: "west-client-id" },
+      });
+
+      await Promise.all([
+        eastCarrier.getRates(buildTestRateRequest()),
+        westCarrier.getRates(buildTestRateRequest()),
+        eastCarrier.getRates(buildTestRateRequest()),
+      ]);
+
+      const oauthCalls = mockFetch.mock.calls.filter((call) => call[0].includes("/oauth/token"));
+      const authorizations = mockFetch.mock.calls
+        .filter((call) => call[0].includes("/rating/"))
+        .map((call) => call[1].headers.Authorization)
+        .sort();
+
+      expect(oauthCalls).toHaveLength(2);
+      expect(authorizations).toEqual([
+        "Bearer test-client-id-token",
+        "Bearer test-client-id-token",
+        "Bearer west-client-id-token",
+      ]);
+    });
   });
 
   describe("Error handling", () => {
     it("should handle 401 Unauthorized with structured error", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -267,13 +362,87 @@ describe("UPS Carrier Integration", () => {
 
       const carrier = new UpsCarrier(mockConfig);
 
+      const error = await carrier.getRates(buildTestRateRequest()).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CarrierAuthenticationError);
+      expect(error).toMatchObject({
+        carrier: "UPS",
+        code: "10400",
+        message: "Invalid/Missing Authorization Header",
+        status: 401,
+        retryable: false,
+      });
+    });
+
+    it("should refresh the token and retry once when UPS rejects a cached token", async () => {
+      const tokenFor = (token: string) => ({
+        ok: true,
+        text: async () => JSON.stringify({ access_token: token, expires_in: 14400 }),
+      });
+      const unauthorized = {
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: async () =>
+          JSON.stringify({
+            response: { errors: [{ code: "250002", message: "Invalid Authentication Information." }] },
+          }),
+      };
+      mockFetch
+        .mockResolvedValueOnce(tokenFor("revoked-token"))
+        .mockResolvedValueOnce(unauthorized)
+        .mockResolvedValueOnce(tokenFor("fresh-token"))
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () =>
+            JSON.stringify({
+              RateResponse: {
+                RatedShipment: {
+                  Service: { Code: "03" },
+                  TotalCharges: { CurrencyCode: "USD", MonetaryValue: "10.00" },
+                },
+              },
+            }),
+        });
+
+      const carrier = new UpsCarrier(mockConfig);
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      const rateCalls = mockFetch.mock.calls.filter((call) => call[0].includes("/rating/"));
+      expect(rateCalls.map((call) => call[1].headers.Authorization)).toEqual([
+        "Bearer revoked-token",
+        "Bearer fresh-token",
+      ]);
+      expect(quotes).toHaveLength(1);
+    });
+
+    it("should give up after one retry when UPS keeps answering 401", async () => {
+      const tokenFor = (token: string) => ({
+        ok: true,
+        text: async () => JSON.stringify({ access_token: token, expires_in: 14400 }),
+      });
+      const unauthorized = {
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: async () => "",
+      };
+      mockFetch
+        .mockResolvedValueOnce(tokenFor("token-1"))
+        .mockResolvedValueOnce(unauthorized)
+        .mockResolvedValueOnce(tokenFor("token-2"))
+        .mockResolvedValueOnce(unauthorized);
+
+      const carrier = new UpsCarrier(mockConfig);
+
       await expect(carrier.getRates(buildTestRateRequest())).rejects.toThrow(
-        /401 Unauthorized/
+        CarrierAuthenticationError
       );
+      expect(mockFetch).toHaveBeenCalledTimes(4);
     });
 
     it("should handle 400 Bad Request with validation errors", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -307,13 +476,19 @@ describe("UPS Carrier Integration", () => {
         await carrier.getRates(buildTestRateRequest());
         expect.fail("Should have thrown an error");
       } catch (error) {
-        expect(error).toBeInstanceOf(FetchError);
-        expect((error as Error).message).toMatch(/400 Bad Request/);
+        expect(error).toBeInstanceOf(CarrierApiError);
+        expect(error).toMatchObject({
+          code: "250003",
+          message: "Invalid Shipper Number",
+          status: 400,
+          payload: { response: { errors: [{ code: "250003" }] } },
+        });
+        expect((error as Error).cause).toBeInstanceOf(FetchError);
       }
     });
 
     it("should handle 500 Internal Server Error", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -333,13 +508,82 @@ describe("UPS Carrier Integration", () => {
 
       const carrier = new UpsCarrier(mockConfig);
 
-      await expect(carrier.getRates(buildTestRateRequest())).rejects.toThrow(
-        /500 Internal Server Error/
-      );
+      const error = await carrier.getRates(buildTestRateRequest()).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CarrierUnavailableError);
+      expect(error).toMatchObject({
+        code: "HTTP_500",
+        message: "UPS request failed: 500 Internal Server Error",
+        retryable: true,
+        payload: "Internal server error occurred",
+      });
+    });
+
+    it("should retry rate requests while UPS is temporarily unavailable", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ access_token: "token", expires_in: 14400 }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        text: async () => "",
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            RateResponse: {
+              RatedShipment: {
+                Service: { Code: "03" },
+                TotalCharges: { CurrencyCode: "USD", MonetaryValue: "10.00" },
+              },
+            },
+          }),
+      });
+
+      const carrier = new UpsCarrier({
+        ...mockConfig,
+        httpClient: new FetchClient({
+          baseUrl: mockConfig.auth.baseUrl,
+          retry: { baseDelayMs: 0 },
+        }),
+      });
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      expect(quotes).toHaveLength(1);
+      expect(mockFetch.mock.calls.filter((call) => call[0].includes("/rating/"))).toHaveLength(2);
+    });
+
+    it("should never retry label creation", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ access_token: "token", expires_in: 14400 }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        text: async () => "",
+      });
+
+      const carrier = new UpsCarrier({
+        ...mockConfig,
+        httpClient: new FetchClient({
+          baseUrl: mockConfig.auth.baseUrl,
+          retry: { baseDelayMs: 0 },
+        }),
+      });
+
+      await expect(carrier.createLabel(buildTestShipmentRequest())).rejects.toMatchObject({
+        status: 503,
+        cause: { attempts: 1 },
+      });
     });
 
     it("should handle malformed JSON response", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -369,7 +613,7 @@ describe("UPS Carrier Integration", () => {
     });
 
     it("should handle network timeout/failure", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockRejectedValueOnce(new Error("Network request failed"));
 
@@ -381,7 +625,7 @@ describe("UPS Carrier Integration", () => {
     });
 
     it("should handle missing RatedShipment in response", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -409,21 +653,17 @@ describe("UPS Carrier Integration", () => {
       });
 
       const carrier = new UpsCarrier(mockConfig);
-      const quote = await carrier.getRates(buildTestRateRequest());
 
-      // Should return default quote when no rated shipment
-      expect(quote).toEqual({
-        serviceCode: "ups",
-        serviceName: "UPS",
-        totalPrice: 0,
-        currency: "USD",
-      });
+      // Never a fabricated $0 quote
+      await expect(carrier.getRates(buildTestRateRequest())).rejects.toThrow(
+        CarrierResponseError
+      );
     });
   });
 
   describe("Request payload validation", () => {
     it("should build correct request with all required UPS fields", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -451,7 +691,7 @@ describe("UPS Carrier Integration", () => {
       });
 
       const carrier = new UpsCarrier(mockConfig);
-      await carrier.getRates(buildTestRateRequest());
+      await carrier.getRates(buildTestRateRequest({ serviceLevel: "GROUND" }));
 
       const rateCall = mockFetch.mock.calls[1];
       const requestBody = JSON.parse(rateCall[1].body);
@@ -468,13 +708,13 @@ describe("UPS Carrier Integration", () => {
       expect(requestBody.RateRequest.Shipment.PaymentDetails).toBeDefined();
       expect(requestBody.RateRequest.Shipment.Service).toBeDefined();
       expect(requestBody.RateRequest.Shipment.Package).toBeDefined();
-      expect(requestBody.RateRequest.Shipment.Package.PackagingType).toBeDefined();
-      expect(requestBody.RateRequest.Shipment.Package.Dimensions).toBeDefined();
-      expect(requestBody.RateRequest.Shipment.Package.PackageWeight).toBeDefined();
+      expect(requestBody.RateRequest.Shipment.Package[0].PackagingType).toBeDefined();
+      expect(requestBody.RateRequest.Shipment.Package[0].Dimensions).toBeDefined();
+      expect(requestBody.RateRequest.Shipment.Package[0].PackageWeight).toBeDefined();
     });
 
     it("should include proper headers for UPS API", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -516,7 +756,7 @@ describe("UPS Carrier Integration", () => {
 
   describe("Response normalization", () => {
     it("should normalize multiple rated shipments (Shop response)", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -570,17 +810,18 @@ describe("UPS Carrier Integration", () => {
       });
 
       const carrier = new UpsCarrier(mockConfig);
-      const quote = await carrier.getRates(buildTestRateRequest());
-
-      // Should return first (cheapest/ground) service
-      expect(quote.serviceCode).toBe("03");
-      expect(quote.serviceName).toBe("UPS Ground");
-      expect(quote.totalPrice).toBe(11.63);
-      expect(quote.currency).toBe("USD");
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      // Should return every shopped service
+      expect(quotes).toEqual([
+        { serviceCode: "03", serviceLevel: "GROUND", serviceName: "UPS Ground", totalPrice: 11.63, currency: "USD", breakdown: expect.any(Object) },
+        { serviceCode: "02", serviceLevel: "TWO_DAY", serviceName: "UPS 2nd Day Air", totalPrice: 35.5, currency: "USD", breakdown: expect.any(Object) },
+        { serviceCode: "01", serviceLevel: "OVERNIGHT", serviceName: "UPS Next Day Air", totalPrice: 78.25, currency: "USD", breakdown: expect.any(Object) },
+      ]);
     });
 
     it("should handle international shipment with different currency", async () => {
-      clearUpsTokenCache();
+      await clearUpsTokenCache();
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -611,7 +852,7 @@ describe("UPS Carrier Integration", () => {
       });
 
       const carrier = new UpsCarrier(mockConfig);
-      const quote = await carrier.getRates(buildTestRateRequest());
+      const [quote] = await carrier.getRates(buildTestRateRequest());
 
       expect(quote.serviceCode).toBe("11");
       expect(quote.serviceName).toBe("UPS Standard");
@@ -619,4 +860,153 @@ describe("UPS Carrier Integration", () => {
       expect(quote.totalPrice).toBe(45.8);
     });
   });
+
+  describe("Tracking flow", () => {
+    it("should authenticate and normalize a UPS Track API response", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            access_token: "track-token",
+            expires_in: 14400,
+          }),
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            trackResponse: {
+              shipment: [
+                {
+                  inquiryNumber: "1Z023E2X0214323462",
+                  package: [
+                    {
+                      trackingNumber: "1Z023E2X0214323462",
+                      deliveryDate: [{ type: "DEL", date: "20240105" }],
+                      activity: [
+                        {
+                          location: {
+                            address: { city: "Atlanta", stateProvince: "GA", countryCode: "US", country: "US" },
+                          },
+                          status: { type: "D", description: "DELIVERED ", code: "FS", statusCode: "011" },
+                          date: "20240105",
+                          time: "143000",
+                        },
+                        {
+                          location: {
+                            address: { city: "Atlanta", stateProvince: "GA", countryCode: "US", country: "US" },
+                          },
+                          status: { type: "I", description: "Out For Delivery Today", code: "OT", statusCode: "021" },
+                          date: "20240105",
+                          time: "071500",
+                        },
+                        {
+                          location: { address: { countryCode: "US", country: "US" } },
+                          status: { type: "M", description: "Shipper created a label", code: "MP", statusCode: "003" },
+                          date: "20240102",
+                          time: "101500",
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          }),
+      });
+
+      const carrier = new UpsCarrier(mockConfig);
+      const info = await carrier.track("1Z023E2X0214323462");
+
+      const trackCall = mockFetch.mock.calls[1];
+      expect(trackCall[0]).toBe(
+        "https://wwwcie.ups.com/api/track/v1/details/1Z023E2X0214323462?locale=en_US&returnSignature=false"
+      );
+      expect(trackCall[1].method).toBe("GET");
+      expect(trackCall[1].headers.Authorization).toBe("Bearer track-token");
+
+      expect(info).toEqual({
+        trackingNumber: "1Z023E2X0214323462",
+        status: "DELIVERED",
+        estimatedDelivery: undefined,
+        events: [
+          { timestamp: "2024-01-05T14:30:00", location: "Atlanta, GA, US", status: "DELIVERED", description: "DELIVERED" },
+          { timestamp: "2024-01-05T07:15:00", location: "Atlanta, GA, US", status: "OUT_FOR_DELIVERY", description: "Out For Delivery Today" },
+          { timestamp: "2024-01-02T10:15:00", location: "US", status: "PRE_TRANSIT", description: "Shipper created a label" },
+        ],
+      });
+    });
+  });
+
+  describe("Address validation flow", () => {
+    it("should validate an address through the UPS XAV API", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            access_token: "xav-token",
+            expires_in: 14400,
+          }),
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            XAVResponse: {
+              Response: {
+                ResponseStatus: { Code: "1", Description: "Success" },
+              },
+              AmbiguousAddressIndicator: "",
+              AddressClassification: { Code: "2", Description: "Residential" },
+              Candidate: [
+                {
+                  AddressClassification: { Code: "2", Description: "Residential" },
+                  AddressKeyFormat: {
+                    AddressLine: ["456 OAK AVE"],
+                    PoliticalDivision2: "ALPHARETTA",
+                    PoliticalDivision1: "GA",
+                    PostcodePrimaryLow: "30005",
+                    PostcodeExtendedLow: "4201",
+                    Region: "ALPHARETTA GA 30005-4201",
+                    CountryCode: "US",
+                  },
+                },
+                {
+                  AddressClassification: { Code: "1", Description: "Commercial" },
+                  AddressKeyFormat: {
+                    AddressLine: ["456 OAK AVE STE 100"],
+                    PoliticalDivision2: "ALPHARETTA",
+                    PoliticalDivision1: "GA",
+                    PostcodePrimaryLow: "30005",
+                    CountryCode: "US",
+                  },
+                },
+              ],
+            },
+          }),
+      });
+
+      const carrier = new UpsCarrier(mockConfig);
+      const result = await carrier.validateAddress(buildTestRateRequest().destination);
+
+      const xavCall = mockFetch.mock.calls[1];
+      expect(xavCall[0]).toBe(
+        "https://wwwcie.ups.com/api/addressvalidation/v2/3?maximumcandidatelistsize=5"
+      );
+      expect(xavCall[1].headers.Authorization).toBe("Bearer xav-token");
+      expect(JSON.parse(xavCall[1].body).XAVRequest.AddressKeyFormat.PoliticalDivision2).toBe(
+        "Atlanta"
+      );
+
+      expect(result.status).toBe("AMBIGUOUS");
+      expect(result.classification).toBe("RESIDENTIAL");
+      expect(result.candidates.map((c) => c.classification)).toEqual([
+        "RESIDENTIAL",
+        "COMMERCIAL",
+      ]);
+      expect(result.suggestedAddress?.postalCode).toBe("30005-4201");
+    });
+  });
 });
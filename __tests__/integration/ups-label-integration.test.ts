@@ -0,0 +1,180 @@
+/**
+ * Integration tests for UPS label creation with realistic API payloads
+ * Tests end-to-end flow: shipment building → HTTP → label parsing
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { UpsCarrier } from "../../infra/carriers/ups/ups-carrier.js";
+import { clearUpsTokenCache, type UpsAuthConfig } from "../../infra/auth/ups-auth.js";
+import { InvalidAddressError } from "../../src/errors/carrier-errors.js";
+import { buildTestShipmentRequest } from "../helpers/test-fixtures.js";
+
+describe("UPS Label Integration", () => {
+  const mockFetch = vi.fn();
+  const mockConfig = {
+    auth: {
+      clientId: "test-client-id",
+      clientSecret: "test-secret",
+      baseUrl: "https://wwwcie.ups.com",
+    } as UpsAuthConfig,
+    shipperNumber: "123456",
+  };
+
+  const tokenResponse = {
+    ok: true,
+    text: async () =>
+      JSON.stringify({
+        access_token: "label-token",
+        expires_in: 14400,
+      }),
+  };
+
+  beforeEach(async () => {
+    global.fetch = mockFetch;
+    await clearUpsTokenCache();
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await clearUpsTokenCache();
+    vi.clearAllMocks();
+  });
+
+  describe("createLabel", () => {
+    it("should create a multi-package shipment with one label per package", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            ShipmentResponse: {
+              Response: {
+                ResponseStatus: { Code: "1", Description: "Success" },
+              },
+              ShipmentResults: {
+                ShipmentCharges: {
+                  TransportationCharges: { CurrencyCode: "USD", MonetaryValue: "38.20" },
+                  ServiceOptionsCharges: { CurrencyCode: "USD", MonetaryValue: "0.00" },
+                  TotalCharges: { CurrencyCode: "USD", MonetaryValue: "38.20" },
+                },
+                BillingWeight: {
+                  UnitOfMeasurement: { Code: "LBS", Description: "Pounds" },
+                  Weight: "15.0",
+                },
+                ShipmentIdentificationNumber: "1Z2220060290602143",
+                PackageResults: [
+                  {
+                    TrackingNumber: "1Z2220060290602143",
+                    ShippingLabel: {
+                      ImageFormat: { Code: "PNG", Description: "PNG" },
+                      GraphicImage: "iVBORw0KGgoAAAANSUhEUgAA",
+                    },
+                  },
+                  {
+                    TrackingNumber: "1Z2220060291994175",
+                    ShippingLabel: {
+                      ImageFormat: { Code: "PNG", Description: "PNG" },
+                      GraphicImage: "iVBORw0KGgoAAAANSUhEUgBB",
+                    },
+                  },
+                ],
+              },
+            },
+          }),
+      });
+
+      const carrier = new UpsCarrier(mockConfig);
+      const label = await carrier.createLabel(
+        buildTestShipmentRequest({
+          labelFormat: "PNG",
+          packages: [
+            { weight: 10, weightUnit: "LB" },
+            { weight: 5, weightUnit: "LB" },
+          ],
+        })
+      );
+
+      const shipCall = mockFetch.mock.calls[1];
+      expect(shipCall[0]).toBe("https://wwwcie.ups.com/api/shipments/v2409/ship");
+      expect(shipCall[1].method).toBe("POST");
+      expect(shipCall[1].headers.Authorization).toBe("Bearer label-token");
+
+      const requestBody = JSON.parse(shipCall[1].body);
+      expect(requestBody.ShipmentRequest.Shipment.Package).toHaveLength(2);
+      expect(requestBody.ShipmentRequest.Shipment.Service.Code).toBe("03");
+      expect(requestBody.ShipmentRequest.LabelSpecification.LabelImageFormat.Code).toBe("PNG");
+
+      expect(label).toEqual({
+        trackingNumber: "1Z2220060290602143",
+        labelFormat: "PNG",
+        labels: [
+          { trackingNumber: "1Z2220060290602143", labelData: "iVBORw0KGgoAAAANSUhEUgAA" },
+          { trackingNumber: "1Z2220060291994175", labelData: "iVBORw0KGgoAAAANSUhEUgBB" },
+        ],
+        cost: 38.2,
+        currency: "USD",
+      });
+    });
+
+    it("should surface UPS shipping errors", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+        text: async () =>
+          JSON.stringify({
+            response: {
+              errors: [{ code: "120802", message: "Address Validation Error on ShipTo address" }],
+            },
+          }),
+      });
+
+      const carrier = new UpsCarrier(mockConfig);
+
+      const error = await carrier.createLabel(buildTestShipmentRequest()).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InvalidAddressError);
+      expect(error).toMatchObject({
+        code: "120802",
+        message: "Address Validation Error on ShipTo address",
+      });
+    });
+  });
+
+  describe("voidShipment", () => {
+    it("should void a shipment through the UPS Shipping API", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            VoidShipmentResponse: {
+              Response: {
+                ResponseStatus: { Code: "1", Description: "Success" },
+              },
+              SummaryResult: {
+                Status: { Code: "1", Description: "Voided" },
+              },
+            },
+          }),
+      });
+
+      const carrier = new UpsCarrier(mockConfig);
+      const result = await carrier.voidShipment("1Z2220060290602143");
+
+      const voidCall = mockFetch.mock.calls[1];
+      expect(voidCall[0]).toBe(
+        "https://wwwcie.ups.com/api/shipments/v2409/void/cancel/1Z2220060290602143"
+      );
+      expect(voidCall[1].method).toBe("DELETE");
+      expect(result).toEqual({
+        trackingNumber: "1Z2220060290602143",
+        voided: true,
+        status: "Voided",
+      });
+    });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Integration tests for USPS carrier with realistic API payloads
+ * Tests end-to-end flow: request building → HTTP → response parsing
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { UspsCarrier } from "../../infra/carriers/usps/usps-carrier.js";
+import type { UspsAuthConfig } from "../../infra/auth/usps-auth.js";
+import { FetchError } from "../../infra/http/fetch-client.js";
+import { UnsupportedRequestError } from "../../src/errors/carrier-errors.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("USPS Carrier Integration", () => {
+  const mockFetch = vi.fn();
+  const mockConfig = {
+    auth: {
+      clientId: "usps-client-id",
+      clientSecret: "usps-secret",
+      baseUrl: "https://apis-tem.usps.com",
+    } as UspsAuthConfig,
+  };
+
+  const tokenResponse = (token = "usps-token") => ({
+    ok: true,
+    text: async () =>
+      JSON.stringify({
+        access_token: token,
+        token_type: "Bearer",
+        expires_in: 28799,
+        scope: "prices international-prices",
+      }),
+  });
+
+  const rateResponse = (price: number, mailClass: string) => ({
+    ok: true,
+    text: async () =>
+      JSON.stringify({
+        totalBasePrice: price,
+        rates: [
+          {
+            SKU: "DPXX0XXXXC07010",
+            description: "Base Rate",
+            priceType: "COMMERCIAL",
+            price,
+            weight: 10,
+            fees: [],
+            mailClass,
+            zone: "05",
+          },
+        ],
+      }),
+  });
+
+  const errorResponse = () => ({
+    ok: false,
+    status: 400,
+    statusText: "Bad Request",
+    text: async () =>
+      JSON.stringify({ error: { code: "400", message: "No rates found for the mail class" } }),
+  });
+
+  const bodyOf = (call: unknown[]) => JSON.parse((call[1] as { body: string }).body);
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe("Domestic rates", () => {
+    it("should quote every default mail class with one OAuth token", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch
+        .mockResolvedValueOnce(rateResponse(11.2, "USPS_GROUND_ADVANTAGE"))
+        .mockResolvedValueOnce(rateResponse(16.85, "PRIORITY_MAIL"))
+        .mockResolvedValueOnce(rateResponse(58.3, "PRIORITY_MAIL_EXPRESS"));
+
+      const carrier = new UspsCarrier(mockConfig);
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://apis-tem.usps.com/oauth2/v3/token",
+        expect.objectContaining({ method: "POST" })
+      );
+      expect(bodyOf(mockFetch.mock.calls[0]!)).toEqual({
+        grant_type: "client_credentials",
+        client_id: "usps-client-id",
+        client_secret: "usps-secret",
+      });
+
+      const rateCalls = mockFetch.mock.calls.slice(1);
+      expect(rateCalls).toHaveLength(3);
+      for (const call of rateCalls) {
+        expect(call[0]).toBe("https://apis-tem.usps.com/prices/v3/base-rates/search");
+        expect(call[1].headers.Authorization).toBe("Bearer usps-token");
+      }
+      expect(rateCalls.map((call) => bodyOf(call).mailClass)).toEqual([
+        "USPS_GROUND_ADVANTAGE",
+        "PRIORITY_MAIL",
+        "PRIORITY_MAIL_EXPRESS",
+      ]);
+      expect(bodyOf(rateCalls[0]!)).toMatchObject({
+        originZIPCode: "21093",
+        destinationZIPCode: "30005",
+        weight: 10,
+        priceType: "COMMERCIAL",
+      });
+
+      expect(quotes.map((q) => [q.serviceCode, q.serviceName, q.totalPrice])).toEqual([
+        ["USPS_GROUND_ADVANTAGE", "USPS Ground Advantage", 11.2],
+        ["PRIORITY_MAIL", "Priority Mail", 16.85],
+        ["PRIORITY_MAIL_EXPRESS", "Priority Mail Express", 58.3],
+      ]);
+    });
+
+    it("should quote only the requested mail class", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce(rateResponse(16.85, "PRIORITY_MAIL"));
+
+      const carrier = new UspsCarrier({ ...mockConfig, priceType: "RETAIL" });
+      const quotes = await carrier.getRates(buildTestRateRequest({ serviceLevel: "TWO_DAY" }));
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(bodyOf(mockFetch.mock.calls[1]!)).toMatchObject({
+        mailClass: "PRIORITY_MAIL",
+        priceType: "RETAIL",
+      });
+      expect(quotes).toHaveLength(1);
+    });
+
+    it("should rate US territories as domestic", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce(rateResponse(16.85, "PRIORITY_MAIL"));
+      const { origin, destination } = buildTestRateRequest();
+
+      const carrier = new UspsCarrier(mockConfig);
+      const quotes = await carrier.getRates(
+        buildTestRateRequest({
+          serviceLevel: "TWO_DAY",
+          origin: { ...origin, city: "San Juan", state: "PR", postalCode: "00901", country: "PR" },
+          destination: {
+            ...destination,
+            city: "Hagatna",
+            state: "GU",
+            postalCode: "96910",
+            country: "GU",
+          },
+        })
+      );
+
+      const rateCall = mockFetch.mock.calls[1]!;
+      expect(rateCall[0]).toBe("https://apis-tem.usps.com/prices/v3/base-rates/search");
+      expect(bodyOf(rateCall)).toMatchObject({
+        originZIPCode: "00901",
+        destinationZIPCode: "96910",
+        mailClass: "PRIORITY_MAIL",
+      });
+      expect(bodyOf(rateCall)).not.toHaveProperty("destinationCountryCode");
+      expect(quotes).toHaveLength(1);
+    });
+
+    it("should rate each package and sum the totals", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch
+        .mockResolvedValueOnce(rateResponse(16.85, "PRIORITY_MAIL"))
+        .mockResolvedValueOnce(rateResponse(9.4, "PRIORITY_MAIL"));
+
+      const request = buildTestRateRequest({ serviceLevel: "TWO_DAY" });
+      request.packages.push({ weight: 2, weightUnit: "LB" });
+
+      const carrier = new UspsCarrier(mockConfig);
+      const [quote] = await carrier.getRates(request);
+
+      expect(bodyOf(mockFetch.mock.calls[2]!).weight).toBe(2);
+      expect(quote!.totalPrice).toBeCloseTo(26.25);
+      expect(quote!.packageRates).toHaveLength(2);
+    });
+
+    it("should search identical packages once", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce(rateResponse(16.85, "PRIORITY_MAIL"));
+
+      const request = buildTestRateRequest({ serviceLevel: "TWO_DAY" });
+      request.packages.push(request.packages[0]!, request.packages[0]!);
+
+      const carrier = new UspsCarrier(mockConfig);
+      const [quote] = await carrier.getRates(request);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(quote!.totalPrice).toBeCloseTo(50.55);
+      expect(quote!.packageRates).toHaveLength(3);
+    });
+
+    it("should cap the price searches in flight", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockFetch.mockImplementation(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return rateResponse(5, "USPS_GROUND_ADVANTAGE");
+      });
+
+      const request = buildTestRateRequest({
+        packages: [1, 2, 3, 4, 5].map((weight) => ({ weight, weightUnit: "LB" as const })),
+      });
+      const carrier = new UspsCarrier({ ...mockConfig, maxConcurrentSearches: 2 });
+      const quotes = await carrier.getRates(request);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1 + 15);
+      expect(maxInFlight).toBe(2);
+      expect(quotes).toHaveLength(3);
+    });
+
+    it("should only shop mail classes that sell flat-rate packaging", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce(rateResponse(18.4, "PRIORITY_MAIL"));
+
+      const carrier = new UspsCarrier(mockConfig);
+      const quotes = await carrier.getRates(
+        buildTestRateRequest({
+          packages: [{ weight: 3, weightUnit: "LB", packagingType: "MEDIUM_FLAT_RATE_BOX" }],
+        })
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(bodyOf(mockFetch.mock.calls[1]!)).toMatchObject({
+        mailClass: "PRIORITY_MAIL",
+        rateIndicator: "FB",
+      });
+      expect(quotes).toHaveLength(1);
+    });
+
+    it("should drop mail classes USPS declines while shopping", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch
+        .mockResolvedValueOnce(errorResponse())
+        .mockResolvedValueOnce(rateResponse(16.85, "PRIORITY_MAIL"))
+        .mockResolvedValueOnce(rateResponse(58.3, "PRIORITY_MAIL_EXPRESS"));
+
+      const carrier = new UspsCarrier(mockConfig);
+      const quotes = await carrier.getRates(buildTestRateRequest());
+
+      expect(quotes.map((q) => q.serviceCode)).toEqual(["PRIORITY_MAIL", "PRIORITY_MAIL_EXPRESS"]);
+    });
+
+    it("should throw when every mail class fails", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch.mockResolvedValueOnce(errorResponse());
+
+      const carrier = new UspsCarrier(mockConfig);
+
+      await expect(
+        carrier.getRates(buildTestRateRequest({ serviceLevel: "TWO_DAY" }))
+      ).rejects.toThrow(FetchError);
+    });
+  });
+
+  describe("International rates", () => {
+    it("should use the international endpoint and mail classes", async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse());
+      mockFetch
+        .mockResolvedValueOnce(rateResponse(45.1, "FIRST-CLASS_PACKAGE_INTERNATIONAL_SERVICE"))
+        .mockResolvedValueOnce(rateResponse(82.5, "PRIORITY_MAIL_INTERNATIONAL"))
+        .mockResolvedValueOnce(rateResponse(110.75, "PRIORITY_MAIL_EXPRESS_INTERNATIONAL"));
+
+      const carrier = new UspsCarrier(mockConfig);
+      const quotes = await carrier.getRates(
+        buildTestRateRequest({
+          destination: {
+            addressLine1: "100 Queen St W",
+            city: "Toronto",
+            state: "ON",
+            postalCode: "M5H 2N2",
+            country: "CA",
+          },
+        })
+      );
+
+      const rateCalls = mockFetch.mock.calls.slice(1);
+      for (const call of rateCalls) {
+        expect(call[0]).toBe(
+          "https://apis-tem.usps.com/international-prices/v3/base-rates/search"
+        );
+      }
+      expect(bodyOf(rateCalls[0]!)).toMatchObject({
+        originZIPCode: "21093",
+        destinationCountryCode: "CA",
+        foreignPostalCode: "M5H 2N2",
+      });
+      expect(quotes.map((q) => q.serviceName)).toEqual([
+        "First-Class Package International Service",
+        "Priority Mail International",
+        "Priority Mail Express International",
+      ]);
+    });
+  });
+
+  describe("Validation", () => {
+    it("should reject shipments that do not originate in the US", async () => {
+      const carrier = new UspsCarrier(mockConfig);
+      const request = buildTestRateRequest();
+
+      const error = await carrier
+        .getRates({ ...request, origin: { ...request.origin, country: "CA" } })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(UnsupportedRequestError);
+      expect(error.message).toBe("USPS rates require a US origin");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should reject mail classes that cannot carry the packaging", async () => {
+      const carrier = new UspsCarrier(mockConfig);
+
+      await expect(
+        carrier.getRates(
+          buildTestRateRequest({
+            serviceLevel: "GROUND",
+            packages: [{ weight: 1, weightUnit: "LB", packagingType: "FLAT_RATE_ENVELOPE" }],
+          })
+        )
+      ).rejects.toThrow("No USPS mail class supports the requested packaging");
+    });
+  });
+});
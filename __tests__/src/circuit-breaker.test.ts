@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { CircuitBreaker } from "../../src/services/circuit-breaker.js";
+import { CircuitOpenError } from "../../src/errors/carrier-errors.js";
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+  const fail = () => Promise.reject(new Error("Service unavailable"));
+  const succeed = () => Promise.resolve("ok");
+
+  async function tripOpen(): Promise<void> {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow("Service unavailable");
+    }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    breaker = new CircuitBreaker("UPS", { failureThreshold: 3, coolDownMs: 10_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should stay closed below the failure threshold", async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.snapshot()).toEqual({ state: "CLOSED", consecutiveFailures: 2 });
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+    expect(breaker.snapshot().consecutiveFailures).toBe(0);
+  });
+
+  it("should open after consecutive failures and reject without calling", async () => {
+    await tripOpen();
+    const call = vi.fn(succeed);
+
+    const error = await breaker.execute(call).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAt).toEqual(new Date("2026-01-01T00:00:10Z"));
+    expect(call).not.toHaveBeenCalled();
+    expect(breaker.snapshot()).toEqual({
+      state: "OPEN",
+      consecutiveFailures: 3,
+      openedAt: "2026-01-01T00:00:00.000Z",
+      retryAt: "2026-01-01T00:00:10.000Z",
+    });
+  });
+
+  it("should close after a successful trial once the cool-down passes", async () => {
+    await tripOpen();
+    vi.advanceTimersByTime(10_000);
+    expect(breaker.state).toBe("HALF_OPEN");
+
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+
+    expect(breaker.snapshot()).toEqual({ state: "CLOSED", consecutiveFailures: 0 });
+  });
+
+  it("should reopen when the trial call fails", async () => {
+    await tripOpen();
+    vi.advanceTimersByTime(10_000);
+
+    await expect(breaker.execute(fail)).rejects.toThrow("Service unavailable");
+
+    expect(breaker.state).toBe("OPEN");
+    expect(breaker.snapshot().retryAt).toBe("2026-01-01T00:00:20.000Z");
+  });
+
+  it("should let only one trial call through while half-open", async () => {
+    await tripOpen();
+    vi.advanceTimersByTime(10_000);
+    let release!: (value: string) => void;
+    const trial = breaker.execute(() => new Promise<string>((r) => (release = r)));
+
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release("ok");
+    await expect(trial).resolves.toBe("ok");
+    expect(breaker.state).toBe("CLOSED");
+  });
+
+  it("should not count errors excluded by isFailure", async () => {
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(fail, () => false)).rejects.toThrow();
+    }
+
+    expect(breaker.snapshot()).toEqual({ state: "CLOSED", consecutiveFailures: 0 });
+  });
+});
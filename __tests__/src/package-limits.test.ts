@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkPackageLimits,
+  estimateQuoteWeights,
+  measurePackage,
+  shipmentWeightUnit,
+  withEstimatedWeights,
+} from "../../src/services/package-limits.js";
+import type { PackageLimits } from "../../src/carriers/carrier.interface.js";
+
+const inches = (length: number, width: number, height: number) => ({
+  length,
+  width,
+  height,
+  unit: "IN" as const,
+});
+
+const upsLimits: PackageLimits = {
+  maxWeightLbs: 150,
+  maxLengthIn: 108,
+  maxLengthPlusGirthIn: 165,
+  dimDivisor: 139,
+};
+
+describe("measurePackage", () => {
+  it("should bill on dimensional weight when it exceeds actual weight", () => {
+    const measured = measurePackage(
+      { weight: 5, weightUnit: "LB", dimensions: inches(20, 20, 20) },
+      139
+    );
+
+    expect(measured.dimensionalWeightLbs).toBeCloseTo(57.55);
+    expect(measured.billableWeightLbs).toBeCloseTo(57.55);
+  });
+
+  it("should measure length plus girth from the longest side in inches", () => {
+    const measured = measurePackage(
+      {
+        weight: 1,
+        weightUnit: "KG",
+        dimensions: { length: 25.4, width: 50.8, height: 2.54, unit: "CM" },
+      },
+      139
+    );
+
+    expect(measured.lengthIn).toBeCloseTo(20);
+    expect(measured.lengthPlusGirthIn).toBeCloseTo(20 + 2 * (10 + 1));
+  });
+
+  it("should bill on actual weight when the package has no dimensions", () => {
+    const measured = measurePackage({ weight: 12, weightUnit: "LB" }, 139);
+
+    expect(measured.dimensionalWeightLbs).toBeUndefined();
+    expect(measured.billableWeightLbs).toBe(12);
+  });
+});
+
+describe("checkPackageLimits", () => {
+  it("should accept packages within every limit", () => {
+    expect(
+      checkPackageLimits(
+        [{ weight: 150, weightUnit: "LB", dimensions: inches(108, 10, 10) }],
+        upsLimits
+      )
+    ).toEqual([]);
+  });
+
+  it("should report each broken limit per package", () => {
+    const violations = checkPackageLimits(
+      [
+        { weight: 10, weightUnit: "LB" },
+        { weight: 160, weightUnit: "LB", dimensions: inches(110, 20, 20) },
+      ],
+      upsLimits
+    );
+
+    expect(violations).toEqual([
+      "packages.1: weight (lb) 160 exceeds the limit of 150",
+      "packages.1: length (in) 110 exceeds the limit of 108",
+      "packages.1: length plus girth (in) 190 exceeds the limit of 165",
+    ]);
+  });
+});
+
+describe("estimateQuoteWeights", () => {
+  it("should total actual, dimensional and billable weight per package", () => {
+    const weights = estimateQuoteWeights(
+      [
+        { weight: 5, weightUnit: "LB", dimensions: inches(20, 20, 20) },
+        { weight: 10, weightUnit: "LB", dimensions: inches(10, 10, 10) },
+      ],
+      139,
+      "LB"
+    );
+
+    expect(weights).toEqual({
+      actual: { value: 15, unit: "LB" },
+      dimensional: { value: 64.75, unit: "LB" },
+      billable: { value: 67.55, unit: "LB" },
+    });
+  });
+
+  it("should leave out dimensional weight when a package has no dimensions", () => {
+    const weights = estimateQuoteWeights([{ weight: 2, weightUnit: "KG" }], 139, "KG");
+
+    expect(weights).toEqual({
+      actual: { value: 2, unit: "KG" },
+      billable: { value: 2, unit: "KG" },
+    });
+  });
+
+  it("should keep the weights a carrier reported and estimate the rest", () => {
+    const box = { weight: 5, weightUnit: "LB" as const, dimensions: inches(20, 20, 20) };
+    const quote = withEstimatedWeights(
+      {
+        serviceCode: "03",
+        serviceName: "UPS Ground",
+        totalPrice: 10,
+        currency: "USD",
+        weights: { billable: { value: 68, unit: "LB" } },
+      },
+      [box],
+      139
+    );
+
+    expect(quote.weights).toEqual({
+      actual: { value: 5, unit: "LB" },
+      dimensional: { value: 57.55, unit: "LB" },
+      billable: { value: 68, unit: "LB" },
+    });
+  });
+
+  it("should estimate in the unit the carrier reported", () => {
+    const box = { weight: 5, weightUnit: "LB" as const, dimensions: inches(20, 20, 20) };
+    const quote = withEstimatedWeights(
+      {
+        serviceCode: "P",
+        serviceName: "Express Worldwide",
+        totalPrice: 10,
+        currency: "USD",
+        weights: { billable: { value: 26.5, unit: "KG" } },
+      },
+      [box],
+      139
+    );
+
+    expect(quote.weights).toEqual({
+      actual: { value: 2.27, unit: "KG" },
+      dimensional: { value: 26.11, unit: "KG" },
+      billable: { value: 26.5, unit: "KG" },
+    });
+  });
+
+  it("should estimate mixed-unit shipments in pounds", () => {
+    const packages = [
+      { weight: 10, weightUnit: "LB" as const, dimensions: inches(10, 10, 10) },
+      {
+        weight: 2,
+        weightUnit: "KG" as const,
+        dimensions: { length: 50, width: 40, height: 30, unit: "CM" as const },
+      },
+    ];
+
+    expect(shipmentWeightUnit(packages)).toBe("LB");
+    expect(shipmentWeightUnit([packages[1]!])).toBe("KG");
+    expect(estimateQuoteWeights(packages, 139, shipmentWeightUnit(packages))).toEqual({
+      actual: { value: 14.41, unit: "LB" },
+      dimensional: { value: 33.54, unit: "LB" },
+      billable: { value: 36.34, unit: "LB" },
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  LruRateCacheStore,
+  RateCache,
+  rateCacheKey,
+  type RateCacheStore,
+} from "../../src/services/rate-cache.js";
+import type { RateQuote } from "../../src/models/rate-quote.js";
+import { buildTestRateRequest } from "../helpers/test-fixtures.js";
+
+describe("rateCacheKey", () => {
+  it("should ignore postal code formatting, case and whitespace", () => {
+    const request = buildTestRateRequest();
+    const reformatted = buildTestRateRequest({
+      origin: { ...request.origin, addressLine1: "  123  main st ", postalCode: "21093" },
+      destination: { ...request.destination, city: "ATLANTA", postalCode: " 30005 " },
+    });
+
+    expect(rateCacheKey("ups", reformatted).key).toBe(rateCacheKey("ups", request).key);
+  });
+
+  it("should treat ZIP+4 with and without a hyphen alike", () => {
+    const request = buildTestRateRequest();
+    const withHyphen = { ...request, origin: { ...request.origin, postalCode: "21093-1234" } };
+    const withoutHyphen = { ...request, origin: { ...request.origin, postalCode: "210931234" } };
+
+    expect(rateCacheKey("ups", withHyphen).key).toBe(rateCacheKey("ups", withoutHyphen).key);
+  });
+
+  it("should normalize weight and dimension units", () => {
+    const imperial = buildTestRateRequest({
+      packages: [
+        {
+          weight: 10,
+          weightUnit: "LB",
+          dimensions: { length: 10, width: 5, height: 2, unit: "IN" },
+        },
+      ],
+    });
+    const metric = buildTestRateRequest({
+      packages: [
+        {
+          weight: 4.5359237,
+          weightUnit: "KG",
+          dimensions: { length: 25.4, width: 12.7, height: 5.08, unit: "CM" },
+        },
+      ],
+    });
+
+    expect(rateCacheKey("ups", metric).key).toBe(rateCacheKey("ups", imperial).key);
+  });
+
+  it("should ignore package order and report the mapping", () => {
+    const heavy = { weight: 20, weightUnit: "LB" as const };
+    const light = { weight: 5, weightUnit: "LB" as const };
+
+    const a = rateCacheKey("ups", buildTestRateRequest({ packages: [heavy, light] }));
+    const b = rateCacheKey("ups", buildTestRateRequest({ packages: [light, heavy] }));
+
+    expect(a.key).toBe(b.key);
+    expect(a.packageOrder).toEqual([0, 1]);
+    expect(b.packageOrder).toEqual([1, 0]);
+  });
+
+  it("should differ by carrier, destination and weight", () => {
+    const request = buildTestRateRequest();
+    const key = rateCacheKey("ups", request).key;
+    const destination = { ...request.destination, postalCode: "30006" };
+
+    expect(rateCacheKey("fedex", request).key).not.toBe(key);
+    expect(rateCacheKey("ups", { ...request, destination }).key).not.toBe(key);
+    expect(
+      rateCacheKey("ups", { ...request, packages: [{ weight: 11, weightUnit: "LB" }] }).key
+    ).not.toBe(key);
+  });
+
+  it("should differ by customs commodity lines", () => {
+    const line = { description: "Mug", originCountry: "CN", quantity: 2, value: 40 };
+    const request = buildTestRateRequest({
+      customs: { declaredValue: 40, currency: "USD", commodities: [line] },
+    });
+    const key = rateCacheKey("ups", request).key;
+    const customs = { ...request.customs!, commodities: [{ ...line, hsCode: "691200" }] };
+
+    expect(rateCacheKey("ups", { ...request, customs }).key).not.toBe(key);
+  });
+
+  it("should differ by shipment options but not by defaulted ones", () => {
+    const request = buildTestRateRequest();
+    const key = rateCacheKey("ups", request).key;
+
+    expect(rateCacheKey("ups", { ...request, options: {} }).key).toBe(key);
+    expect(rateCacheKey("ups", { ...request, options: { residential: false } }).key).toBe(key);
+    expect(rateCacheKey("ups", { ...request, options: { residential: true } }).key).not.toBe(key);
+    expect(rateCacheKey("ups", { ...request, options: { signature: "ADULT" } }).key).not.toBe(
+      key
+    );
+  });
+});
+
+describe("LruRateCacheStore", () => {
+  const entry = (expiresAtMs: number) => ({ quotes: [], expiresAtMs });
+
+  it("should evict the least recently used entry when full", async () => {
+    const store = new LruRateCacheStore(2);
+    await store.set("a", entry(Date.now() + 1000));
+    await store.set("b", entry(Date.now() + 1000));
+    await store.get("a");
+    await store.set("c", entry(Date.now() + 1000));
+
+    expect(await store.get("a")).toBeDefined();
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBeDefined();
+    expect(store.size).toBe(2);
+  });
+
+  it("should not return expired entries", async () => {
+    const store = new LruRateCacheStore();
+    await store.set("a", entry(Date.now() - 1));
+
+    expect(await store.get("a")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("RateCache", () => {
+  const quote: RateQuote = {
+    serviceCode: "03",
+    serviceName: "UPS Ground",
+    totalPrice: 25,
+    currency: "USD",
+    packageRates: [
+      { totalPrice: 20, currency: "USD" },
+      { totalPrice: 5, currency: "USD" },
+    ],
+  };
+  const heavy = { weight: 20, weightUnit: "LB" as const };
+  const light = { weight: 5, weightUnit: "LB" as const };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should serve quotes until the TTL passes", async () => {
+    const cache = new RateCache({ ttlMs: 60_000 });
+    const request = buildTestRateRequest({ packages: [heavy, light] });
+    await cache.set("ups", request, [quote]);
+
+    vi.advanceTimersByTime(59_999);
+    expect(await cache.get("ups", request)).toEqual([quote]);
+
+    vi.advanceTimersByTime(1);
+    expect(await cache.get("ups", request)).toBeUndefined();
+  });
+
+  it("should return package rates in the order of the requesting packages", async () => {
+    const cache = new RateCache();
+    await cache.set("ups", buildTestRateRequest({ packages: [heavy, light] }), [quote]);
+
+    const [cached] = (await cache.get("ups", buildTestRateRequest({ packages: [light, heavy] })))!;
+
+    expect(cached!.packageRates!.map((rate) => rate.totalPrice)).toEqual([5, 20]);
+  });
+
+  it("should treat store failures as misses", async () => {
+    const store: RateCacheStore = {
+      get: vi.fn(async () => {
+        throw new Error("Redis unavailable");
+      }),
+      set: vi.fn(async () => {
+        throw new Error("Redis unavailable");
+      }),
+      delete: vi.fn(async () => {}),
+    };
+    const cache = new RateCache({ store });
+    const request = buildTestRateRequest();
+
+    await expect(cache.set("ups", request, [quote])).resolves.toBeUndefined();
+    await expect(cache.get("ups", request)).resolves.toBeUndefined();
+  });
+
+  it("should drop an entry on invalidate", async () => {
+    const cache = new RateCache();
+    const request = buildTestRateRequest();
+    await cache.set("ups", request, [quote]);
+
+    await cache.invalidate("ups", request);
+
+    expect(await cache.get("ups", request)).toBeUndefined();
+  });
+});
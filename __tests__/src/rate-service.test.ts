@@ -1,7 +1,26 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
-import { RateService, ValidationError } from "../../src/services/rate-service.js";
-import type { IRateProvider } from "../../src/carriers/carrier.interface.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  AddressValidationError,
+  RateService,
+  ValidationError,
+} from "../../src/services/rate-service.js";
+import type {
+  AddressValidationResult,
+  IAddressValidator,
+  IRateProvider,
+} from "../../src/carriers/carrier.interface.js";
 import type { RateQuote } from "../../src/models/rate-quote.js";
+import {
+  CarrierUnavailableError,
+  CircuitOpenError,
+  PackageLimitExceededError,
+  RateLimitedError,
+  TimeoutError,
+  UnsupportedRequestError,
+  UnsupportedServiceError,
+  UnsupportedServiceLevelError,
+} from "../../src/errors/carrier-errors.js";
+import { RateCache } from "../../src/services/rate-cache.js";
 import { buildTestRateRequest } from "../helpers/test-fixtures.js";
 
 describe("RateService", () => {
@@ -18,7 +37,7 @@ describe("RateService", () => {
   beforeEach(() => {
     mockUpsProvider = {
       name: "UPS",
-      getRates: vi.fn(async () => mockUpsQuote),
+      getRates: vi.fn(async () => [mockUpsQuote]),
     };
 
     service = new RateService({
@@ -146,6 +165,99 @@ describe("RateService", () => {
       expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
     });
 
+    it("should reject an invalid customs currency", async () => {
+      const invalidRequest = buildTestRateRequest({
+        customs: { declaredValue: 150, currency: "DOLLARS" },
+      });
+
+      await expect(service.getRates(invalidRequest)).rejects.toThrow(ValidationError);
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should reject carrier service codes as service levels", async () => {
+      const invalidRequest = buildTestRateRequest({ serviceLevel: "03" } as any);
+
+      await expect(service.getRates(invalidRequest)).rejects.toThrow(ValidationError);
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid shipment options", async () => {
+      const invalidRequest = buildTestRateRequest({
+        options: { signature: "WITNESS", declaredValue: { amount: -5, currency: "USD" } },
+      } as any);
+
+      await expect(service.getRates(invalidRequest)).rejects.toThrow(ValidationError);
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should accept addresses without a state where the country has none", async () => {
+      const request = buildTestRateRequest({
+        destination: {
+          addressLine1: "10 Downing St",
+          city: "London",
+          postalCode: "SW1A 2AA",
+          country: "GB",
+        },
+      });
+
+      await service.getRates(request);
+
+      expect(mockUpsProvider.getRates).toHaveBeenCalled();
+    });
+
+    it("should accept addresses without a postal code where the country has none", async () => {
+      const request = buildTestRateRequest({
+        destination: { addressLine1: "1 Queen's Rd Central", city: "Hong Kong", country: "HK" },
+      });
+
+      await service.getRates(request);
+
+      expect(mockUpsProvider.getRates).toHaveBeenCalled();
+    });
+
+    it("should require a postal code where the country uses one", async () => {
+      const request = buildTestRateRequest({
+        destination: { addressLine1: "Unter den Linden 1", city: "Berlin", country: "DE" },
+      });
+
+      await expect(service.getRates(request)).rejects.toMatchObject({
+        errors: ["destination.postalCode: Postal code is required"],
+      });
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should require a state and a valid postal code where the country uses them", async () => {
+      const { origin, destination } = buildTestRateRequest();
+      const request = buildTestRateRequest({
+        origin: { ...origin, state: undefined },
+        destination: { ...destination, postalCode: "1234", country: "CA", state: "ON" },
+      });
+
+      await expect(service.getRates(request)).rejects.toMatchObject({
+        errors: [
+          "origin.state: State is required for US addresses (2-letter code)",
+          "destination.postalCode: Invalid postal code for CA",
+        ],
+      });
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should reject commodity lines that do not add up to the declared value", async () => {
+      const request = buildTestRateRequest({
+        customs: {
+          declaredValue: 150,
+          currency: "USD",
+          commodities: [
+            { description: "Mug", hsCode: "691200", originCountry: "CN", quantity: 2, value: 40 },
+          ],
+        },
+      });
+
+      await expect(service.getRates(request)).rejects.toMatchObject({
+        errors: ["customs.commodities: Commodity values (40) must add up to the declared value"],
+      });
+    });
+
     it("should provide detailed validation errors", async () => {
       const invalidRequest = {
         origin: {
@@ -184,18 +296,42 @@ describe("RateService", () => {
 
       expect(result.quotes).toHaveLength(1);
       expect(result.quotes).toEqual([
-        { carrier: "ups", quote: mockUpsQuote },
+        { carrier: "ups", quote: mockUpsQuote, fromCache: false },
       ]);
       expect(result.errors).toBeUndefined();
     });
 
+    it("should flatten multiple services into one entry per carrier and service", async () => {
+      const nextDayQuote: RateQuote = {
+        serviceCode: "01",
+        serviceName: "UPS Next Day Air",
+        totalPrice: 78.25,
+        currency: "USD",
+      };
+      const shopProvider: IRateProvider = {
+        name: "UPS",
+        getRates: vi.fn(async () => [mockUpsQuote, nextDayQuote]),
+      };
+
+      const shopService = new RateService({
+        providers: { ups: shopProvider },
+      });
+
+      const result = await shopService.getRates(buildTestRateRequest());
+
+      expect(result.quotes).toEqual([
+        { carrier: "ups", quote: mockUpsQuote, fromCache: false },
+        { carrier: "ups", quote: nextDayQuote, fromCache: false },
+      ]);
+    });
+
     it("should call provider with correct parameters", async () => {
       const request = buildTestRateRequest({
         packages: [{ weight: 15, weightUnit: "LB" }],
       });
       await service.getRates(request);
 
-      expect(mockUpsProvider.getRates).toHaveBeenCalledWith(request);
+      expect(mockUpsProvider.getRates).toHaveBeenCalledWith(request, { signal: undefined });
     });
 
     it("should handle provider errors without failing entire request", async () => {
@@ -217,7 +353,7 @@ describe("RateService", () => {
       const result = await serviceWithError.getRates(request);
 
       expect(result.quotes).toHaveLength(1);
-      expect(result.quotes[0]).toEqual({ carrier: "ups", quote: mockUpsQuote });
+      expect(result.quotes[0]).toEqual({ carrier: "ups", quote: mockUpsQuote, fromCache: false });
       expect(result.errors).toHaveLength(1);
       expect(result.errors?.[0].carrier).toBe("broken");
       expect(result.errors?.[0].error).toBeInstanceOf(Error);
@@ -271,7 +407,7 @@ describe("RateService", () => {
         name: "Provider1",
         getRates: vi.fn(async () => {
           await new Promise((resolve) => setTimeout(resolve, 100));
-          return mockUpsQuote;
+          return [mockUpsQuote];
         }),
       };
 
@@ -279,7 +415,7 @@ describe("RateService", () => {
         name: "Provider2",
         getRates: vi.fn(async () => {
           await new Promise((resolve) => setTimeout(resolve, 100));
-          return mockUpsQuote;
+          return [mockUpsQuote];
         }),
       };
 
@@ -303,10 +439,10 @@ describe("RateService", () => {
   describe("getRatesFromProvider", () => {
     it("should get rate from specific provider", async () => {
       const request = buildTestRateRequest();
-      const quote = await service.getRatesFromProvider("ups", request);
+      const quotes = await service.getRatesFromProvider("ups", request);
 
-      expect(quote).toEqual(mockUpsQuote);
-      expect(mockUpsProvider.getRates).toHaveBeenCalledWith(request);
+      expect(quotes).toEqual([mockUpsQuote]);
+      expect(mockUpsProvider.getRates).toHaveBeenCalledWith(request, { signal: undefined });
     });
 
     it("should throw error for unknown provider", async () => {
@@ -341,7 +477,7 @@ describe("RateService", () => {
     it("should handle provider returning invalid data gracefully", async () => {
       const invalidProvider: IRateProvider = {
         name: "InvalidProvider",
-        getRates: vi.fn(async () => ({} as RateQuote)),
+        getRates: vi.fn(async () => [{} as RateQuote]),
       };
 
       const serviceWithInvalid = new RateService({
@@ -360,12 +496,14 @@ describe("RateService", () => {
     it("should preserve provider order in results", async () => {
       const provider2: IRateProvider = {
         name: "Provider2",
-        getRates: vi.fn(async () => ({
-          serviceCode: "01",
-          serviceName: "UPS Next Day",
-          totalPrice: 50.0,
-          currency: "USD",
-        })),
+        getRates: vi.fn(async () => [
+          {
+            serviceCode: "01",
+            serviceName: "UPS Next Day",
+            totalPrice: 50.0,
+            currency: "USD",
+          },
+        ]),
       };
 
       const orderedService = new RateService({
@@ -382,4 +520,535 @@ describe("RateService", () => {
       expect(providerNames).toEqual(["ups1", "ups2"]);
     });
   });
+
+  describe("address validation", () => {
+    const validResult: AddressValidationResult = {
+      status: "VALID",
+      isValid: true,
+      classification: "COMMERCIAL",
+      candidates: [],
+    };
+    let mockValidator: IAddressValidator;
+    let validatingService: RateService;
+
+    beforeEach(() => {
+      mockValidator = {
+        name: "UPS",
+        validateAddress: vi.fn(async () => validResult),
+      };
+      validatingService = new RateService({
+        providers: { ups: mockUpsProvider },
+        addressValidator: mockValidator,
+      });
+    });
+
+    it("should not validate addresses unless requested", async () => {
+      await validatingService.getRates(buildTestRateRequest());
+
+      expect(mockValidator.validateAddress).not.toHaveBeenCalled();
+      expect(mockUpsProvider.getRates).toHaveBeenCalled();
+    });
+
+    it("should validate only the requested addresses before quoting", async () => {
+      const request = buildTestRateRequest();
+      const result = await validatingService.getRates(request, {
+        validateAddresses: { destination: true },
+      });
+
+      expect(mockValidator.validateAddress).toHaveBeenCalledTimes(1);
+      expect(mockValidator.validateAddress).toHaveBeenCalledWith(request.destination);
+      expect(result.quotes).toHaveLength(1);
+    });
+
+    it("should fail early on an invalid address", async () => {
+      vi.mocked(mockValidator.validateAddress).mockImplementation(async (address) =>
+        address.city === "Atlanta"
+          ? { status: "INVALID", isValid: false, classification: "UNKNOWN", candidates: [] }
+          : validResult
+      );
+
+      const promise = validatingService.getRates(buildTestRateRequest(), {
+        validateAddresses: { origin: true, destination: true },
+      });
+
+      await expect(promise).rejects.toThrow(AddressValidationError);
+      await expect(promise).rejects.toMatchObject({ field: "destination" });
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should reject ambiguous addresses unless allowed", async () => {
+      vi.mocked(mockValidator.validateAddress).mockResolvedValue({
+        status: "AMBIGUOUS",
+        isValid: false,
+        classification: "UNKNOWN",
+        candidates: [],
+      });
+      const request = buildTestRateRequest();
+
+      await expect(
+        validatingService.getRates(request, { validateAddresses: { origin: true } })
+      ).rejects.toThrow("Invalid origin address: ambiguous");
+
+      const result = await validatingService.getRates(request, {
+        validateAddresses: { origin: true, allowAmbiguous: true },
+      });
+      expect(result.quotes).toHaveLength(1);
+    });
+
+    it("should throw when validation is requested without a validator", async () => {
+      await expect(
+        service.getRates(buildTestRateRequest(), { validateAddresses: { origin: true } })
+      ).rejects.toThrow("no address validator is configured");
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should validate addresses in getRatesFromProvider", async () => {
+      vi.mocked(mockValidator.validateAddress).mockResolvedValue({
+        status: "INVALID",
+        isValid: false,
+        classification: "UNKNOWN",
+        candidates: [],
+      });
+
+      await expect(
+        validatingService.getRatesFromProvider("ups", buildTestRateRequest(), {
+          validateAddresses: { origin: true },
+        })
+      ).rejects.toThrow(AddressValidationError);
+    });
+
+    it("should reject an unknown provider before validating addresses", async () => {
+      await expect(
+        validatingService.getRatesFromProvider("dhl", buildTestRateRequest(), {
+          validateAddresses: { origin: true },
+        })
+      ).rejects.toThrow("Unknown rate provider: dhl");
+      expect(mockValidator.validateAddress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    const slowQuote: RateQuote = {
+      serviceCode: "FEDEX_GROUND",
+      serviceName: "FedEx Ground",
+      totalPrice: 24.1,
+      currency: "USD",
+    };
+    let slowProvider: IRateProvider;
+    let receivedSignal: AbortSignal | undefined;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      receivedSignal = undefined;
+      slowProvider = {
+        name: "FedEx",
+        getRates: vi.fn((_request, options) => {
+          receivedSignal = options?.signal;
+          return new Promise<RateQuote[]>((resolve) => setTimeout(() => resolve([slowQuote]), 5000));
+        }),
+      };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should return quotes that arrived in time and a TimeoutError for the rest", async () => {
+      const service = new RateService({ providers: { ups: mockUpsProvider, fedex: slowProvider } });
+
+      const pending = service.getRates(buildTestRateRequest(), { timeoutMs: 1000 });
+      await vi.advanceTimersByTimeAsync(1000);
+      const result = await pending;
+
+      expect(result.quotes).toEqual([{ carrier: "ups", quote: mockUpsQuote, fromCache: false }]);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors![0]!.carrier).toBe("fedex");
+      expect(result.errors![0]!.error).toBeInstanceOf(TimeoutError);
+      expect((result.errors![0]!.error as TimeoutError).timeoutMs).toBe(1000);
+    });
+
+    it("should abort the signal passed to carriers when the deadline passes", async () => {
+      const service = new RateService({ providers: { fedex: slowProvider } });
+
+      const pending = service.getRates(buildTestRateRequest(), { timeoutMs: 1000 });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(receivedSignal?.aborted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await pending;
+      expect(receivedSignal?.aborted).toBe(true);
+      expect(receivedSignal?.reason).toBeInstanceOf(TimeoutError);
+    });
+
+    it("should report carriers pending when the caller aborts", async () => {
+      const service = new RateService({ providers: { ups: mockUpsProvider, fedex: slowProvider } });
+      const controller = new AbortController();
+
+      const pending = service.getRates(buildTestRateRequest(), { signal: controller.signal });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort(new Error("Checkout closed"));
+      const result = await pending;
+
+      expect(receivedSignal).toBe(controller.signal);
+      expect(result.quotes).toHaveLength(1);
+      expect(result.errors![0]!.error).toEqual(new Error("Checkout closed"));
+    });
+
+    it("should not call carriers when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort(new Error("Cancelled"));
+
+      await expect(
+        service.getRates(buildTestRateRequest(), { signal: controller.signal })
+      ).rejects.toThrow("Cancelled");
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+    });
+
+    it("should throw TimeoutError from getRatesFromProvider past the deadline", async () => {
+      const service = new RateService({ providers: { fedex: slowProvider } });
+
+      const pending = service.getRatesFromProvider("fedex", buildTestRateRequest(), {
+        timeoutMs: 500,
+      });
+      const assertion = expect(pending).rejects.toThrow(TimeoutError);
+      await vi.advanceTimersByTimeAsync(500);
+
+      await assertion;
+    });
+  });
+
+  describe("circuit breaker", () => {
+    let failingProvider: IRateProvider;
+
+    beforeEach(() => {
+      failingProvider = {
+        name: "FedEx",
+        getRates: vi.fn(async () => {
+          throw new Error("FedEx API error");
+        }),
+      };
+    });
+
+    it("should short-circuit a carrier after repeated failures", async () => {
+      const service = new RateService({
+        providers: { ups: mockUpsProvider, fedex: failingProvider },
+        circuitBreaker: { failureThreshold: 2 },
+      });
+
+      await service.getRates(buildTestRateRequest());
+      await service.getRates(buildTestRateRequest());
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(failingProvider.getRates).toHaveBeenCalledTimes(2);
+      expect(result.quotes).toHaveLength(1);
+      expect(result.errors![0]!.carrier).toBe("fedex");
+      expect(result.errors![0]!.error).toBeInstanceOf(CircuitOpenError);
+    });
+
+    it("should expose breaker state per carrier", async () => {
+      const service = new RateService({
+        providers: { ups: mockUpsProvider, fedex: failingProvider },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      await service.getRates(buildTestRateRequest());
+      const states = service.getCircuitStates();
+
+      expect(states.ups).toEqual({ state: "CLOSED", consecutiveFailures: 0 });
+      expect(states.fedex!.state).toBe("OPEN");
+      expect(states.fedex!.consecutiveFailures).toBe(1);
+    });
+
+    it("should reject getRatesFromProvider with CircuitOpenError while open", async () => {
+      const service = new RateService({
+        providers: { fedex: failingProvider },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      await expect(
+        service.getRatesFromProvider("fedex", buildTestRateRequest())
+      ).rejects.toThrow("FedEx API error");
+      await expect(
+        service.getRatesFromProvider("fedex", buildTestRateRequest())
+      ).rejects.toBeInstanceOf(CircuitOpenError);
+    });
+
+    it("should not count caller aborts as carrier failures", async () => {
+      const hangingProvider: IRateProvider = {
+        name: "FedEx",
+        getRates: vi.fn(() => new Promise<RateQuote[]>(() => {})),
+      };
+      const service = new RateService({
+        providers: { fedex: hangingProvider },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      const controller = new AbortController();
+
+      const pending = service.getRates(buildTestRateRequest(), { signal: controller.signal });
+      await vi.waitFor(() => expect(hangingProvider.getRates).toHaveBeenCalled());
+      controller.abort(new Error("Checkout closed"));
+      await pending;
+
+      expect(service.getCircuitStates().fedex!.state).toBe("CLOSED");
+    });
+
+    it("should not count client-side rate limiting as carrier failures", async () => {
+      const limitedProvider: IRateProvider = {
+        name: "FedEx",
+        getRates: vi.fn(async () => {
+          throw new RateLimitedError("FedEx", 100);
+        }),
+      };
+      const service = new RateService({
+        providers: { fedex: limitedProvider },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(result.errors![0]!.error).toBeInstanceOf(RateLimitedError);
+      expect(service.getCircuitStates().fedex!.state).toBe("CLOSED");
+    });
+
+    it("should not count carrier rejections of the shipment as failures", async () => {
+      const rejectingProvider: IRateProvider = {
+        name: "UPS",
+        getRates: vi.fn(async () => {
+          throw new UnsupportedServiceError(
+            "The requested service is unavailable between the selected locations.",
+            "UPS",
+            "111210",
+            false,
+            400
+          );
+        }),
+      };
+      const service = new RateService({
+        providers: { ups: rejectingProvider },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(result.errors![0]!.error).toBeInstanceOf(UnsupportedServiceError);
+      expect(service.getCircuitStates().ups!.state).toBe("CLOSED");
+    });
+
+    it("should not count unsupported service levels as failures", async () => {
+      const groundOnlyProvider: IRateProvider = {
+        name: "DHL Express",
+        getRates: vi.fn(async () => {
+          throw new UnsupportedServiceLevelError("DHL Express", "GROUND");
+        }),
+      };
+      const service = new RateService({
+        providers: { dhl: groundOnlyProvider },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      const result = await service.getRates(buildTestRateRequest({ serviceLevel: "GROUND" }));
+
+      expect(result.errors![0]!.error).toBeInstanceOf(UnsupportedServiceLevelError);
+      expect(service.getCircuitStates().dhl!.state).toBe("CLOSED");
+    });
+
+    it("should not count requests the adapter rejects as failures", async () => {
+      const uspsProvider: IRateProvider = {
+        name: "USPS",
+        getRates: vi.fn(async () => {
+          throw new UnsupportedRequestError("USPS", "USPS rates require a US origin");
+        }),
+      };
+      const service = new RateService({
+        providers: { usps: uspsProvider },
+        circuitBreaker: { failureThreshold: 5 },
+      });
+
+      for (let i = 0; i < 6; i++) {
+        const result = await service.getRates(buildTestRateRequest());
+        expect(result.errors![0]!.error).toBeInstanceOf(UnsupportedRequestError);
+      }
+
+      expect(uspsProvider.getRates).toHaveBeenCalledTimes(6);
+      expect(service.getCircuitStates().usps!.state).toBe("CLOSED");
+    });
+
+    it("should count retryable carrier errors as failures", async () => {
+      const downProvider: IRateProvider = {
+        name: "UPS",
+        getRates: vi.fn(async () => {
+          throw new CarrierUnavailableError("UPS is down", "UPS", "HTTP_503", true, 503);
+        }),
+      };
+      const service = new RateService({
+        providers: { ups: downProvider },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      await service.getRates(buildTestRateRequest());
+
+      expect(service.getCircuitStates().ups!.state).toBe("OPEN");
+    });
+
+    it("should report no circuits when disabled", async () => {
+      const service = new RateService({
+        providers: { fedex: failingProvider },
+        circuitBreaker: false,
+      });
+
+      for (let i = 0; i < 6; i++) await service.getRates(buildTestRateRequest());
+
+      expect(failingProvider.getRates).toHaveBeenCalledTimes(6);
+      expect(service.getCircuitStates()).toEqual({});
+    });
+  });
+
+  describe("rate cache", () => {
+    it("should serve repeated requests from cache and flag them", async () => {
+      const service = new RateService({
+        providers: { ups: mockUpsProvider },
+        cache: new RateCache(),
+      });
+
+      const first = await service.getRates(buildTestRateRequest());
+      const second = await service.getRates(buildTestRateRequest());
+
+      expect(mockUpsProvider.getRates).toHaveBeenCalledTimes(1);
+      expect(first.quotes).toEqual([{ carrier: "ups", quote: mockUpsQuote, fromCache: false }]);
+      expect(second.quotes).toEqual([{ carrier: "ups", quote: mockUpsQuote, fromCache: true }]);
+    });
+
+    it("should only call carriers without a cached quote", async () => {
+      const cache = new RateCache();
+      const fedexProvider: IRateProvider = {
+        name: "FedEx",
+        getRates: vi.fn(async () => [{ ...mockUpsQuote, serviceCode: "FEDEX_GROUND" }]),
+      };
+      await cache.set("ups", buildTestRateRequest(), [mockUpsQuote]);
+      const service = new RateService({
+        providers: { ups: mockUpsProvider, fedex: fedexProvider },
+        cache,
+      });
+
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(mockUpsProvider.getRates).not.toHaveBeenCalled();
+      expect(fedexProvider.getRates).toHaveBeenCalledTimes(1);
+      expect(result.quotes.map((q) => [q.carrier, q.fromCache])).toEqual([
+        ["ups", true],
+        ["fedex", false],
+      ]);
+    });
+
+    it("should not cache carrier failures", async () => {
+      const failingProvider: IRateProvider = {
+        name: "FedEx",
+        getRates: vi
+          .fn()
+          .mockRejectedValueOnce(new Error("FedEx API error"))
+          .mockResolvedValue([mockUpsQuote]),
+      };
+      const service = new RateService({
+        providers: { fedex: failingProvider },
+        cache: new RateCache(),
+      });
+
+      await service.getRates(buildTestRateRequest());
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(failingProvider.getRates).toHaveBeenCalledTimes(2);
+      expect(result.quotes[0]!.fromCache).toBe(false);
+    });
+  });
+
+  describe("package limits", () => {
+    const heavyRequest = () =>
+      buildTestRateRequest({ packages: [{ weight: 100, weightUnit: "LB" }] });
+
+    let uspsProvider: IRateProvider;
+
+    beforeEach(() => {
+      mockUpsProvider = {
+        ...mockUpsProvider,
+        packageLimits: { maxWeightLbs: 150, dimDivisor: 139 },
+      };
+      uspsProvider = {
+        name: "USPS",
+        packageLimits: { maxWeightLbs: 70, maxLengthPlusGirthIn: 130, dimDivisor: 166 },
+        getRates: vi.fn(async () => [mockUpsQuote]),
+      };
+    });
+
+    it("should skip carriers whose limits the packages break without calling them", async () => {
+      const service = new RateService({ providers: { ups: mockUpsProvider, usps: uspsProvider } });
+
+      const result = await service.getRates(heavyRequest());
+
+      expect(uspsProvider.getRates).not.toHaveBeenCalled();
+      expect(result.quotes.map((q) => q.carrier)).toEqual(["ups"]);
+      expect(result.skipped).toEqual([
+        { carrier: "usps", reasons: ["packages.0: weight (lb) 100 exceeds the limit of 70"] },
+      ]);
+      expect(result.errors).toBeUndefined();
+    });
+
+    it("should omit skipped when every carrier can take the packages", async () => {
+      const service = new RateService({ providers: { ups: mockUpsProvider, usps: uspsProvider } });
+
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(result.skipped).toBeUndefined();
+      expect(result.quotes).toHaveLength(2);
+    });
+
+    it("should estimate the weights the carrier does not report with its divisor", async () => {
+      const reported = { billable: { value: 11, unit: "LB" as const } };
+      mockUpsProvider.getRates = vi.fn(async () => [
+        { ...mockUpsQuote, weights: reported },
+        { ...mockUpsQuote, serviceCode: "02" },
+      ]);
+      const service = new RateService({ providers: { ups: mockUpsProvider } });
+
+      const result = await service.getRates(buildTestRateRequest());
+
+      expect(result.quotes[0]!.quote.weights).toEqual({
+        actual: { value: 10, unit: "LB" },
+        dimensional: { value: 7.19, unit: "LB" },
+        billable: { value: 11, unit: "LB" },
+      });
+      expect(result.quotes[1]!.quote.weights).toEqual({
+        actual: { value: 10, unit: "LB" },
+        dimensional: { value: 7.19, unit: "LB" },
+        billable: { value: 10, unit: "LB" },
+      });
+    });
+
+    it("should convert mixed KG and LB packages to pounds before estimating", async () => {
+      const service = new RateService({ providers: { ups: mockUpsProvider } });
+
+      const result = await service.getRates(
+        buildTestRateRequest({
+          packages: [
+            { weight: 10, weightUnit: "LB" },
+            { weight: 5, weightUnit: "KG" },
+          ],
+        })
+      );
+
+      expect(result.quotes[0]!.quote.weights).toEqual({
+        actual: { value: 21.02, unit: "LB" },
+        billable: { value: 21.02, unit: "LB" },
+      });
+    });
+
+    it("should throw from getRatesFromProvider before calling the carrier", async () => {
+      const service = new RateService({ providers: { usps: uspsProvider } });
+
+      const error = await service.getRatesFromProvider("usps", heavyRequest()).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PackageLimitExceededError);
+      expect(error.violations).toEqual(["packages.0: weight (lb) 100 exceeds the limit of 70"]);
+      expect(uspsProvider.getRates).not.toHaveBeenCalled();
+    });
+  });
 });
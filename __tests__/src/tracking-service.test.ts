@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  TrackingService,
+  UnrecognizedTrackingNumberError,
+} from "../../src/services/tracking-service.js";
+import type { ITrackingProvider, TrackingInfo } from "../../src/carriers/carrier.interface.js";
+
+describe("TrackingService", () => {
+  let mockUpsProvider: ITrackingProvider;
+  let mockOtherProvider: ITrackingProvider;
+  let service: TrackingService;
+
+  const mockTracking: TrackingInfo = {
+    trackingNumber: "1Z023E2X0214323462",
+    status: "IN_TRANSIT",
+    events: [],
+  };
+
+  beforeEach(() => {
+    mockUpsProvider = {
+      name: "UPS",
+      canTrack: vi.fn((n: string) => n.startsWith("1Z")),
+      track: vi.fn(async () => mockTracking),
+    };
+    mockOtherProvider = {
+      name: "Other",
+      canTrack: vi.fn((n: string) => /^\d{12}$/.test(n)),
+      track: vi.fn(async () => ({ ...mockTracking, trackingNumber: "123456789012" })),
+    };
+
+    service = new TrackingService({
+      providers: { ups: mockUpsProvider, other: mockOtherProvider },
+    });
+  });
+
+  describe("track", () => {
+    it("should route tracking number to the matching carrier", async () => {
+      const result = await service.track("1Z023E2X0214323462");
+
+      expect(result).toEqual({ carrier: "ups", tracking: mockTracking });
+      expect(mockUpsProvider.track).toHaveBeenCalledWith("1Z023E2X0214323462");
+      expect(mockOtherProvider.track).not.toHaveBeenCalled();
+    });
+
+    it("should trim whitespace before matching", async () => {
+      const result = await service.track("  123456789012 ");
+
+      expect(result.carrier).toBe("other");
+      expect(mockOtherProvider.track).toHaveBeenCalledWith("123456789012");
+    });
+
+    it("should throw when no carrier recognizes the format", async () => {
+      await expect(service.track("ABC")).rejects.toThrow(UnrecognizedTrackingNumberError);
+      expect(mockUpsProvider.track).not.toHaveBeenCalled();
+      expect(mockOtherProvider.track).not.toHaveBeenCalled();
+    });
+
+    it("should propagate provider errors", async () => {
+      vi.mocked(mockUpsProvider.track).mockRejectedValueOnce(new Error("Track API error"));
+
+      await expect(service.track("1Z023E2X0214323462")).rejects.toThrow("Track API error");
+    });
+  });
+
+  describe("detectCarrier", () => {
+    it("should return the first matching provider name", () => {
+      expect(service.detectCarrier("1Z023E2X0214323462")).toBe("ups");
+      expect(service.detectCarrier("unknown")).toBeUndefined();
+    });
+  });
+
+  describe("trackWithProvider", () => {
+    it("should track with a specific provider", async () => {
+      const info = await service.trackWithProvider("ups", "1Z023E2X0214323462");
+
+      expect(info).toEqual(mockTracking);
+    });
+
+    it("should throw error for unknown provider", async () => {
+      await expect(
+        service.trackWithProvider("dhl", "1Z023E2X0214323462")
+      ).rejects.toThrow("Unknown tracking provider: dhl");
+    });
+  });
+});
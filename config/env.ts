@@ -6,6 +6,17 @@ const envSchema = z.object({
   UPS_API_KEY: z.string(),
   UPS_API_BASE_URL: z.string(),
   UPS_SHIPPER_NUMBER: z.string(),
+  FEDEX_API_BASE_URL: z.string().optional(),
+  FEDEX_CLIENT_ID: z.string().optional(),
+  FEDEX_CLIENT_SECRET: z.string().optional(),
+  FEDEX_ACCOUNT_NUMBER: z.string().optional(),
+  USPS_API_BASE_URL: z.string().optional(),
+  USPS_CLIENT_ID: z.string().optional(),
+  USPS_CLIENT_SECRET: z.string().optional(),
+  DHL_API_BASE_URL: z.string().optional(),
+  DHL_API_KEY: z.string().optional(),
+  DHL_API_SECRET: z.string().optional(),
+  DHL_ACCOUNT_NUMBER: z.string().optional(),
 });
 
 const envResult = envSchema.safeParse(process.env);
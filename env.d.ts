@@ -6,6 +6,17 @@ declare global {
       UPS_CLIENT_SECRET: string;
       UPS_API_BASE_URL: string;
       UPS_SHIPPER_NUMBER: string;
+      FEDEX_API_BASE_URL?: string;
+      FEDEX_CLIENT_ID?: string;
+      FEDEX_CLIENT_SECRET?: string;
+      FEDEX_ACCOUNT_NUMBER?: string;
+      USPS_API_BASE_URL?: string;
+      USPS_CLIENT_ID?: string;
+      USPS_CLIENT_SECRET?: string;
+      DHL_API_BASE_URL?: string;
+      DHL_API_KEY?: string;
+      DHL_API_SECRET?: string;
+      DHL_ACCOUNT_NUMBER?: string;
     }
   }
 }
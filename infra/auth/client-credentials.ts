@@ -0,0 +1,99 @@
+import {
+  InMemoryTokenStore,
+  tokenStoreKey,
+  type StoredToken,
+  type TokenStore,
+} from "./token-store.js";
+
+const REFRESH_BUFFER_SEC = 300;
+
+export interface ClientCredentialsConfig {
+  clientId: string;
+  clientSecret: string;
+  baseUrl: string;
+}
+
+export interface ClientCredentialsTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  scope: string;
+}
+
+/**
+ * Reads an OAuth 2.0 token response, filling the optional fields. `carrier`
+ * names the carrier in the error thrown for a response without a token.
+ */
+export function parseClientCredentialsTokenResponse(
+  body: unknown,
+  carrier: string
+): ClientCredentialsTokenResponse {
+  if (body && typeof body === "object" && "access_token" in body) {
+    const o = body as Record<string, unknown>;
+    return {
+      access_token: String(o.access_token),
+      token_type: typeof o.token_type === "string" ? o.token_type : "Bearer",
+      expires_in: Number(o.expires_in) || 0,
+      scope: typeof o.scope === "string" ? o.scope : "",
+    };
+  }
+  throw new Error(`Invalid ${carrier} token response: missing access_token`);
+}
+
+/**
+ * OAuth 2.0 client-credentials token lifecycle for one carrier account.
+ * Tokens are kept in a `TokenStore` (in memory by default) and refreshed
+ * shortly before expiry; each carrier supplies how a token is requested.
+ */
+export class ClientCredentialsOAuthManager {
+  private readonly key: string;
+  private inFlight: Promise<StoredToken> | null = null;
+
+  constructor(
+    carrier: string,
+    private readonly config: ClientCredentialsConfig,
+    private readonly fetchToken: (
+      config: ClientCredentialsConfig
+    ) => Promise<ClientCredentialsTokenResponse>,
+    private readonly store: TokenStore = new InMemoryTokenStore()
+  ) {
+    this.key = tokenStoreKey(carrier, config);
+  }
+
+  async getAccessToken(): Promise<string> {
+    if (!this.inFlight) {
+      const stored = await this.store.get(this.key);
+      if (stored && stored.expiresAtMs > Date.now() + (REFRESH_BUFFER_SEC * 1000)) {
+        return stored.accessToken;
+      }
+      // Concurrent callers on a cold cache share one token request
+      this.inFlight ??= this.refresh().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return (await this.inFlight).accessToken;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    const token = await this.getAccessToken();
+    return `Bearer ${token}`;
+  }
+
+  /**
+   * Drops the stored token, e.g. after the carrier rejected it with a 401.
+   */
+  async clearCache(): Promise<void> {
+    await this.store.delete(this.key);
+  }
+
+  private async refresh(): Promise<StoredToken> {
+    const nowMs = Date.now();
+    const tokenResponse = await this.fetchToken(this.config);
+    const token = {
+      accessToken: tokenResponse.access_token,
+      expiresAtMs: nowMs + tokenResponse.expires_in * 1000,
+    };
+    await this.store.set(this.key, token);
+    return token;
+  }
+}
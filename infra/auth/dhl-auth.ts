@@ -0,0 +1,14 @@
+export interface DhlAuthConfig {
+  apiKey: string;
+  apiSecret: string;
+  baseUrl: string;
+}
+
+/**
+ * MyDHL API uses HTTP Basic auth with the API key and secret, so there is no
+ * token to acquire or cache.
+ */
+export function getDhlAuthorizationHeader(config: DhlAuthConfig): string {
+  const credentials = Buffer.from(`${config.apiKey}:${config.apiSecret}`).toString("base64");
+  return `Basic ${credentials}`;
+}
@@ -0,0 +1,43 @@
+import { FetchClient } from "../http/fetch-client.js";
+import {
+  ClientCredentialsOAuthManager,
+  parseClientCredentialsTokenResponse,
+  type ClientCredentialsConfig,
+  type ClientCredentialsTokenResponse,
+} from "./client-credentials.js";
+import type { TokenStore } from "./token-store.js";
+
+const TOKEN_PATH = "/oauth/token";
+const GRANT_TYPE = "client_credentials";
+
+export type FedexAuthConfig = ClientCredentialsConfig;
+export type FedexTokenResponse = ClientCredentialsTokenResponse;
+
+export async function fetchFedexAccessToken(config: FedexAuthConfig): Promise<FedexTokenResponse> {
+  const client = new FetchClient({ baseUrl: config.baseUrl });
+
+  // FedEx takes client credentials in the form body rather than a Basic header
+  const data = await client.post<unknown>(
+    TOKEN_PATH,
+    new URLSearchParams({
+      grant_type: GRANT_TYPE,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    }).toString(),
+    {
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      retry: true, // Issuing a token has no side effects
+    }
+  );
+
+  return parseClientCredentialsTokenResponse(data, "FedEx");
+}
+
+/**
+ * OAuth 2.0 client-credentials token lifecycle for one FedEx account.
+ */
+export class FedexOAuthManager extends ClientCredentialsOAuthManager {
+  constructor(config: FedexAuthConfig, store?: TokenStore) {
+    super("fedex", config, fetchFedexAccessToken, store);
+  }
+}
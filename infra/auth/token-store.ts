@@ -0,0 +1,138 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface StoredToken {
+  accessToken: string;
+  expiresAtMs: number; // Epoch milliseconds after which the token must not be used
+}
+
+/**
+ * Where OAuth managers keep access tokens. Sharing one store across processes
+ * (a file, Redis, ...) lets workers reuse a token instead of each fetching its own.
+ *
+ * Contract for implementations:
+ * - `get` resolves to undefined for unknown keys and for tokens whose
+ *   `expiresAtMs` has passed; it never returns an expired token.
+ * - `set` overwrites any existing token for the key.
+ * - `delete` is idempotent; deleting an unknown key is not an error.
+ * - Keys are opaque strings built by the auth layer and already namespaced per
+ *   carrier and account, so a store may be shared by every manager.
+ * - Refreshing shortly before expiry is the manager's job, not the store's.
+ */
+export interface TokenStore {
+  get(key: string): Promise<StoredToken | undefined>;
+  set(key: string, token: StoredToken): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Store key for one carrier account: the carrier, its API base URL and client id.
+ */
+export function tokenStoreKey(
+  carrier: string,
+  config: { baseUrl: string; clientId: string }
+): string {
+  return `${carrier}:${config.baseUrl.replace(/\/$/, "")}|${config.clientId}`;
+}
+
+/**
+ * Process-local store; the default for every OAuth manager.
+ */
+export class InMemoryTokenStore implements TokenStore {
+  private readonly tokens = new Map<string, StoredToken>();
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    const token = this.tokens.get(key);
+    if (token && token.expiresAtMs <= Date.now()) {
+      this.tokens.delete(key);
+      return undefined;
+    }
+    return token;
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    this.tokens.set(key, token);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
+
+// Last pending write per file path; writes in this process run one after another
+const fileWriteQueues = new Map<string, Promise<void>>();
+
+/**
+ * Keeps tokens in a JSON file so they survive restarts and can be shared by
+ * processes on the same host. Writes go to a temporary file that is renamed
+ * into place, so readers never see a partially written file. Concurrent writers
+ * are last-write-wins, which at worst costs an extra token request.
+ */
+export class FileTokenStore implements TokenStore {
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    const token = (await this.read())[key];
+    return token && token.expiresAtMs > Date.now() ? token : undefined;
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    await this.update((tokens) => {
+      tokens[key] = token;
+      return true;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update((tokens) => {
+      if (!(key in tokens)) return false;
+      delete tokens[key];
+      return true;
+    });
+  }
+
+  /**
+   * Read-modify-write behind every earlier write to the same file, so parallel
+   * calls do not drop each other's keys. `change` returns false to skip the write.
+   */
+  private update(change: (tokens: Record<string, StoredToken>) => boolean): Promise<void> {
+    const previous = fileWriteQueues.get(this.filePath) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const tokens = await this.read();
+        if (change(tokens)) await this.write(tokens);
+      });
+    fileWriteQueues.set(this.filePath, next);
+    return next;
+  }
+
+  private async read(): Promise<Record<string, StoredToken>> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+    try {
+      const parsed: unknown = JSON.parse(text);
+      return parsed && typeof parsed === "object" ? (parsed as Record<string, StoredToken>) : {};
+    } catch {
+      // A corrupt cache is just a cold cache
+      return {};
+    }
+  }
+
+  private async write(tokens: Record<string, StoredToken>): Promise<void> {
+    const nowMs = Date.now();
+    const live = Object.fromEntries(
+      Object.entries(tokens).filter(([, token]) => token.expiresAtMs > nowMs)
+    );
+    const tmpPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(live), { encoding: "utf8", mode: 0o600 });
+    await rename(tmpPath, this.filePath);
+  }
+}
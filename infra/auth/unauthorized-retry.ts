@@ -0,0 +1,22 @@
+import { FetchError } from "../http/fetch-client.js";
+
+/**
+ * Runs an authorized call and, if the carrier rejects the token with a 401
+ * even though the cache considered it valid, invalidates the token and retries
+ * exactly once with fresh credentials. Failures while acquiring the token
+ * itself (e.g. bad client credentials) are not retried.
+ */
+export async function withUnauthorizedRetry<A, T>(
+  authorize: () => Promise<A>,
+  call: (auth: A) => Promise<T>,
+  invalidate: () => Promise<void>
+): Promise<T> {
+  const auth = await authorize();
+  try {
+    return await call(auth);
+  } catch (error) {
+    if (!(error instanceof FetchError) || error.status !== 401) throw error;
+    await invalidate();
+    return call(await authorize());
+  }
+}
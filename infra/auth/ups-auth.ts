@@ -1,4 +1,15 @@
 import { FetchClient } from "../http/fetch-client.js";
+import {
+  TokenBucketLimiter,
+  type RateLimiter,
+  type TokenBucketOptions,
+} from "../http/rate-limiter.js";
+import {
+  InMemoryTokenStore,
+  tokenStoreKey,
+  type StoredToken,
+  type TokenStore,
+} from "./token-store.js";
 
 const TOKEN_PATH = "/security/v1/oauth/token";
 const GRANT_TYPE = "client_credentials";
@@ -18,13 +29,6 @@ export interface UpsTokenResponse {
   status: string;
 }
 
-interface CachedToken {
-  accessToken: string;
-  expiresAtMs: number;
-}
-
-let cached: CachedToken | null = null;
-
 function b64(str: string): string {
   const bytes = new TextEncoder().encode(str);
   let binary = "";
@@ -50,9 +54,20 @@ function parseTokenResponse(body: unknown): UpsTokenResponse {
   throw new Error("Invalid UPS token response: missing access_token");
 }
 
-export async function fetchUpsAccessToken(config: UpsAuthConfig): Promise<UpsTokenResponse> {
+export interface UpsOAuthManagerOptions {
+  /**
+   * Client-side quota for token requests, tracked per account in a bucket
+   * separate from the carrier's API calls. Unlimited when omitted.
+   */
+  tokenRateLimit?: Partial<TokenBucketOptions>;
+}
+
+export async function fetchUpsAccessToken(
+  config: UpsAuthConfig,
+  rateLimiter?: RateLimiter
+): Promise<UpsTokenResponse> {
   const credentials = b64(`${config.clientId}:${config.clientSecret}`);
-  const client = new FetchClient({ baseUrl: config.baseUrl });
+  const client = new FetchClient({ baseUrl: config.baseUrl, rateLimiter });
 
   const data = await client.post<unknown>(
     TOKEN_PATH,
@@ -63,36 +78,105 @@ export async function fetchUpsAccessToken(config: UpsAuthConfig): Promise<UpsTok
         "Content-Type": "application/x-www-form-urlencoded",
         "x-merchant-id": config.clientId,
       },
+      retry: true, // Issuing a token has no side effects
     }
   );
 
   return parseTokenResponse(data);
 }
 
-export async function getUpsAccessToken(config: UpsAuthConfig): Promise<string> {
-  const nowMs = Date.now();
-  const refreshAtMs = nowMs + (REFRESH_BUFFER_SEC * 1000);
+/**
+ * OAuth 2.0 client-credentials token lifecycle for UPS applications.
+ * Tokens are kept in a `TokenStore` per clientId + baseUrl, so carriers for
+ * different UPS accounts never share a bearer token, and concurrent requests
+ * on a cold cache share a single token request.
+ */
+export class UpsOAuthManager {
+  private readonly inFlight = new Map<string, Promise<StoredToken>>();
+  private readonly storedKeys = new Set<string>();
+  private readonly tokenLimiters = new Map<string, TokenBucketLimiter>();
+
+  constructor(
+    private readonly store: TokenStore = new InMemoryTokenStore(),
+    private readonly options: UpsOAuthManagerOptions = {}
+  ) {}
+
+  async getAccessToken(config: UpsAuthConfig): Promise<string> {
+    const key = tokenStoreKey("ups", config);
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      const stored = await this.store.get(key);
+      if (stored && stored.expiresAtMs > Date.now() + (REFRESH_BUFFER_SEC * 1000)) {
+        return stored.accessToken;
+      }
+      // Another caller may have started a refresh while the store was read
+      pending = this.inFlight.get(key);
+      if (!pending) {
+        pending = this.refresh(key, config);
+        this.inFlight.set(key, pending);
+      }
+    }
+    return (await pending).accessToken;
+  }
 
-  if (cached && cached.expiresAtMs > refreshAtMs) {
-    return cached.accessToken;
+  async getAuthorizationHeader(config: UpsAuthConfig): Promise<string> {
+    const token = await this.getAccessToken(config);
+    return `Bearer ${token}`;
   }
 
-  const tokenResponse = await fetchUpsAccessToken(config);
-  const expiresAtMs = nowMs + tokenResponse.expires_in * 1000;
+  /**
+   * Drops the stored token for an account, e.g. after UPS rejected it with a 401.
+   */
+  async invalidate(config: UpsAuthConfig): Promise<void> {
+    await this.store.delete(tokenStoreKey("ups", config));
+  }
 
-  cached = {
-    accessToken: tokenResponse.access_token,
-    expiresAtMs,
-  };
+  /** Drops the token for one account, or every token this manager has stored. */
+  async clearCache(config?: UpsAuthConfig): Promise<void> {
+    const keys = config ? [tokenStoreKey("ups", config)] : [...this.storedKeys];
+    await Promise.all(keys.map((key) => this.store.delete(key)));
+  }
 
-  return cached.accessToken;
+  private async refresh(key: string, config: UpsAuthConfig): Promise<StoredToken> {
+    try {
+      const nowMs = Date.now();
+      const tokenResponse = await fetchUpsAccessToken(config, this.tokenLimiter(key));
+      const token = {
+        accessToken: tokenResponse.access_token,
+        expiresAtMs: nowMs + tokenResponse.expires_in * 1000,
+      };
+      await this.store.set(key, token);
+      this.storedKeys.add(key);
+      return token;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private tokenLimiter(key: string): TokenBucketLimiter | undefined {
+    const { tokenRateLimit } = this.options;
+    if (!tokenRateLimit) return undefined;
+    let limiter = this.tokenLimiters.get(key);
+    if (!limiter) {
+      limiter = new TokenBucketLimiter(`UPS token endpoint (${key})`, tokenRateLimit);
+      this.tokenLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
+}
+
+/** Manager shared by the module-level helpers and carriers built without one. */
+export const defaultUpsOAuthManager = new UpsOAuthManager();
+
+export async function getUpsAccessToken(config: UpsAuthConfig): Promise<string> {
+  return defaultUpsOAuthManager.getAccessToken(config);
 }
 
 export async function getUpsAuthorizationHeader(config: UpsAuthConfig): Promise<string> {
-  const token = await getUpsAccessToken(config);
-  return `Bearer ${token}`;
+  return defaultUpsOAuthManager.getAuthorizationHeader(config);
 }
 
-export function clearUpsTokenCache(): void {
-  cached = null;
+export async function clearUpsTokenCache(): Promise<void> {
+  await defaultUpsOAuthManager.clearCache();
 }
@@ -0,0 +1,39 @@
+import { FetchClient } from "../http/fetch-client.js";
+import {
+  ClientCredentialsOAuthManager,
+  parseClientCredentialsTokenResponse,
+  type ClientCredentialsConfig,
+  type ClientCredentialsTokenResponse,
+} from "./client-credentials.js";
+import type { TokenStore } from "./token-store.js";
+
+const TOKEN_PATH = "/oauth2/v3/token";
+const GRANT_TYPE = "client_credentials";
+
+export type UspsAuthConfig = ClientCredentialsConfig;
+export type UspsTokenResponse = ClientCredentialsTokenResponse;
+
+export async function fetchUspsAccessToken(config: UspsAuthConfig): Promise<UspsTokenResponse> {
+  const client = new FetchClient({ baseUrl: config.baseUrl });
+
+  const data = await client.post<unknown>(
+    TOKEN_PATH,
+    {
+      grant_type: GRANT_TYPE,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    },
+    { retry: true } // Issuing a token has no side effects
+  );
+
+  return parseClientCredentialsTokenResponse(data, "USPS");
+}
+
+/**
+ * OAuth 2.0 client-credentials token lifecycle for one USPS application.
+ */
+export class UspsOAuthManager extends ClientCredentialsOAuthManager {
+  constructor(config: UspsAuthConfig, store?: TokenStore) {
+    super("usps", config, fetchUspsAccessToken, store);
+  }
+}
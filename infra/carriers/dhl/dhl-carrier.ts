@@ -0,0 +1,97 @@
+import type {
+  CarrierCallOptions,
+  IRateProvider,
+  PackageLimits,
+} from "@/carriers/carrier.interface.js";
+import type { RateQuote } from "@/models/rate-quote.js";
+import type { RateRequestInput } from "@/models/rate-request.js";
+import {
+  UnsupportedRequestError,
+  UnsupportedServiceLevelError,
+} from "@/errors/carrier-errors.js";
+import { CM_PER_IN, LBS_PER_KG } from "@/models/units.js";
+import {
+  buildDhlRateRequestBody,
+  mapDhlRateResponseToQuotes,
+  toDhlDateTime,
+  toDhlProductCode,
+} from "./dhl-mapper.js";
+import { type DhlRateResponse } from "./dhl-rate-response.js";
+import { FetchClient } from "../../http/fetch-client.js";
+import { TokenBucketLimiter, type TokenBucketOptions } from "../../http/rate-limiter.js";
+import { getDhlAuthorizationHeader, type DhlAuthConfig } from "../../auth/dhl-auth.js";
+
+const RATE_PATH = "/rates";
+
+// DHL publishes metric limits: 70 kg and 120 cm per piece, 5000 cm³ per kg of volumetric weight
+const PACKAGE_LIMITS: PackageLimits = {
+  maxWeightLbs: 70 * LBS_PER_KG,
+  maxLengthIn: 120 / CM_PER_IN,
+  dimDivisor: 5000 / CM_PER_IN ** 3 / LBS_PER_KG,
+};
+
+export interface DhlExpressCarrierConfig {
+  auth: DhlAuthConfig;
+  accountNumber: string;
+  httpClient?: FetchClient;
+  // Client-side quota for API calls; ignored when httpClient is given
+  rateLimit?: Partial<TokenBucketOptions>;
+}
+
+/**
+ * DHL Express carrier implementation supporting rate quotes, including
+ * landed-cost components (duties and taxes) for dutiable shipments.
+ * Without a requested service level DHL quotes every available product.
+ */
+export class DhlExpressCarrier implements IRateProvider {
+  readonly name = "DHL Express";
+  readonly packageLimits = PACKAGE_LIMITS;
+  private readonly client: FetchClient;
+
+  constructor(private readonly config: DhlExpressCarrierConfig) {
+    this.client =
+      config.httpClient ??
+      new FetchClient({
+        baseUrl: config.auth.baseUrl,
+        defaultHeaders: { "Content-Type": "application/json" },
+        rateLimiter: config.rateLimit && new TokenBucketLimiter(this.name, config.rateLimit),
+      });
+  }
+
+  async getRates(
+    request: RateRequestInput,
+    options: CarrierCallOptions = {}
+  ): Promise<RateQuote[]> {
+    const { origin, destination, packages, serviceLevel, customs } = request;
+
+    if (packages.length === 0) {
+      throw new UnsupportedRequestError(this.name, "At least one package is required");
+    }
+
+    const international = origin.country !== destination.country;
+    // Non-dutiable contents are documents, matching isCustomsDeclarable
+    const documents = customs?.dutiable === false;
+    const productCode =
+      serviceLevel && toDhlProductCode(serviceLevel, international, documents);
+    if (serviceLevel && !productCode) {
+      throw new UnsupportedServiceLevelError(this.name, serviceLevel);
+    }
+
+    const body = buildDhlRateRequestBody({
+      accountNumber: this.config.accountNumber,
+      origin,
+      destination,
+      packages,
+      plannedShippingDateAndTime: toDhlDateTime(new Date()),
+      productCode,
+      customs,
+    });
+
+    const data = await this.client.post<DhlRateResponse>(RATE_PATH, body, {
+      headers: { Authorization: getDhlAuthorizationHeader(this.config.auth) },
+      retry: true,
+      signal: options.signal,
+    });
+    return mapDhlRateResponseToQuotes(data);
+  }
+}
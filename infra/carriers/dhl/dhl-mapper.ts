@@ -0,0 +1,285 @@
+import { CarrierResponseError } from "@/errors/carrier-errors.js";
+import type { Charge, ChargeType, QuoteWeights, RateQuote } from "@/models/rate-quote.js";
+import type {
+  AddressInput,
+  CommodityLine,
+  CustomsInfo,
+  PackageInfo,
+  ServiceLevel,
+} from "@/models/rate-request.js";
+import { toCentimeters, toInches, toKilograms, toPounds } from "@/models/units.js";
+import { serviceLevelLookup, toServiceCode, type ServiceLevelCodes } from "../service-levels.js";
+import type {
+  DhlAddress,
+  DhlLineItem,
+  DhlPackage,
+  DhlRateRequestBody,
+  DhlUnitOfMeasurement,
+} from "./dhl-rate-request.js";
+import type {
+  DhlBreakdownItem,
+  DhlProduct,
+  DhlRateResponse,
+} from "./dhl-rate-response.js";
+
+// Prices in the billing currency of the shipper account
+const BILLING_CURRENCY = "BILLC";
+const DUTY_TYPE_CODE = "DUTY";
+const TAX_TYPE_CODE = "TAX";
+// DHL service codes for the surcharges the breakdown reports by type
+const SERVICE_CHARGE_TYPES: Record<string, ChargeType> = {
+  FF: "FUEL",
+  OO: "DELIVERY_AREA", // Remote area delivery
+};
+// Tax charged on a transport line item (e.g. VAT), reported in its priceBreakdown
+const ITEM_TAX_TYPE_CODE = "STTXA";
+
+// DHL Express is time-definite only, so there are no ground or deferred products
+const DHL_PRODUCT_CODES: ServiceLevelCodes = {
+  OVERNIGHT: { domestic: "N" }, // Domestic Express
+  OVERNIGHT_EARLY: { domestic: "I" }, // Domestic Express 9:00
+  INTERNATIONAL_ECONOMY: { international: "H" }, // Economy Select
+  INTERNATIONAL_EXPRESS: { international: "P" }, // Express Worldwide
+  INTERNATIONAL_EXPRESS_EARLY: { international: "E" }, // Express 9:00
+};
+// The same international products for documents, which DHL codes separately
+const DOCUMENT_PRODUCT_CODES: Record<string, string> = { H: "W", P: "D", E: "K" };
+
+const dhlServiceLevel = serviceLevelLookup(DHL_PRODUCT_CODES, {
+  W: "INTERNATIONAL_ECONOMY",
+  D: "INTERNATIONAL_EXPRESS",
+  Y: "INTERNATIONAL_EXPRESS", // Express 12:00
+  T: "INTERNATIONAL_EXPRESS", // Express 12:00 documents
+  K: "INTERNATIONAL_EXPRESS_EARLY",
+});
+
+export function toDhlProductCode(
+  level: ServiceLevel,
+  international: boolean,
+  documents: boolean
+): string | undefined {
+  const code = toServiceCode(DHL_PRODUCT_CODES, level, international);
+  return code && documents ? (DOCUMENT_PRODUCT_CODES[code] ?? code) : code;
+}
+
+export function toDhlAddress(address: AddressInput): DhlAddress {
+  return {
+    ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+    cityName: address.city,
+    countryCode: address.country,
+    provinceCode: address.state,
+    addressLine1: address.addressLine1,
+    ...(address.addressLine2 ? { addressLine2: address.addressLine2 } : {}),
+  };
+}
+
+/** DHL timestamps carry an explicit GMT offset, e.g. 2024-01-02T10:00:00GMT+00:00. */
+export function toDhlDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}GMT+00:00`;
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * DHL takes one unit system per request; the first package decides it and
+ * every package is converted to match.
+ */
+function toDhlPackage(pkg: PackageInfo, unit: DhlUnitOfMeasurement): DhlPackage {
+  const weight = unit === "metric" ? toKilograms(pkg) : toPounds(pkg);
+  const dims = unit === "metric" ? toCentimeters(pkg) : toInches(pkg);
+  return {
+    weight: round(weight),
+    ...(dims
+      ? {
+          dimensions: {
+            length: round(dims.length),
+            width: round(dims.width),
+            height: round(dims.height),
+          },
+        }
+      : {}),
+  };
+}
+
+/** DHL prices line items per unit; HS codes go without the dots. */
+function toDhlLineItem(line: CommodityLine, index: number): DhlLineItem {
+  return {
+    number: index + 1,
+    description: line.description,
+    price: round(line.value / line.quantity),
+    quantity: { value: line.quantity, unitOfMeasurement: "PCS" },
+    ...(line.hsCode
+      ? { commodityCodes: [{ typeCode: "outbound", value: line.hsCode.replace(/\./g, "") }] }
+      : {}),
+    manufacturerCountry: line.originCountry,
+  };
+}
+
+export function buildDhlRateRequestBody(options: {
+  accountNumber: string;
+  origin: AddressInput;
+  destination: AddressInput;
+  packages: PackageInfo[];
+  plannedShippingDateAndTime: string;
+  productCode?: string;
+  customs?: CustomsInfo;
+}): DhlRateRequestBody {
+  const {
+    accountNumber,
+    origin,
+    destination,
+    packages,
+    plannedShippingDateAndTime,
+    productCode,
+    customs,
+  } = options;
+  const unit: DhlUnitOfMeasurement = packages[0]?.weightUnit === "KG" ? "metric" : "imperial";
+  const declarable = customs !== undefined && customs.dutiable !== false;
+
+  return {
+    customerDetails: {
+      shipperDetails: toDhlAddress(origin),
+      receiverDetails: toDhlAddress(destination),
+    },
+    accounts: [{ typeCode: "shipper", number: accountNumber }],
+    // Omitting the product code makes DHL quote every available product
+    ...(productCode ? { productCode } : {}),
+    plannedShippingDateAndTime,
+    unitOfMeasurement: unit,
+    isCustomsDeclarable: declarable,
+    ...(customs
+      ? {
+          monetaryAmount: [
+            { typeCode: "declaredValue", value: customs.declaredValue, currency: customs.currency },
+          ],
+        }
+      : {}),
+    // Line items let DHL estimate duties per commodity instead of on the total alone
+    ...(declarable && customs.commodities
+      ? { content: { exportDeclaration: { lineItems: customs.commodities.map(toDhlLineItem) } } }
+      : {}),
+    packages: packages.map((pkg) => toDhlPackage(pkg, unit)),
+  };
+}
+
+function pickBillingEntry<T extends { currencyType?: string }>(
+  entries: T[] | undefined
+): T | undefined {
+  return entries?.find((e) => e.currencyType === BILLING_CURRENCY) ?? entries?.[0];
+}
+
+function toChargeType(item: DhlBreakdownItem): ChargeType {
+  // The product itself is the only item without a service or type code
+  if (!item.serviceCode && !item.typeCode) return "TRANSPORTATION";
+  if (item.typeCode === DUTY_TYPE_CODE) return "DUTY";
+  if (item.typeCode === TAX_TYPE_CODE) return "TAX";
+  return SERVICE_CHARGE_TYPES[item.serviceCode ?? ""] ?? "OTHER";
+}
+
+/**
+ * One charge per DHL line item. Duties and taxes are landed-cost items DHL adds
+ * for dutiable shipments; tax DHL levies on a line item itself (e.g. VAT) comes
+ * on top of the item price and becomes its own TAX charge.
+ */
+function mapCharges(items: DhlBreakdownItem[]): Charge[] {
+  return items.flatMap((item) => {
+    const code = item.serviceCode ?? item.typeCode;
+    const charge: Charge = {
+      type: toChargeType(item),
+      ...(code ? { code } : {}),
+      description: item.name ?? code ?? "Charge",
+      amount: item.price ?? 0,
+    };
+    const itemTax = (item.priceBreakdown ?? [])
+      .filter((p) => p.typeCode === ITEM_TAX_TYPE_CODE)
+      .reduce((sum, p) => sum + (p.price ?? 0), 0);
+    if (itemTax === 0) return [charge];
+    return [
+      charge,
+      {
+        type: "TAX" as const,
+        code: ITEM_TAX_TYPE_CODE,
+        description: `Tax on ${charge.description}`,
+        amount: itemTax,
+      },
+    ];
+  });
+}
+
+/**
+ * DHL bills the greater of the provided and volumetric weight, in the unit
+ * system the request used.
+ */
+function mapWeights(product: DhlProduct): QuoteWeights | undefined {
+  const weight = product.weight;
+  if (weight?.provided === undefined) return undefined;
+  const unit = weight.unitOfMeasurement === "imperial" ? "LB" : "KG";
+  return {
+    actual: { value: weight.provided, unit },
+    ...(weight.volumetric !== undefined
+      ? { dimensional: { value: weight.volumetric, unit } }
+      : {}),
+    billable: { value: Math.max(weight.provided, weight.volumetric ?? 0), unit },
+  };
+}
+
+function mapProduct(product: DhlProduct, index: number, res: DhlRateResponse): RateQuote {
+  const total = pickBillingEntry(product.totalPrice);
+  const detailed = pickBillingEntry(product.detailedPriceBreakdown);
+  const currency = total?.priceCurrency ?? detailed?.priceCurrency;
+  const path = `products.${index}`;
+  const issues = [
+    ...(product.productCode ? [] : [`${path}.productCode: missing`]),
+    ...(currency ? [] : [`${path}.totalPrice.priceCurrency: missing`]),
+  ];
+  if (!product.productCode || !currency || total?.price === undefined) {
+    throw new CarrierResponseError("Malformed DHL rate response", "DHL", issues, res);
+  }
+
+  const delivery = product.deliveryCapabilities;
+  const serviceLevel = dhlServiceLevel(product.productCode);
+  const weights = mapWeights(product);
+
+  return {
+    serviceCode: product.productCode,
+    serviceName: product.productName ?? "DHL Express",
+    ...(serviceLevel ? { serviceLevel } : {}),
+    totalPrice: total.price,
+    currency,
+    ...(delivery?.totalTransitDays !== undefined
+      ? { estimatedDays: delivery.totalTransitDays }
+      : {}),
+    ...(delivery?.estimatedDeliveryDateAndTime
+      ? { deliveryDate: delivery.estimatedDeliveryDateAndTime }
+      : {}),
+    breakdown: {
+      publishedTotal: total.price,
+      charges: detailed?.breakdown ? mapCharges(detailed.breakdown) : [],
+    },
+    ...(weights ? { weights } : {}),
+  };
+}
+
+function isPriced(product: DhlProduct): boolean {
+  return pickBillingEntry(product.totalPrice)?.price !== undefined;
+}
+
+/**
+ * Maps a DHL Express rate response to one quote per priced product. Throws
+ * CarrierResponseError when no product is priced, or when a priced product has
+ * no code or currency, rather than inventing a quote.
+ */
+export function mapDhlRateResponseToQuotes(res: DhlRateResponse): RateQuote[] {
+  const products = res.products ?? [];
+  if (!products.some(isPriced)) {
+    throw new CarrierResponseError(
+      "DHL rate response contains no priced products",
+      "DHL",
+      [products.length === 0 ? "products: missing or empty" : "products: none has a totalPrice"],
+      res
+    );
+  }
+  return products.flatMap((product, index) =>
+    isPriced(product) ? [mapProduct(product, index, res)] : []
+  );
+}
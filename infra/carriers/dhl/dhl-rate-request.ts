@@ -0,0 +1,58 @@
+export interface DhlAddress {
+  postalCode?: string;
+  cityName: string;
+  countryCode: string;
+  provinceCode?: string;
+  addressLine1: string;
+  addressLine2?: string;
+}
+
+export interface DhlAccount {
+  typeCode: "shipper" | "payer" | "duties-taxes";
+  number: string;
+}
+
+export interface DhlMonetaryAmount {
+  typeCode: "declaredValue" | "insuredValue";
+  value: number;
+  currency: string;
+}
+
+export interface DhlPackage {
+  weight: number;
+  dimensions?: {
+    length: number;
+    width: number;
+    height: number;
+  };
+}
+
+export interface DhlLineItem {
+  number: number; // 1-based position in the declaration
+  description: string;
+  price: number; // Per unit, in the declared value currency
+  quantity: { value: number; unitOfMeasurement: "PCS" };
+  commodityCodes?: { typeCode: "outbound"; value: string }[];
+  manufacturerCountry: string;
+}
+
+export interface DhlContent {
+  exportDeclaration: { lineItems: DhlLineItem[] };
+}
+
+export type DhlUnitOfMeasurement = "metric" | "imperial";
+
+export interface DhlRateRequestBody {
+  customerDetails: {
+    shipperDetails: DhlAddress;
+    receiverDetails: DhlAddress;
+  };
+  accounts: DhlAccount[];
+  productCode?: string;
+  plannedShippingDateAndTime: string;
+  unitOfMeasurement: DhlUnitOfMeasurement;
+  isCustomsDeclarable: boolean;
+  monetaryAmount?: DhlMonetaryAmount[];
+  content?: DhlContent;
+  packages: DhlPackage[];
+}
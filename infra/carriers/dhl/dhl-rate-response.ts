@@ -0,0 +1,45 @@
+export interface DhlPriceBreakdownItem {
+  typeCode?: string;
+  price?: number;
+}
+
+export interface DhlBreakdownItem {
+  name?: string;
+  serviceCode?: string;
+  localServiceCode?: string;
+  typeCode?: string;
+  serviceTypeCode?: string;
+  price?: number;
+  priceCurrency?: string;
+  priceBreakdown?: DhlPriceBreakdownItem[];
+}
+
+export interface DhlDetailedPriceBreakdown {
+  currencyType?: string;
+  priceCurrency?: string;
+  breakdown?: DhlBreakdownItem[];
+}
+
+export interface DhlTotalPrice {
+  currencyType?: string;
+  priceCurrency?: string;
+  price?: number;
+}
+
+export interface DhlProduct {
+  productName?: string;
+  productCode?: string;
+  localProductCode?: string;
+  networkTypeCode?: string;
+  weight?: { volumetric?: number; provided?: number; unitOfMeasurement?: string };
+  totalPrice?: DhlTotalPrice[];
+  detailedPriceBreakdown?: DhlDetailedPriceBreakdown[];
+  deliveryCapabilities?: {
+    estimatedDeliveryDateAndTime?: string;
+    totalTransitDays?: number;
+  };
+}
+
+export interface DhlRateResponse {
+  products?: DhlProduct[];
+}
@@ -0,0 +1,99 @@
+import type {
+  CarrierCallOptions,
+  IRateProvider,
+  PackageLimits,
+} from "@/carriers/carrier.interface.js";
+import type { RateQuote } from "@/models/rate-quote.js";
+import type { RateRequestInput } from "@/models/rate-request.js";
+import {
+  UnsupportedRequestError,
+  UnsupportedServiceLevelError,
+} from "@/errors/carrier-errors.js";
+import {
+  buildFedexRateRequestBody,
+  mapFedexRateResponseToQuotes,
+  toFedexServiceType,
+} from "./fedex-mapper.js";
+import { type FedexRateResponse } from "./fedex-rate-response.js";
+import { FetchClient } from "../../http/fetch-client.js";
+import { TokenBucketLimiter, type TokenBucketOptions } from "../../http/rate-limiter.js";
+import { FedexOAuthManager, type FedexAuthConfig } from "../../auth/fedex-auth.js";
+import { withUnauthorizedRetry } from "../../auth/unauthorized-retry.js";
+
+const RATE_PATH = "/rate/v1/rates/quotes";
+
+// FedEx Express and Ground share the same per-package maximums
+const PACKAGE_LIMITS: PackageLimits = {
+  maxWeightLbs: 150,
+  maxLengthIn: 108,
+  maxLengthPlusGirthIn: 165,
+  dimDivisor: 139,
+};
+
+export interface FedexCarrierConfig {
+  auth: FedexAuthConfig;
+  accountNumber: string;
+  httpClient?: FetchClient;
+  // Client-side quota for API calls; ignored when httpClient is given
+  rateLimit?: Partial<TokenBucketOptions>;
+  authManager?: FedexOAuthManager;
+}
+
+/**
+ * FedEx carrier implementation supporting rate quotes.
+ * Without a requested service level FedEx quotes every available service.
+ */
+export class FedexCarrier implements IRateProvider {
+  readonly name = "FedEx";
+  readonly packageLimits = PACKAGE_LIMITS;
+  private readonly client: FetchClient;
+  private readonly authManager: FedexOAuthManager;
+
+  constructor(private readonly config: FedexCarrierConfig) {
+    this.client =
+      config.httpClient ??
+      new FetchClient({
+        baseUrl: config.auth.baseUrl,
+        defaultHeaders: { "Content-Type": "application/json" },
+        rateLimiter: config.rateLimit && new TokenBucketLimiter(this.name, config.rateLimit),
+      });
+    this.authManager = config.authManager ?? new FedexOAuthManager(config.auth);
+  }
+
+  async getRates(
+    request: RateRequestInput,
+    options: CarrierCallOptions = {}
+  ): Promise<RateQuote[]> {
+    const { origin, destination, packages, serviceLevel } = request;
+
+    if (packages.length === 0) {
+      throw new UnsupportedRequestError(this.name, "At least one package is required");
+    }
+
+    const international = origin.country !== destination.country;
+    const serviceType = serviceLevel && toFedexServiceType(serviceLevel, international);
+    if (serviceLevel && !serviceType) {
+      throw new UnsupportedServiceLevelError(this.name, serviceLevel);
+    }
+
+    const body = buildFedexRateRequestBody({
+      accountNumber: this.config.accountNumber,
+      origin,
+      destination,
+      packages,
+      serviceType,
+    });
+
+    const data = await withUnauthorizedRetry(
+      () => this.authManager.getAuthorizationHeader(),
+      (authorization) =>
+        this.client.post<FedexRateResponse>(RATE_PATH, body, {
+          headers: { Authorization: authorization, "X-locale": "en_US" },
+          retry: true,
+          signal: options.signal,
+        }),
+      () => this.authManager.clearCache()
+    );
+    return mapFedexRateResponseToQuotes(data);
+  }
+}
@@ -0,0 +1,259 @@
+import type {
+  Charge,
+  ChargeType,
+  PackageRate,
+  QuoteWeights,
+  RateQuote,
+} from "@/models/rate-quote.js";
+import { CarrierResponseError, UnsupportedRequestError } from "@/errors/carrier-errors.js";
+import type {
+  AddressInput,
+  PackageInfo,
+  PackagingType,
+  ServiceLevel,
+} from "@/models/rate-request.js";
+import { serviceLevelLookup, toServiceCode, type ServiceLevelCodes } from "../service-levels.js";
+import type {
+  FedexAddress,
+  FedexRateRequestBody,
+  FedexRequestedPackageLineItem,
+} from "./fedex-rate-request.js";
+import type {
+  FedexRateReplyDetail,
+  FedexRateResponse,
+  FedexRatedShipmentDetail,
+} from "./fedex-rate-response.js";
+
+// FedEx surcharge types the breakdown reports by type
+const SURCHARGE_TYPES: Record<string, ChargeType> = {
+  FUEL: "FUEL",
+  RESIDENTIAL_DELIVERY: "RESIDENTIAL",
+  DELIVERY_AREA: "DELIVERY_AREA",
+  ADDITIONAL_HANDLING: "ADDITIONAL_HANDLING",
+};
+
+const FEDEX_SERVICE_TYPES: ServiceLevelCodes = {
+  GROUND: { domestic: "FEDEX_GROUND", international: "FEDEX_GROUND" }, // Canada only
+  THREE_DAY: { domestic: "FEDEX_EXPRESS_SAVER" },
+  TWO_DAY: { domestic: "FEDEX_2_DAY" },
+  OVERNIGHT: { domestic: "PRIORITY_OVERNIGHT" },
+  OVERNIGHT_EARLY: { domestic: "FIRST_OVERNIGHT" },
+  INTERNATIONAL_ECONOMY: { international: "INTERNATIONAL_ECONOMY" },
+  INTERNATIONAL_EXPRESS: { international: "INTERNATIONAL_PRIORITY" },
+  INTERNATIONAL_EXPRESS_EARLY: { international: "INTERNATIONAL_FIRST" },
+};
+
+const fedexServiceLevel = serviceLevelLookup(FEDEX_SERVICE_TYPES, {
+  GROUND_HOME_DELIVERY: "GROUND",
+  FEDEX_2_DAY_AM: "TWO_DAY",
+  STANDARD_OVERNIGHT: "OVERNIGHT",
+  FEDEX_INTERNATIONAL_PRIORITY: "INTERNATIONAL_EXPRESS",
+});
+
+export function toFedexServiceType(
+  level: ServiceLevel,
+  international: boolean
+): string | undefined {
+  return toServiceCode(FEDEX_SERVICE_TYPES, level, international);
+}
+
+const PACKAGING_TYPES: Partial<Record<PackagingType, string>> = {
+  CUSTOMER_BOX: "YOUR_PACKAGING",
+  ENVELOPE: "FEDEX_ENVELOPE",
+  PAK: "FEDEX_PAK",
+  TUBE: "FEDEX_TUBE",
+};
+
+function toPackagingType(type: PackagingType | undefined): string {
+  if (!type) return "YOUR_PACKAGING";
+  const code = PACKAGING_TYPES[type];
+  if (!code) {
+    throw new UnsupportedRequestError(
+      "FedEx",
+      `FedEx does not support packaging type ${type}`
+    );
+  }
+  return code;
+}
+
+export function toFedexAddress(address: AddressInput): FedexAddress {
+  return {
+    streetLines: address.addressLine2
+      ? [address.addressLine1, address.addressLine2]
+      : [address.addressLine1],
+    city: address.city,
+    ...(address.state ? { stateOrProvinceCode: address.state } : {}),
+    ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+    countryCode: address.country,
+  };
+}
+
+/**
+ * FedEx accepts both unit systems, so weights and dimensions pass through as given.
+ */
+function toLineItem(pkg: PackageInfo): FedexRequestedPackageLineItem {
+  return {
+    weight: { units: pkg.weightUnit, value: pkg.weight },
+    ...(pkg.dimensions
+      ? {
+          dimensions: {
+            length: pkg.dimensions.length,
+            width: pkg.dimensions.width,
+            height: pkg.dimensions.height,
+            units: pkg.dimensions.unit,
+          },
+        }
+      : {}),
+  };
+}
+
+export function buildFedexRateRequestBody(options: {
+  accountNumber: string;
+  origin: AddressInput;
+  destination: AddressInput;
+  packages: PackageInfo[];
+  serviceType?: string;
+}): FedexRateRequestBody {
+  const { accountNumber, origin, destination, packages, serviceType } = options;
+  // FedEx packaging is shipment-level; the first package decides it
+  const packagingType = packages[0]?.packagingType;
+
+  return {
+    accountNumber: { value: accountNumber },
+    requestedShipment: {
+      shipper: { address: toFedexAddress(origin) },
+      recipient: { address: toFedexAddress(destination) },
+      pickupType: "DROPOFF_AT_FEDEX_LOCATION",
+      // Omitting the service type makes FedEx quote every available service
+      ...(serviceType ? { serviceType } : {}),
+      packagingType: toPackagingType(packagingType),
+      rateRequestType: ["ACCOUNT", "LIST"],
+      totalPackageCount: packages.length,
+      requestedPackageLineItems: packages.map(toLineItem),
+    },
+  };
+}
+
+/** Prefers the account (negotiated) rate over the list rate. */
+function pickRatedShipment(detail: FedexRateReplyDetail): FedexRatedShipmentDetail | undefined {
+  const rated = detail.ratedShipmentDetails ?? [];
+  return rated.find((r) => r.rateType === "ACCOUNT") ?? rated[0];
+}
+
+function mapCharges(rated: FedexRatedShipmentDetail): Charge[] {
+  const shipmentDetail = rated.shipmentRateDetail;
+  const charges: Charge[] = [];
+  if (rated.totalBaseCharge !== undefined) {
+    charges.push({
+      type: "TRANSPORTATION",
+      description: "Base charge",
+      amount: rated.totalBaseCharge,
+    });
+  }
+  for (const surcharge of shipmentDetail?.surCharges ?? []) {
+    if (surcharge.amount === undefined) continue;
+    charges.push({
+      type: SURCHARGE_TYPES[surcharge.type ?? ""] ?? "OTHER",
+      ...(surcharge.type ? { code: surcharge.type } : {}),
+      description: surcharge.description ?? surcharge.type ?? "Surcharge",
+      amount: surcharge.amount,
+    });
+  }
+  if (shipmentDetail?.totalTaxes) {
+    charges.push({ type: "TAX", description: "Taxes", amount: shipmentDetail.totalTaxes });
+  }
+  return charges;
+}
+
+// FedEx reports only the billing weight; actual and dimensional weight are estimated
+function mapWeights(rated: FedexRatedShipmentDetail): QuoteWeights | undefined {
+  const billing = rated.shipmentRateDetail?.totalBillingWeight;
+  if (billing?.value === undefined || (billing.units !== "LB" && billing.units !== "KG")) {
+    return undefined;
+  }
+  return { billable: { value: billing.value, unit: billing.units } };
+}
+
+function mapReplyDetail(
+  detail: FedexRateReplyDetail,
+  index: number,
+  res: FedexRateResponse
+): RateQuote | undefined {
+  const rated = pickRatedShipment(detail);
+  if (!rated) return undefined;
+
+  const shipmentDetail = rated.shipmentRateDetail;
+  const currency = rated.currency ?? shipmentDetail?.currency;
+  const path = `output.rateReplyDetails.${index}`;
+  const issues = [
+    ...(detail.serviceType ? [] : [`${path}.serviceType: missing`]),
+    ...(rated.totalNetCharge !== undefined ? [] : [`${path}.totalNetCharge: missing`]),
+    ...(currency ? [] : [`${path}.currency: missing`]),
+  ];
+  if (!detail.serviceType || rated.totalNetCharge === undefined || !currency) {
+    throw new CarrierResponseError("Malformed FedEx rate response", "FedEx", issues, res);
+  }
+  // The breakdown itemizes the list rate; the account rate is only reported as a total
+  const negotiated = rated.rateType === "ACCOUNT" ? rated : undefined;
+  const published = negotiated
+    ? detail.ratedShipmentDetails?.find((r) => r.rateType === "LIST")
+    : rated;
+
+  const packageRates: PackageRate[] = (rated.ratedPackages ?? [])
+    .map((p) => p.packageRateDetail)
+    .filter((p) => p !== undefined)
+    .map((p) => ({
+      totalPrice: p.netCharge ?? 0,
+      currency: p.currency ?? currency,
+      basePrice: p.baseCharge,
+      serviceOptionsPrice: p.totalSurcharges,
+    }));
+
+  const serviceLevel = fedexServiceLevel(detail.serviceType);
+  const weights = mapWeights(rated);
+
+  return {
+    serviceCode: detail.serviceType,
+    serviceName: detail.serviceName ?? "FedEx",
+    ...(serviceLevel ? { serviceLevel } : {}),
+    totalPrice: rated.totalNetCharge,
+    currency,
+    breakdown: {
+      ...(published?.totalNetCharge !== undefined
+        ? { publishedTotal: published.totalNetCharge }
+        : {}),
+      ...(negotiated?.totalNetCharge !== undefined
+        ? { negotiatedTotal: negotiated.totalNetCharge }
+        : {}),
+      charges: published ? mapCharges(published) : [],
+    },
+    ...(weights ? { weights } : {}),
+    ...(packageRates.length > 0 ? { packageRates } : {}),
+  };
+}
+
+/**
+ * Maps a FedEx rate response to one quote per service. Services without rated
+ * details are skipped; a rated service without a code, price or currency, or a
+ * response without any rated service, throws CarrierResponseError rather than
+ * quoting a made-up price.
+ */
+export function mapFedexRateResponseToQuotes(res: FedexRateResponse): RateQuote[] {
+  const details = res.output?.rateReplyDetails ?? [];
+  const quotes = details
+    .map((detail, index) => mapReplyDetail(detail, index, res))
+    .filter((q): q is RateQuote => q !== undefined);
+  if (quotes.length === 0) {
+    throw new CarrierResponseError(
+      "FedEx rate response contains no rated services",
+      "FedEx",
+      [
+        details.length === 0
+          ? "output.rateReplyDetails: missing or empty"
+          : "output.rateReplyDetails: none has ratedShipmentDetails",
+      ],
+      res
+    );
+  }
+  return quotes;
+}
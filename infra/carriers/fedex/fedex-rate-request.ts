@@ -0,0 +1,44 @@
+export interface FedexAddress {
+  streetLines: string[];
+  city: string;
+  stateOrProvinceCode?: string;
+  postalCode?: string;
+  countryCode: string;
+}
+
+export interface FedexParty {
+  address: FedexAddress;
+}
+
+export interface FedexWeight {
+  units: "LB" | "KG";
+  value: number;
+}
+
+export interface FedexDimensions {
+  length: number;
+  width: number;
+  height: number;
+  units: "IN" | "CM";
+}
+
+export interface FedexRequestedPackageLineItem {
+  weight: FedexWeight;
+  dimensions?: FedexDimensions;
+}
+
+export interface FedexRequestedShipment {
+  shipper: FedexParty;
+  recipient: FedexParty;
+  pickupType: string;
+  serviceType?: string;
+  packagingType: string;
+  rateRequestType: Array<"ACCOUNT" | "LIST">;
+  totalPackageCount: number;
+  requestedPackageLineItems: FedexRequestedPackageLineItem[];
+}
+
+export interface FedexRateRequestBody {
+  accountNumber: { value: string };
+  requestedShipment: FedexRequestedShipment;
+}
@@ -0,0 +1,51 @@
+export interface FedexSurcharge {
+  type?: string;
+  description?: string;
+  amount?: number;
+}
+
+export interface FedexPackageRateDetail {
+  rateType?: string;
+  baseCharge?: number;
+  netCharge?: number;
+  totalSurcharges?: number;
+  totalTaxes?: number;
+  billingWeight?: { units?: string; value?: number };
+  surcharges?: FedexSurcharge[];
+  currency?: string;
+}
+
+export interface FedexRatedShipmentDetail {
+  rateType?: string;
+  totalBaseCharge?: number;
+  totalNetCharge?: number;
+  totalNetFedExCharge?: number;
+  totalDiscounts?: number;
+  shipmentRateDetail?: {
+    totalSurcharges?: number;
+    totalTaxes?: number;
+    surCharges?: FedexSurcharge[];
+    totalBillingWeight?: { units?: string; value?: number };
+    currency?: string;
+  };
+  ratedPackages?: Array<{
+    groupNumber?: number;
+    packageRateDetail?: FedexPackageRateDetail;
+  }>;
+  currency?: string;
+}
+
+export interface FedexRateReplyDetail {
+  serviceType?: string;
+  serviceName?: string;
+  packagingType?: string;
+  ratedShipmentDetails?: FedexRatedShipmentDetail[];
+}
+
+export interface FedexRateResponse {
+  transactionId?: string;
+  output?: {
+    rateReplyDetails?: FedexRateReplyDetail[];
+    alerts?: Array<{ code?: string; message?: string; alertType?: string }>;
+  };
+}
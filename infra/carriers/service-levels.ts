@@ -0,0 +1,38 @@
+import type { ServiceLevel } from "@/models/rate-request.js";
+
+/** A carrier's service code for one level, per kind of route. */
+export interface ServiceCodes {
+  domestic?: string;
+  international?: string;
+}
+
+export type ServiceLevelCodes = Partial<Record<ServiceLevel, ServiceCodes>>;
+
+/**
+ * The carrier code to request for a level, or undefined when the carrier does
+ * not offer it on this kind of route.
+ */
+export function toServiceCode(
+  codes: ServiceLevelCodes,
+  level: ServiceLevel,
+  international: boolean
+): string | undefined {
+  const entry = codes[level];
+  return international ? entry?.international : entry?.domestic;
+}
+
+/**
+ * Reverse lookup from carrier code to level. `aliases` covers codes the
+ * carrier returns when shopping but that we never request.
+ */
+export function serviceLevelLookup(
+  codes: ServiceLevelCodes,
+  aliases: Record<string, ServiceLevel> = {}
+): (code: string) => ServiceLevel | undefined {
+  const levels = new Map<string, ServiceLevel>(Object.entries(aliases));
+  for (const [level, entry] of Object.entries(codes) as Array<[ServiceLevel, ServiceCodes]>) {
+    if (entry.domestic) levels.set(entry.domestic, level);
+    if (entry.international) levels.set(entry.international, level);
+  }
+  return (code) => levels.get(code);
+}
@@ -1,31 +1,90 @@
-import { IRateProvider } from "@/carriers/carrier.interface.js";
+import type {
+  AddressValidationResult,
+  CarrierCallOptions,
+  IAddressValidator,
+  ILabelProvider,
+  IRateProvider,
+  ITrackingProvider,
+  LabelResponse,
+  PackageLimits,
+  ShipmentRequest,
+  TrackingInfo,
+  VoidShipmentResult,
+} from "@/carriers/carrier.interface.js";
 import type { RateQuote } from "@/models/rate-quote.js";
-import type { RateRequestInput } from "@/models/rate-request.js";
-import { buildUpsRateRequestBody } from "./ups-mapper.js";
-import { type UpsAddressInput } from "./ups-rate-request.js";
-import { type UpsRateResponse } from "./ups-rate-response.js";
+import type { AddressInput, RateRequestInput } from "@/models/rate-request.js";
+import {
+  UnsupportedRequestError,
+  UnsupportedServiceLevelError,
+} from "@/errors/carrier-errors.js";
+import {
+  buildUpsRateRequestBody,
+  toUpsAddressInput,
+  toUpsDate,
+  toUpsPackageInput,
+  toUpsServiceCode,
+} from "./ups-mapper.js";
 import { FetchClient } from "../../http/fetch-client.js";
-import { getUpsAuthorizationHeader, type UpsAuthConfig } from "../../auth/ups-auth.js";
-import { mapUpsRateResponseToQuote } from "./ups-mapper.js";
+import { TokenBucketLimiter, type TokenBucketOptions } from "../../http/rate-limiter.js";
+import {
+  UpsOAuthManager,
+  defaultUpsOAuthManager,
+  type UpsAuthConfig,
+} from "../../auth/ups-auth.js";
+import { withUnauthorizedRetry } from "../../auth/unauthorized-retry.js";
+import { mapUpsRateResponseToQuotes } from "./ups-mapper.js";
+import { type UpsTrackResponse } from "./ups-track-response.js";
+import { mapUpsTrackResponse } from "./ups-track-mapper.js";
+import { type UpsShipResponse, type UpsVoidResponse } from "./ups-ship-response.js";
+import {
+  buildUpsShipRequestBody,
+  mapUpsShipResponseToLabel,
+  mapUpsVoidResponse,
+} from "./ups-ship-mapper.js";
+import { type UpsXavResponse } from "./ups-xav-response.js";
+import { buildUpsXavRequestBody, mapUpsXavResponse } from "./ups-xav-mapper.js";
+import { mapUpsError } from "./ups-errors.js";
 
-const RATE_PATH = "/api/rating/v2403/rate";
+const RATE_PATH = "/api/rating/v2403";
+const TRACK_PATH = "/api/track/v1/details";
+const SHIP_PATH = "/api/shipments/v2409/ship";
+const VOID_PATH = "/api/shipments/v2409/void/cancel";
+// Request option 3 = validation plus residential/commercial classification
+const XAV_PATH = "/api/addressvalidation/v2/3";
+const XAV_MAX_CANDIDATES = "5";
+const TRACKING_NUMBER_PATTERN = /^1Z[0-9A-Z]{16}$/i;
+
+// Per package: 150 lb, 108 in on the longest side, 165 in length plus girth
+const PACKAGE_LIMITS: PackageLimits = {
+  maxWeightLbs: 150,
+  maxLengthIn: 108,
+  maxLengthPlusGirthIn: 165,
+  dimDivisor: 139,
+};
 
 export interface UpsCarrierConfig {
   auth: UpsAuthConfig;
   shipperNumber: string;
   httpClient?: FetchClient;
+  // Client-side quota for API calls; ignored when httpClient is given
+  rateLimit?: Partial<TokenBucketOptions>;
+  // Defaults to the shared manager, which already keys tokens per account
+  authManager?: UpsOAuthManager;
 }
 
 /**
- * UPS carrier implementation supporting rate quotes.
- * Implements IRateProvider to provide shipping rate capability.
- * 
- * To add more UPS capabilities (tracking, labels, etc.),
- * implement additional capability interfaces (ITrackingProvider, ILabelProvider, etc.)
+ * UPS carrier implementation supporting rate quotes, tracking, labels
+ * and address validation.
+ * Without a requested service level the carrier shops every UPS service.
+ * Rate requests include time in transit, so quotes carry delivery estimates.
  */
-export class UpsCarrier implements IRateProvider {
+export class UpsCarrier
+  implements IRateProvider, ITrackingProvider, ILabelProvider, IAddressValidator
+{
   readonly name = "UPS";
+  readonly packageLimits = PACKAGE_LIMITS;
   private readonly client: FetchClient;
+  private readonly authManager: UpsOAuthManager;
 
   constructor(private readonly config: UpsCarrierConfig) {
     this.client =
@@ -33,59 +92,158 @@ export class UpsCarrier implements IRateProvider {
       new FetchClient({
         baseUrl: config.auth.baseUrl,
         defaultHeaders: { "Content-Type": "application/json" },
+        rateLimiter: config.rateLimit && new TokenBucketLimiter(this.name, config.rateLimit),
       });
+    this.authManager = config.authManager ?? defaultUpsOAuthManager;
   }
 
-  async getRates(request: RateRequestInput): Promise<RateQuote> {
-    const { auth, shipperNumber } = this.config;
-    const { origin, destination, packages, serviceLevel } = request;
+  async getRates(
+    request: RateRequestInput,
+    options: CarrierCallOptions = {}
+  ): Promise<RateQuote[]> {
+    const { shipperNumber } = this.config;
+    const { origin, destination, packages, serviceLevel, customs, options: shipmentOptions } =
+      request;
 
-    // Use first package for now (UPS API handles single package in this endpoint)
-    const pkg = packages[0];
-    if (!pkg) {
-      throw new Error("At least one package is required");
+    if (packages.length === 0) {
+      throw new UnsupportedRequestError(this.name, "At least one package is required");
     }
 
-    const originAddress: UpsAddressInput = {
-      postalCode: origin.postalCode,
-      city: origin.city,
-      stateProvinceCode: origin.state,
-      countryCode: origin.country,
-      addressLine: origin.addressLine2 
-        ? [origin.addressLine1, origin.addressLine2]
-        : [origin.addressLine1],
-    };
+    const international = origin.country !== destination.country;
+    const serviceCode = serviceLevel && toUpsServiceCode(serviceLevel, international);
+    if (serviceLevel && !serviceCode) {
+      throw new UnsupportedServiceLevelError(this.name, serviceLevel);
+    }
 
-    const destAddress: UpsAddressInput = {
-      postalCode: destination.postalCode,
-      city: destination.city,
-      stateProvinceCode: destination.state,
-      countryCode: destination.country,
-      addressLine: destination.addressLine2
-        ? [destination.addressLine1, destination.addressLine2]
-        : [destination.addressLine1],
-    };
+    const originAddress = toUpsAddressInput(origin);
+    const destAddress = toUpsAddressInput(destination);
 
     const body = buildUpsRateRequestBody({
       shipperNumber,
       shipperAddress: originAddress,
       shipFromAddress: originAddress,
       shipToAddress: destAddress,
-      weightLbs: pkg.weightUnit === "KG" ? pkg.weight * 2.20462 : pkg.weight,
-      lengthIn: pkg.dimensions?.unit === "CM" ? pkg.dimensions.length / 2.54 : pkg.dimensions?.length,
-      widthIn: pkg.dimensions?.unit === "CM" ? pkg.dimensions.width / 2.54 : pkg.dimensions?.width,
-      heightIn: pkg.dimensions?.unit === "CM" ? pkg.dimensions.height / 2.54 : pkg.dimensions?.height,
-      serviceCode: serviceLevel,
+      packages: packages.map(toUpsPackageInput),
+      serviceCode,
+      requestOption: serviceCode ? "Rate" : "Shop",
+      // Estimates assume pickup today; non-dutiable contents are billed as documents.
+      // International estimates need the invoice total, so without customs plain
+      // rating is requested instead.
+      ...(!international || customs
+        ? {
+            timeInTransit: {
+              pickupDate: toUpsDate(new Date()),
+              packageBillType: customs?.dutiable === false ? "02" : "03",
+            },
+          }
+        : {}),
+      shipmentOptions,
+      customs,
     });
+    const requestOption = body.RateRequest.Request?.RequestOption ?? "Rate";
+
+    const data = await this.authorized((headers) =>
+      this.client.post<unknown>(
+        `${RATE_PATH}/${requestOption.toLowerCase()}?additionalinfo=`,
+        body,
+        { headers, retry: true, signal: options.signal }
+      )
+    );
+    return mapUpsRateResponseToQuotes(data);
+  }
+
+  canTrack(trackingNumber: string): boolean {
+    return TRACKING_NUMBER_PATTERN.test(trackingNumber.trim());
+  }
+
+  async track(trackingNumber: string): Promise<TrackingInfo> {
+    const inquiryNumber = trackingNumber.trim();
+    const data = await this.authorized((headers) =>
+      this.client.get<UpsTrackResponse>(`${TRACK_PATH}/${encodeURIComponent(inquiryNumber)}`, {
+        query: { locale: "en_US", returnSignature: "false" },
+        headers,
+      })
+    );
+    return mapUpsTrackResponse(inquiryNumber, data);
+  }
+
+  async createLabel(shipment: ShipmentRequest): Promise<LabelResponse> {
+    const { shipperNumber } = this.config;
+    const { origin, destination, packages, serviceCode, shipper, recipient } = shipment;
+    const labelFormat = shipment.labelFormat ?? "GIF";
+
+    if (packages.length === 0) {
+      throw new UnsupportedRequestError(this.name, "At least one package is required");
+    }
 
-    const authHeader = await getUpsAuthorizationHeader(auth);
-    const data = await this.client.post<UpsRateResponse>(`${RATE_PATH}?additionalinfo=`, body, {
-      headers: {
-        Authorization: authHeader,
-        transactionSrc: "testing",
-        transId: crypto.randomUUID().replace(/-/g, "").slice(0, 32),
+    const body = buildUpsShipRequestBody({
+      shipperNumber,
+      shipper: {
+        name: shipper?.name ?? "Shipper",
+        phone: shipper?.phone,
+        address: toUpsAddressInput(origin),
+      },
+      shipTo: {
+        name: recipient?.name ?? "ShipTo",
+        phone: recipient?.phone,
+        address: toUpsAddressInput(destination),
       },
+      packages: packages.map(toUpsPackageInput),
+      serviceCode,
+      labelFormat,
     });
-    return mapUpsRateResponseToQuote(data);
+
+    const data = await this.authorized((headers) =>
+      // Never retried: repeating a ship request could create a second shipment
+      this.client.post<UpsShipResponse>(SHIP_PATH, body, { headers })
+    );
+    return mapUpsShipResponseToLabel(data, labelFormat);
+  }
+
+  async voidShipment(trackingNumber: string): Promise<VoidShipmentResult> {
+    const shipmentId = trackingNumber.trim();
+    const data = await this.authorized((headers) =>
+      this.client.delete<UpsVoidResponse>(`${VOID_PATH}/${encodeURIComponent(shipmentId)}`, {
+        headers,
+      })
+    );
+    return mapUpsVoidResponse(shipmentId, data);
+  }
+
+  async validateAddress(address: AddressInput): Promise<AddressValidationResult> {
+    const data = await this.authorized((headers) =>
+      this.client.post<UpsXavResponse>(XAV_PATH, buildUpsXavRequestBody(address), {
+        query: { maximumcandidatelistsize: XAV_MAX_CANDIDATES },
+        headers,
+        retry: true,
+      })
+    );
+    return mapUpsXavResponse(data);
+  }
+
+  /**
+   * Sends a request with fresh UPS headers, retrying once with a new token if
+   * UPS rejects the cached one. UPS error responses surface as CarrierApiError.
+   */
+  private async authorized<T>(
+    call: (headers: Record<string, string>) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await withUnauthorizedRetry(
+        () => this.buildHeaders(),
+        call,
+        () => this.authManager.invalidate(this.config.auth)
+      );
+    } catch (error) {
+      throw mapUpsError(error);
+    }
+  }
+
+  private async buildHeaders(): Promise<Record<string, string>> {
+    return {
+      Authorization: await this.authManager.getAuthorizationHeader(this.config.auth),
+      transactionSrc: "testing",
+      transId: crypto.randomUUID().replace(/-/g, "").slice(0, 32),
+    };
   }
 }
@@ -0,0 +1,89 @@
+import {
+  CarrierApiError,
+  CarrierAuthenticationError,
+  CarrierThrottledError,
+  CarrierUnavailableError,
+  InvalidAddressError,
+  UnsupportedServiceError,
+  WeightLimitExceededError,
+} from "@/errors/carrier-errors.js";
+import { FetchError } from "../../http/fetch-client.js";
+
+type CarrierApiErrorClass = typeof CarrierApiError;
+
+/** UPS `response.errors[]` entry. */
+export interface UpsErrorDetail {
+  code: string;
+  message: string;
+}
+
+export interface UpsErrorResponse {
+  response?: { errors?: UpsErrorDetail[] };
+}
+
+// UPS error codes with a known meaning; anything else falls back to the HTTP status
+const UPS_ERROR_CLASSES: Record<string, CarrierApiErrorClass> = {
+  "10400": CarrierAuthenticationError, // Invalid/Missing Authorization Header
+  "10401": CarrierAuthenticationError, // ClientId is Invalid
+  "250001": CarrierAuthenticationError, // Invalid Access License for the tool
+  "250002": CarrierAuthenticationError, // Invalid Authentication Information
+  "250003": CarrierAuthenticationError, // Invalid Access License number
+  "250004": CarrierAuthenticationError, // Incorrect UserId or Password
+  "250005": CarrierAuthenticationError, // No Access and Authentication Credentials provided
+  "250009": CarrierAuthenticationError, // License Number not found in the UPS database
+  "111285": InvalidAddressError, // The postal code is invalid for the state and country
+  "111286": InvalidAddressError, // Not a valid state abbreviation for the country
+  "120802": InvalidAddressError, // Address Validation Error on ShipTo address
+  "111100": UnsupportedServiceError, // The requested service is invalid from the origin
+  "111210": UnsupportedServiceError, // The requested service is unavailable between the locations
+  "111035": WeightLimitExceededError, // Maximum per package weight for the service exceeded
+  "190001": CarrierUnavailableError, // Cannot process your request
+};
+
+const RETRYABLE_CLASSES = new Set<CarrierApiErrorClass>([
+  CarrierThrottledError,
+  CarrierUnavailableError,
+]);
+
+/**
+ * Translates a failed UPS HTTP response into a CarrierApiError subclass, using
+ * the first entry of `response.errors[]` for the code and message. Errors that
+ * are not HTTP error responses (network failures, invalid JSON) are returned as is.
+ */
+export function mapUpsError(error: unknown): unknown {
+  if (!(error instanceof FetchError) || error.status < 400) return error;
+
+  const payload = parseUpsErrorBody(error.body);
+  const detail = payload?.response?.errors?.[0];
+  const code = detail?.code ?? `HTTP_${error.status}`;
+  const message = detail?.message ?? `UPS request failed: ${error.status} ${error.statusText}`;
+  const ErrorClass = UPS_ERROR_CLASSES[code] ?? errorClassForStatus(error.status);
+
+  return Object.assign(
+    new ErrorClass(
+      message,
+      "UPS",
+      code,
+      RETRYABLE_CLASSES.has(ErrorClass),
+      error.status,
+      payload ?? (error.body || undefined)
+    ),
+    { cause: error }
+  );
+}
+
+function errorClassForStatus(status: number): CarrierApiErrorClass {
+  if (status === 401 || status === 403) return CarrierAuthenticationError;
+  if (status === 429) return CarrierThrottledError;
+  if (status >= 500) return CarrierUnavailableError;
+  return CarrierApiError;
+}
+
+function parseUpsErrorBody(body: string): UpsErrorResponse | undefined {
+  try {
+    const parsed: unknown = JSON.parse(body);
+    return parsed && typeof parsed === "object" ? (parsed as UpsErrorResponse) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,45 +1,283 @@
-import { RateQuote } from "@/models/rate-quote.js";
+import type { z } from "zod";
+import type {
+  Charge,
+  ChargeType,
+  PackageRate,
+  QuoteWeights,
+  RateBreakdown,
+  RateQuote,
+  RateWarning,
+} from "@/models/rate-quote.js";
+import { CarrierResponseError, UnsupportedRequestError } from "@/errors/carrier-errors.js";
+import type {
+  AddressInput,
+  CustomsInfo,
+  PackageInfo,
+  PackagingType,
+  ServiceLevel,
+  ShipmentOptions,
+  SignatureOption,
+  WeightUnit,
+} from "@/models/rate-request.js";
+import { toInches, toPounds } from "@/models/units.js";
 import type {
   UpsAddress,
   UpsAddressInput,
+  UpsDimensions,
+  UpsInvoiceLineTotal,
+  UpsPackage,
+  UpsPackageServiceOptions,
+  UpsPackageWeight,
+  UpsPackageInput,
   UpsRateRequestBody,
+  UpsRequestOption,
+  UpsShipmentCharge,
+  UpsShipmentServiceOptions,
+  UpsTimeInTransitInput,
 } from "./ups-rate-request.js";
-import type {
-  UpsCharges,
-  UpsRateResponse,
-  UpsRatedShipment,
+import { serviceLevelLookup, toServiceCode, type ServiceLevelCodes } from "../service-levels.js";
+import {
+  UpsRateResponseSchema,
+  type UpsAlert,
+  type UpsCharges,
+  type UpsItemizedCharge,
+  type UpsRatedPackage,
+  type UpsRatedShipment,
 } from "./ups-rate-response.js";
 
-function toAddress(a: UpsAddressInput): UpsAddress {
+// UPS accessorial codes for the surcharges the breakdown reports by type
+const ITEMIZED_CHARGE_TYPES: Record<string, { type: ChargeType; description: string }> = {
+  "100": { type: "ADDITIONAL_HANDLING", description: "Additional Handling" },
+  "270": { type: "RESIDENTIAL", description: "Residential Address" },
+  "375": { type: "FUEL", description: "Fuel Surcharge" },
+  "376": { type: "DELIVERY_AREA", description: "Delivery Area Surcharge" },
+};
+
+// Ground leaving the country is UPS Standard, which only serves Canada and Mexico
+const UPS_SERVICE_CODES: ServiceLevelCodes = {
+  GROUND: { domestic: "03", international: "11" },
+  THREE_DAY: { domestic: "12" },
+  TWO_DAY: { domestic: "02" },
+  OVERNIGHT: { domestic: "01" },
+  OVERNIGHT_EARLY: { domestic: "14" },
+  INTERNATIONAL_ECONOMY: { international: "08" }, // Worldwide Expedited
+  INTERNATIONAL_EXPRESS: { international: "07" }, // Worldwide Express
+  INTERNATIONAL_EXPRESS_EARLY: { international: "54" }, // Worldwide Express Plus
+};
+
+const upsServiceLevel = serviceLevelLookup(UPS_SERVICE_CODES, {
+  "13": "OVERNIGHT", // Next Day Air Saver
+  "59": "TWO_DAY", // 2nd Day Air A.M.
+  "65": "INTERNATIONAL_EXPRESS", // Worldwide Saver
+});
+
+export function toUpsServiceCode(level: ServiceLevel, international: boolean): string | undefined {
+  return toServiceCode(UPS_SERVICE_CODES, level, international);
+}
+
+// Delivery confirmation types; UPS numbers them differently per level
+const PACKAGE_SIGNATURE_TYPES: Record<SignatureOption, string> = { STANDARD: "2", ADULT: "3" };
+const SHIPMENT_SIGNATURE_TYPES: Record<SignatureOption, string> = { STANDARD: "1", ADULT: "2" };
+
+// UPS packaging catalog; Simple Rate ships in the customer's box at a flat size-based rate
+const UPS_PACKAGING: Partial<Record<PackagingType, { code: string; simpleRate?: string }>> = {
+  CUSTOMER_BOX: { code: "02" },
+  ENVELOPE: { code: "01" },
+  PAK: { code: "04" },
+  TUBE: { code: "03" },
+  SIMPLE_RATE_XS: { code: "02", simpleRate: "XS" },
+  SIMPLE_RATE_S: { code: "02", simpleRate: "S" },
+  SIMPLE_RATE_M: { code: "02", simpleRate: "M" },
+  SIMPLE_RATE_L: { code: "02", simpleRate: "L" },
+  SIMPLE_RATE_XL: { code: "02", simpleRate: "XL" },
+};
+
+function toUpsPackaging(type: PackagingType | undefined) {
+  if (!type) return undefined;
+  const packaging = UPS_PACKAGING[type];
+  if (!packaging) {
+    throw new UnsupportedRequestError("UPS", `UPS does not support packaging type ${type}`);
+  }
+  return packaging;
+}
+
+export function toUpsAddressInput(address: AddressInput): UpsAddressInput {
+  return {
+    postalCode: address.postalCode,
+    city: address.city,
+    stateProvinceCode: address.state,
+    countryCode: address.country,
+    addressLine: address.addressLine2
+      ? [address.addressLine1, address.addressLine2]
+      : [address.addressLine1],
+  };
+}
+
+export function toAddress(a: UpsAddressInput): UpsAddress {
   return {
-    AddressLine: a.addressLine ?? [a.city ?? "Address", a.postalCode],
+    AddressLine: a.addressLine ?? [a.city ?? "Address", ...(a.postalCode ? [a.postalCode] : [])],
     City: a.city ?? "Unknown",
-    StateProvinceCode: a.stateProvinceCode ?? "",
-    PostalCode: a.postalCode,
-    CountryCode: a.countryCode ?? "US",
+    // Only sent where the country uses states or provinces
+    ...(a.stateProvinceCode ? { StateProvinceCode: a.stateProvinceCode } : {}),
+    ...(a.postalCode ? { PostalCode: a.postalCode } : {}),
+    CountryCode: a.countryCode,
+  };
+}
+
+/**
+ * Converts a domain package to UPS units (pounds and inches).
+ */
+export function toUpsPackageInput(pkg: PackageInfo): UpsPackageInput {
+  const inches = toInches(pkg);
+  const packaging = toUpsPackaging(pkg.packagingType);
+  return {
+    weightLbs: toPounds(pkg),
+    lengthIn: inches?.length,
+    widthIn: inches?.width,
+    heightIn: inches?.height,
+    packagingTypeCode: packaging?.code,
+    ...(packaging?.simpleRate ? { simpleRateCode: packaging.simpleRate } : {}),
+  };
+}
+
+/**
+ * Package dimensions, or undefined when the caller gave none; UPS then rates
+ * on weight alone.
+ */
+export function toDimensions(p: UpsPackageInput): UpsDimensions | undefined {
+  if (p.lengthIn === undefined || p.widthIn === undefined || p.heightIn === undefined) {
+    return undefined;
+  }
+  return {
+    UnitOfMeasurement: { Code: "IN", Description: "Inches" },
+    Length: String(p.lengthIn),
+    Width: String(p.widthIn),
+    Height: String(p.heightIn),
+  };
+}
+
+export function toPackageWeight(p: UpsPackageInput): UpsPackageWeight {
+  return {
+    UnitOfMeasurement: { Code: "LBS", Description: "Pounds" },
+    Weight: String(p.weightLbs),
+  };
+}
+
+function toPackage(
+  p: UpsPackageInput,
+  serviceOptions: UpsPackageServiceOptions | undefined
+): UpsPackage {
+  const dimensions = toDimensions(p);
+  return {
+    ...(p.simpleRateCode ? { SimpleRate: { Code: p.simpleRateCode } } : {}),
+    PackagingType: { Code: p.packagingTypeCode ?? "02", Description: "Packaging" },
+    ...(dimensions ? { Dimensions: dimensions } : {}),
+    PackageWeight: toPackageWeight(p),
+    ...(serviceOptions ? { PackageServiceOptions: serviceOptions } : {}),
+  };
+}
+
+// UPS takes delivery confirmation per package within the US or Puerto Rico, per shipment otherwise
+function isDomesticConfirmation(from: UpsAddressInput, to: UpsAddressInput): boolean {
+  const origin = from.countryCode;
+  return origin === to.countryCode && (origin === "US" || origin === "PR");
+}
+
+function toPackageServiceOptions(
+  options: ShipmentOptions,
+  domestic: boolean
+): UpsPackageServiceOptions | undefined {
+  const { signature, declaredValue } = options;
+  if (!declaredValue && !(signature && domestic)) return undefined;
+  return {
+    ...(signature && domestic
+      ? { DeliveryConfirmation: { DCISType: PACKAGE_SIGNATURE_TYPES[signature] } }
+      : {}),
+    ...(declaredValue
+      ? {
+          DeclaredValue: {
+            CurrencyCode: declaredValue.currency,
+            MonetaryValue: declaredValue.amount.toFixed(2),
+          },
+        }
+      : {}),
+  };
+}
+
+function toShipmentServiceOptions(
+  options: ShipmentOptions,
+  domestic: boolean
+): UpsShipmentServiceOptions | undefined {
+  const { signature, saturdayDelivery } = options;
+  if (!saturdayDelivery && !(signature && !domestic)) return undefined;
+  return {
+    ...(saturdayDelivery ? { SaturdayDeliveryIndicator: "" as const } : {}),
+    ...(signature && !domestic
+      ? { DeliveryConfirmation: { DCISType: SHIPMENT_SIGNATURE_TYPES[signature] } }
+      : {}),
+  };
+}
+
+/** UPS dates are YYYYMMDD, on the local calendar. */
+export function toUpsDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}${month}${day}`;
+}
+
+function toShipmentTotalWeight(packages: UpsPackageInput[]): UpsPackageWeight {
+  const total = packages.reduce((sum, p) => sum + p.weightLbs, 0);
+  return toPackageWeight({ weightLbs: Math.round(total * 100) / 100 });
+}
+
+function toInvoiceLineTotal(customs: CustomsInfo): UpsInvoiceLineTotal {
+  return {
+    CurrencyCode: customs.currency.toUpperCase(),
+    MonetaryValue: customs.declaredValue.toFixed(2),
   };
 }
 
+/**
+ * Builds a rate request. With `timeInTransit` the request option becomes
+ * "Ratetimeintransit" or "Shoptimeintransit", so UPS also returns delivery estimates.
+ * Shipment options are placed at the address, shipment or package level UPS expects.
+ * International shipments with customs data carry the invoice total, and DDP
+ * bills duties and taxes to the shipper.
+ */
 export function buildUpsRateRequestBody(options: {
   shipperNumber: string;
   shipperAddress: UpsAddressInput;
   shipFromAddress: UpsAddressInput;
   shipToAddress: UpsAddressInput;
-  weightLbs: number;
-  lengthIn?: number;
-  widthIn?: number;
-  heightIn?: number;
+  packages: UpsPackageInput[];
   serviceCode?: string;
+  requestOption?: "Rate" | "Shop";
+  timeInTransit?: UpsTimeInTransitInput;
+  shipmentOptions?: ShipmentOptions;
+  customs?: CustomsInfo;
 }): UpsRateRequestBody {
-  const { shipperNumber, shipperAddress, shipFromAddress, shipToAddress, weightLbs } = options;
-  const lengthIn = options.lengthIn ?? 5;
-  const widthIn = options.widthIn ?? 5;
-  const heightIn = options.heightIn ?? 5;
+  const { shipperNumber, shipperAddress, shipFromAddress, shipToAddress, packages } = options;
+  const { timeInTransit, shipmentOptions = {} } = options;
+  const domestic = isDomesticConfirmation(shipFromAddress, shipToAddress);
+  const packageServiceOptions = toPackageServiceOptions(shipmentOptions, domestic);
+  const shipmentServiceOptions = toShipmentServiceOptions(shipmentOptions, domestic);
+  const international = shipFromAddress.countryCode !== shipToAddress.countryCode;
+  const customs = international ? options.customs : undefined;
+  const billShipper = { AccountNumber: shipperNumber };
+  const shipmentCharges: UpsShipmentCharge[] = [
+    { Type: "01", BillShipper: billShipper },
+    ...(customs?.incoterm === "DDP" ? [{ Type: "02", BillShipper: billShipper }] : []),
+  ];
+  const baseOption = options.requestOption ?? "Rate";
+  const requestOption: UpsRequestOption = timeInTransit
+    ? `${baseOption}timeintransit`
+    : baseOption;
   const serviceCode = options.serviceCode ?? "03";
 
   return {
     RateRequest: {
       Request: {
+        RequestOption: requestOption,
         TransactionReference: {
           CustomerContext: "CustomerContext",
           TransactionIdentifier: "TransactionIdentifier",
@@ -53,90 +291,307 @@ export function buildUpsRateRequestBody(options: {
         },
         ShipTo: {
           Name: "ShipTo",
-          Address: toAddress(shipToAddress),
+          Address: {
+            ...toAddress(shipToAddress),
+            ...(shipmentOptions.residential ? { ResidentialAddressIndicator: "" as const } : {}),
+          },
         },
         ShipFrom: {
           Name: "ShipFrom",
           Address: toAddress(shipFromAddress),
         },
-        PaymentDetails: {
-          ShipmentCharge: {
-            Type: "01",
-            BillShipper: { AccountNumber: shipperNumber },
-          },
-        },
-        Service: { Code: serviceCode, Description: "Ground" },
-        NumOfPieces: "1",
-        Package: {
-          SimpleRate: { Description: "SimpleRateDescription", Code: "XS" },
-          PackagingType: { Code: "02", Description: "Packaging" },
-          Dimensions: {
-            UnitOfMeasurement: { Code: "IN", Description: "Inches" },
-            Length: String(lengthIn),
-            Width: String(widthIn),
-            Height: String(heightIn),
-          },
-          PackageWeight: {
-            UnitOfMeasurement: { Code: "LBS", Description: "Pounds" },
-            Weight: String(weightLbs),
-          },
-        },
+        PaymentDetails: { ShipmentCharge: shipmentCharges },
+        // Shop requests must omit the service so UPS prices every option
+        ...(baseOption === "Rate"
+          ? { Service: { Code: serviceCode, Description: "Ground" } }
+          : {}),
+        ...(shipmentServiceOptions ? { ShipmentServiceOptions: shipmentServiceOptions } : {}),
+        ...(customs ? { InvoiceLineTotal: toInvoiceLineTotal(customs) } : {}),
+        NumOfPieces: String(packages.length),
+        Package: packages.map((p) => toPackage(p, packageServiceOptions)),
+        ...(timeInTransit
+          ? {
+              DeliveryTimeInformation: {
+                PackageBillType: timeInTransit.packageBillType,
+                Pickup: { Date: timeInTransit.pickupDate },
+              },
+              ShipmentTotalWeight: toShipmentTotalWeight(packages),
+            }
+          : {}),
       },
     },
   };
 }
 
-function parseAmount(charges: UpsCharges | undefined): number {
+export function parseAmount(charges: UpsCharges | undefined): number {
   if (!charges?.MonetaryValue) return 0;
   const n = Number.parseFloat(charges.MonetaryValue);
   return Number.isFinite(n) ? n : 0;
 }
 
-function getRatedShipments(res: UpsRateResponse): UpsRatedShipment[] {
-  const rated = res.RateResponse?.RatedShipment;
-  if (!rated) return [];
-  return Array.isArray(rated) ? rated : [rated];
+export function toArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function mapRatedPackage(pkg: UpsRatedPackage, fallbackCurrency: string): PackageRate {
+  return {
+    totalPrice: parseAmount(pkg.TotalCharges),
+    currency: pkg.TotalCharges?.CurrencyCode ?? fallbackCurrency,
+    basePrice: pkg.TransportationCharges ? parseAmount(pkg.TransportationCharges) : undefined,
+    serviceOptionsPrice: pkg.ServiceOptionsCharges
+      ? parseAmount(pkg.ServiceOptionsCharges)
+      : undefined,
+  };
+}
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Shipment-level charges when UPS returns them, otherwise the sum over rated packages.
+ */
+function shipmentOrPackageAmount(
+  shipmentCharges: UpsCharges | undefined,
+  packageCharges: Array<UpsCharges | undefined>
+): number | undefined {
+  if (shipmentCharges) return parseAmount(shipmentCharges);
+  const present = packageCharges.filter((c) => c !== undefined);
+  if (present.length === 0) return undefined;
+  return roundCents(present.reduce((sum, c) => sum + parseAmount(c), 0));
+}
+
+function toItemizedCharge(item: UpsItemizedCharge): Charge {
+  const known = ITEMIZED_CHARGE_TYPES[item.Code];
+  const isFuel = item.Description?.toLowerCase().includes("fuel");
+  return {
+    type: known?.type ?? (isFuel ? "FUEL" : "OTHER"),
+    code: item.Code,
+    description: item.Description ?? known?.description ?? `UPS charge ${item.Code}`,
+    amount: parseAmount(item),
+  };
 }
 
-export function mapUpsRateResponseToQuote(res: UpsRateResponse): RateQuote {
-  const shipments = getRatedShipments(res);
-  const first = shipments[0];
+/**
+ * Published surcharges, one per UPS code, from the shipment or summed over packages.
+ */
+function mapItemizedCharges(shipment: UpsRatedShipment): Charge[] {
+  const shipmentItems = toArray(shipment.ItemizedCharges);
+  const items =
+    shipmentItems.length > 0
+      ? shipmentItems
+      : toArray(shipment.RatedPackage).flatMap((p) => toArray(p.ItemizedCharges));
 
-  if (!first) {
-    return {
-      serviceCode: "ups",
-      serviceName: "UPS",
-      totalPrice: 0,
-      currency: "USD",
-    };
+  const byCode = new Map<string, Charge>();
+  for (const item of items) {
+    const charge = toItemizedCharge(item);
+    const existing = byCode.get(item.Code);
+    if (existing) {
+      existing.amount = roundCents(existing.amount + charge.amount);
+    } else {
+      byCode.set(item.Code, charge);
+    }
   }
+  return [...byCode.values()].filter((c) => c.amount !== 0);
+}
 
-  const totalCharges = first.NegotiatedRateCharges?.TotalCharge ?? first.TotalCharges;
-  const totalPrice = parseAmount(totalCharges);
-  const currency = totalCharges?.CurrencyCode ?? "USD";
+/**
+ * Itemizes the published rate. UPS includes accessorial surcharges in
+ * TransportationCharges, so the transportation line is what remains after them
+ * (or BaseServiceCharge when UPS sends it). Negotiated rates are only reported
+ * as a total.
+ */
+function mapBreakdown(shipment: UpsRatedShipment): RateBreakdown {
+  const packages = toArray(shipment.RatedPackage);
+  const surcharges = mapItemizedCharges(shipment);
+  const surchargeTotal = surcharges.reduce((sum, c) => sum + c.amount, 0);
+  const transportation = shipment.BaseServiceCharge
+    ? parseAmount(shipment.BaseServiceCharge)
+    : shipmentOrPackageAmount(
+        shipment.TransportationCharges,
+        packages.map((p) => p.TransportationCharges)
+      );
+  const serviceOptions = shipmentOrPackageAmount(
+    shipment.ServiceOptionsCharges,
+    packages.map((p) => p.ServiceOptionsCharges)
+  );
+
+  const charges: Charge[] = [];
+  if (transportation !== undefined) {
+    charges.push({
+      type: "TRANSPORTATION",
+      description: "Transportation",
+      amount: shipment.BaseServiceCharge
+        ? transportation
+        : roundCents(transportation - surchargeTotal),
+    });
+  }
+  charges.push(...surcharges);
+  if (serviceOptions) {
+    charges.push({
+      type: "SERVICE_OPTIONS",
+      description: "Service Options",
+      amount: serviceOptions,
+    });
+  }
+
+  const negotiated = shipment.NegotiatedRateCharges?.TotalCharge;
+  return {
+    publishedTotal: parseAmount(shipment.TotalCharges),
+    ...(negotiated ? { negotiatedTotal: parseAmount(negotiated) } : {}),
+    charges,
+  };
+}
+
+/** YYYYMMDD plus optional HHMM[SS] to an ISO 8601 local date or date-time. */
+function toIsoDateTime(date: string, time: string | undefined): string {
+  const isoDate = `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+  if (!time) return isoDate;
+  return `${isoDate}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6) || "00"}`;
+}
 
-  const itemized = first.NegotiatedRateCharges?.ItemizedCharges ?? [];
-  const fuelItem = itemized.find(
-    (c) => c.Code === "FS" || c.Description?.toLowerCase().includes("fuel")
+/**
+ * Delivery estimate from TimeInTransit, falling back to GuaranteedDelivery for
+ * the business days. UPS only sends GuaranteedDelivery for guaranteed services.
+ */
+function mapTransit(
+  shipment: UpsRatedShipment
+): Pick<RateQuote, "estimatedDays" | "deliveryDate" | "guaranteed" | "deliveryByTime"> {
+  const { GuaranteedDelivery: guarantee, TimeInTransit: transit } = shipment;
+  const summary = transit?.ServiceSummary;
+  const arrival = summary?.EstimatedArrival;
+  const days = arrival?.BusinessDaysInTransit ?? guarantee?.BusinessDaysInTransit;
+  const hasEstimate = transit !== undefined || guarantee !== undefined;
+
+  return {
+    ...(days !== undefined ? { estimatedDays: Number(days) } : {}),
+    ...(arrival?.Arrival
+      ? { deliveryDate: toIsoDateTime(arrival.Arrival.Date, arrival.Arrival.Time) }
+      : {}),
+    ...(hasEstimate
+      ? { guaranteed: guarantee !== undefined || summary?.GuaranteedIndicator !== undefined }
+      : {}),
+    ...(guarantee?.DeliveryByTime ? { deliveryByTime: guarantee.DeliveryByTime } : {}),
+  };
+}
+
+const UPS_WEIGHT_UNITS: Record<string, WeightUnit> = { LBS: "LB", KGS: "KG" };
+
+/**
+ * Actual weight is the sum of the rated package weights, billable weight the
+ * shipment BillingWeight. UPS does not report dimensional weight.
+ */
+function mapWeights(shipment: UpsRatedShipment): QuoteWeights | undefined {
+  const billing = shipment.BillingWeight;
+  // Package weights come back in the unit we sent them in, which is always pounds
+  const billingUnit = UPS_WEIGHT_UNITS[billing?.UnitOfMeasurement?.Code ?? "LBS"];
+  const billable = Number.parseFloat(billing?.Weight ?? "");
+  const packageWeights = toArray(shipment.RatedPackage).map((p) =>
+    Number.parseFloat(p.Weight ?? "")
   );
-  const breakdown =
-    itemized.length > 0 || first.TotalCharges
-      ? {
-          basePrice: parseAmount(first.TotalCharges),
-          fuelSurcharge: fuelItem
-            ? parseAmount({ MonetaryValue: fuelItem.MonetaryValue })
-            : undefined,
-          other: first.NegotiatedRateCharges?.TotalCharge
-            ? parseAmount(first.NegotiatedRateCharges.TotalCharge)
-            : undefined,
-        }
-      : undefined;
+  const actual = packageWeights.reduce((sum, w) => sum + w, 0);
+
+  const weights: QuoteWeights = {
+    ...(packageWeights.length > 0 && Number.isFinite(actual)
+      ? { actual: { value: actual, unit: "LB" as const } }
+      : {}),
+    ...(billingUnit && Number.isFinite(billable)
+      ? { billable: { value: billable, unit: billingUnit } }
+      : {}),
+  };
+  return weights.actual || weights.billable ? weights : undefined;
+}
+
+function toWarnings(alerts: UpsAlert | UpsAlert[] | undefined): RateWarning[] {
+  return toArray(alerts).map((alert) => ({ code: alert.Code, message: alert.Description }));
+}
+
+function mapRatedShipmentToQuote(
+  shipment: UpsRatedShipment,
+  responseWarnings: RateWarning[]
+): RateQuote {
+  const totalCharges = shipment.NegotiatedRateCharges?.TotalCharge ?? shipment.TotalCharges;
+  const totalPrice = parseAmount(totalCharges);
+  const currency = totalCharges.CurrencyCode;
+  const ratedPackages = toArray(shipment.RatedPackage);
+  // UPS often repeats a response-level alert on each rated shipment
+  const warnings = [...responseWarnings, ...toWarnings(shipment.RatedShipmentAlert)].filter(
+    (warning, i, all) =>
+      all.findIndex((w) => w.code === warning.code && w.message === warning.message) === i
+  );
+
+  const serviceLevel = upsServiceLevel(shipment.Service.Code);
+  const weights = mapWeights(shipment);
 
   return {
-    serviceCode: first.Service?.Code ?? "ups",
-    serviceName: first.Service?.Description ?? "UPS",
+    serviceCode: shipment.Service.Code,
+    serviceName: shipment.Service.Description ?? "UPS",
+    ...(serviceLevel ? { serviceLevel } : {}),
     totalPrice,
     currency,
-    breakdown,
+    ...mapTransit(shipment),
+    breakdown: mapBreakdown(shipment),
+    ...(weights ? { weights } : {}),
+    ...(ratedPackages.length > 0
+      ? { packageRates: ratedPackages.map((p) => mapRatedPackage(p, currency)) }
+      : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
   };
 }
+
+/**
+ * One "path: message" line per schema issue. For fields UPS sends as either an
+ * object or an array, reports why the matching shape failed rather than just
+ * "Invalid input".
+ */
+function describeIssues(issues: z.core.$ZodIssue[], basePath: PropertyKey[] = []): string[] {
+  return issues.flatMap((issue) => {
+    const path = [...basePath, ...issue.path];
+    if (issue.code === "invalid_union") {
+      const isShapeMismatch = (e: z.core.$ZodIssue) =>
+        e.code === "invalid_type" && e.path.length === 0;
+      const branch = issue.errors.find((errors) => !errors.some(isShapeMismatch));
+      if (branch) return describeIssues(branch, path);
+    }
+    return [`${path.map(String).join(".")}: ${issue.message}`];
+  });
+}
+
+/**
+ * Validates a UPS rate response and maps it to one quote per rated service.
+ * A "Rate" response yields a single quote, a "Shop" response one per service.
+ * UPS alerts become warnings on every quote they apply to.
+ * Throws CarrierResponseError for a malformed body, a failed ResponseStatus or
+ * a response without rated shipments, rather than inventing a price.
+ */
+export function mapUpsRateResponseToQuotes(res: unknown): RateQuote[] {
+  const parsed = UpsRateResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    const issues = describeIssues(parsed.error.issues);
+    throw new CarrierResponseError("Malformed UPS rate response", "UPS", issues, res);
+  }
+
+  const { Response, RatedShipment } = parsed.data.RateResponse;
+  const status = Response?.ResponseStatus;
+  if (status && status.Code !== "1") {
+    const description = status.Description ?? `status ${status.Code}`;
+    throw new CarrierResponseError(
+      `UPS rate request unsuccessful: ${description}`,
+      "UPS",
+      [`ResponseStatus.Code: expected "1", received "${status.Code}"`],
+      res
+    );
+  }
+
+  const shipments = toArray(RatedShipment);
+  if (shipments.length === 0) {
+    throw new CarrierResponseError(
+      "UPS rate response contains no rated shipments",
+      "UPS",
+      ["RateResponse.RatedShipment: missing or empty"],
+      res
+    );
+  }
+
+  const warnings = toWarnings(Response?.Alert);
+  return shipments.map((shipment) => mapRatedShipmentToQuote(shipment, warnings));
+}
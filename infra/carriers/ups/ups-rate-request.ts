@@ -1,9 +1,10 @@
 export interface UpsAddress {
   AddressLine: string[];
   City: string;
-  StateProvinceCode: string;
-  PostalCode: string;
+  StateProvinceCode?: string;
+  PostalCode?: string; // Omitted for countries without postal codes
   CountryCode: string;
+  ResidentialAddressIndicator?: ""; // Presence marks a residential address
 }
 
 export interface UpsTransactionReference {
@@ -12,9 +13,16 @@ export interface UpsTransactionReference {
 }
 
 export interface UpsRequest {
+  RequestOption?: UpsRequestOption;
   TransactionReference?: UpsTransactionReference;
 }
 
+/**
+ * "Rate" prices the single requested service; "Shop" returns every service
+ * available for the shipment. The "timeintransit" variants add delivery estimates.
+ */
+export type UpsRequestOption = "Rate" | "Shop" | "Ratetimeintransit" | "Shoptimeintransit";
+
 export interface UpsParty {
   Name: string;
   Address: UpsAddress;
@@ -29,12 +37,18 @@ export interface UpsBillShipper {
 }
 
 export interface UpsShipmentCharge {
-  Type: string;
+  Type: string; // "01" = transportation, "02" = duties and taxes
   BillShipper: UpsBillShipper;
 }
 
 export interface UpsPaymentDetails {
-  ShipmentCharge: UpsShipmentCharge;
+  ShipmentCharge: UpsShipmentCharge[];
+}
+
+// Value of the goods, for international shipments
+export interface UpsInvoiceLineTotal {
+  CurrencyCode: string;
+  MonetaryValue: string;
 }
 
 export interface UpsService {
@@ -69,11 +83,47 @@ export interface UpsPackagingType {
   Description?: string;
 }
 
+/**
+ * Delivery confirmation type. Package level (US domestic): "2" = signature,
+ * "3" = adult signature. Shipment level (international): "1" = signature,
+ * "2" = adult signature.
+ */
+export interface UpsDeliveryConfirmation {
+  DCISType: string;
+}
+
+export interface UpsDeclaredValue {
+  CurrencyCode: string;
+  MonetaryValue: string;
+}
+
+export interface UpsPackageServiceOptions {
+  DeliveryConfirmation?: UpsDeliveryConfirmation;
+  DeclaredValue?: UpsDeclaredValue;
+}
+
+export interface UpsShipmentServiceOptions {
+  SaturdayDeliveryIndicator?: "";
+  DeliveryConfirmation?: UpsDeliveryConfirmation;
+}
+
 export interface UpsPackage {
   SimpleRate?: UpsSimpleRate;
   PackagingType: UpsPackagingType;
-  Dimensions: UpsDimensions;
+  Dimensions?: UpsDimensions;
   PackageWeight: UpsPackageWeight;
+  PackageServiceOptions?: UpsPackageServiceOptions;
+}
+
+/** "02" = documents only, "03" = non-documents */
+export type UpsPackageBillType = "02" | "03";
+
+export interface UpsDeliveryTimeInformation {
+  PackageBillType: UpsPackageBillType;
+  Pickup?: {
+    Date: string; // YYYYMMDD
+    Time?: string; // HHMM
+  };
 }
 
 export interface UpsShipment {
@@ -81,9 +131,14 @@ export interface UpsShipment {
   ShipTo: UpsParty;
   ShipFrom: UpsParty;
   PaymentDetails: UpsPaymentDetails;
-  Service: UpsService;
+  Service?: UpsService;
+  ShipmentServiceOptions?: UpsShipmentServiceOptions;
+  InvoiceLineTotal?: UpsInvoiceLineTotal;
   NumOfPieces: string;
-  Package: UpsPackage;
+  Package: UpsPackage[];
+  // Required by the time-in-transit request options
+  DeliveryTimeInformation?: UpsDeliveryTimeInformation;
+  ShipmentTotalWeight?: UpsPackageWeight;
 }
 
 export interface UpsRateRequest {
@@ -96,9 +151,23 @@ export interface UpsRateRequestBody {
 }
 
 export interface UpsAddressInput {
-  postalCode: string;
+  postalCode?: string;
   city?: string;
   stateProvinceCode?: string;
-  countryCode?: string;
+  countryCode: string;
   addressLine?: string[];
 }
+
+export interface UpsTimeInTransitInput {
+  pickupDate: string; // YYYYMMDD
+  packageBillType: UpsPackageBillType;
+}
+
+export interface UpsPackageInput {
+  weightLbs: number;
+  lengthIn?: number;
+  widthIn?: number;
+  heightIn?: number;
+  packagingTypeCode?: string;
+  simpleRateCode?: string; // Simple Rate size; only set when the caller asked for Simple Rate
+}
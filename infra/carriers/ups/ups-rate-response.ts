@@ -1,26 +1,124 @@
-export interface UpsCharges {
-  CurrencyCode?: string;
-  MonetaryValue?: string;
-}
+import { z } from "zod";
 
-export interface UpsService {
-  Code?: string;
-  Description?: string;
-}
+// UPS sends amounts as decimal strings, e.g. "25.50"
+const MonetaryValueSchema = z.string().regex(/^-?\d+(\.\d+)?$/, "Expected a decimal amount");
 
-export interface UpsRatedShipment {
-  Service?: UpsService;
-  TotalCharges?: UpsCharges;
-  NegotiatedRateCharges?: {
-    ItemizedCharges?: Array<{ Code?: string; Description?: string; MonetaryValue?: string }>;
-    TotalCharge?: UpsCharges;
-  };
-  BillingWeight?: { Weight?: string; UnitOfMeasurement?: { Code?: string } };
+// Single entries arrive as an object, several as an array
+function oneOrMany<T extends z.ZodType>(schema: T) {
+  return z.union([schema, z.array(schema)]);
 }
 
-export interface UpsRateResponse {
-  RateResponse?: {
-    Response?: { ResponseStatus?: { Code?: string; Description?: string } };
-    RatedShipment?: UpsRatedShipment | UpsRatedShipment[];
-  };
-}
+export const UpsChargesSchema = z.object({
+  CurrencyCode: z.string().optional(),
+  MonetaryValue: MonetaryValueSchema.optional(),
+});
+
+// Charges a quote is priced from must carry both an amount and a currency
+const UpsPricedChargesSchema = z.object({
+  CurrencyCode: z.string().length(3),
+  MonetaryValue: MonetaryValueSchema,
+});
+
+// Accessorial surcharges; UPS includes them in TransportationCharges
+export const UpsItemizedChargeSchema = z.object({
+  Code: z.string(),
+  Description: z.string().optional(),
+  CurrencyCode: z.string().optional(),
+  MonetaryValue: MonetaryValueSchema,
+  SubType: z.string().optional(),
+});
+
+export const UpsAlertSchema = z.object({
+  Code: z.string(),
+  Description: z.string(),
+});
+
+const UpsServiceSchema = z.object({
+  Code: z.string().min(1),
+  Description: z.string().optional(),
+});
+
+const UpsBillingWeightSchema = z.object({
+  Weight: z.string().optional(),
+  UnitOfMeasurement: z.object({ Code: z.string().optional() }).optional(),
+});
+
+const DigitsSchema = z.string().regex(/^\d+$/, "Expected a whole number");
+
+// Present only for services UPS guarantees
+const UpsGuaranteedDeliverySchema = z.object({
+  BusinessDaysInTransit: DigitsSchema.optional(),
+  DeliveryByTime: z.string().optional(),
+});
+
+// Returned for the time-in-transit request options
+const UpsTimeInTransitSchema = z.object({
+  PickupDate: z.string().optional(),
+  PackageBillType: z.string().optional(),
+  ServiceSummary: z
+    .object({
+      // Present (usually empty) when the service is guaranteed
+      GuaranteedIndicator: z.string().optional(),
+      EstimatedArrival: z
+        .object({
+          Arrival: z
+            .object({
+              Date: z.string().regex(/^\d{8}$/, "Expected YYYYMMDD"),
+              Time: z.string().regex(/^\d{4}(\d{2})?$/, "Expected HHMM or HHMMSS").optional(),
+            })
+            .optional(),
+          BusinessDaysInTransit: DigitsSchema.optional(),
+          DayOfWeek: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+export const UpsRatedPackageSchema = z.object({
+  TransportationCharges: UpsChargesSchema.optional(),
+  ServiceOptionsCharges: UpsChargesSchema.optional(),
+  ItemizedCharges: oneOrMany(UpsItemizedChargeSchema).optional(),
+  TotalCharges: UpsChargesSchema.optional(),
+  Weight: z.string().optional(),
+  BillingWeight: UpsBillingWeightSchema.optional(),
+});
+
+export const UpsRatedShipmentSchema = z.object({
+  Service: UpsServiceSchema,
+  RatedShipmentAlert: oneOrMany(UpsAlertSchema).optional(),
+  BaseServiceCharge: UpsChargesSchema.optional(),
+  TransportationCharges: UpsChargesSchema.optional(),
+  ServiceOptionsCharges: UpsChargesSchema.optional(),
+  ItemizedCharges: oneOrMany(UpsItemizedChargeSchema).optional(),
+  TotalCharges: UpsPricedChargesSchema,
+  NegotiatedRateCharges: z
+    .object({
+      ItemizedCharges: oneOrMany(UpsItemizedChargeSchema).optional(),
+      TotalCharge: UpsPricedChargesSchema.optional(),
+    })
+    .optional(),
+  BillingWeight: UpsBillingWeightSchema.optional(),
+  RatedPackage: oneOrMany(UpsRatedPackageSchema).optional(),
+  GuaranteedDelivery: UpsGuaranteedDeliverySchema.optional(),
+  TimeInTransit: UpsTimeInTransitSchema.optional(),
+});
+
+export const UpsRateResponseSchema = z.object({
+  RateResponse: z.object({
+    Response: z
+      .object({
+        ResponseStatus: z.object({ Code: z.string(), Description: z.string().optional() }),
+        Alert: oneOrMany(UpsAlertSchema).optional(),
+      })
+      .optional(),
+    RatedShipment: oneOrMany(UpsRatedShipmentSchema).optional(),
+  }),
+});
+
+export type UpsCharges = z.infer<typeof UpsChargesSchema>;
+export type UpsItemizedCharge = z.infer<typeof UpsItemizedChargeSchema>;
+export type UpsAlert = z.infer<typeof UpsAlertSchema>;
+export type UpsRatedPackage = z.infer<typeof UpsRatedPackageSchema>;
+export type UpsRatedShipment = z.infer<typeof UpsRatedShipmentSchema>;
+export type UpsRateResponse = z.infer<typeof UpsRateResponseSchema>;
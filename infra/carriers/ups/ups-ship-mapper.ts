@@ -0,0 +1,143 @@
+import type {
+  LabelFormat,
+  LabelResponse,
+  VoidShipmentResult,
+} from "@/carriers/carrier.interface.js";
+import { CarrierResponseError } from "@/errors/carrier-errors.js";
+import type { UpsAddressInput, UpsPackageInput } from "./ups-rate-request.js";
+import type {
+  UpsLabelSpecification,
+  UpsShipParty,
+  UpsShipRequestBody,
+} from "./ups-ship-request.js";
+import type { UpsShipResponse, UpsVoidResponse } from "./ups-ship-response.js";
+import { toAddress, toArray, toDimensions, toPackageWeight } from "./ups-mapper.js";
+
+export interface UpsShipPartyInput {
+  name: string;
+  phone?: string;
+  address: UpsAddressInput;
+}
+
+function toShipParty(party: UpsShipPartyInput): UpsShipParty {
+  return {
+    Name: party.name,
+    ...(party.phone ? { Phone: { Number: party.phone } } : {}),
+    Address: toAddress(party.address),
+  };
+}
+
+function toLabelSpecification(format: LabelFormat): UpsLabelSpecification {
+  // Thermal formats need a stock size; image formats are always 4x6
+  return format === "ZPL"
+    ? { LabelImageFormat: { Code: "ZPL" }, LabelStockSize: { Height: "6", Width: "4" } }
+    : { LabelImageFormat: { Code: format } };
+}
+
+export function buildUpsShipRequestBody(options: {
+  shipperNumber: string;
+  shipper: UpsShipPartyInput;
+  shipTo: UpsShipPartyInput;
+  packages: UpsPackageInput[];
+  serviceCode?: string;
+  labelFormat?: LabelFormat;
+}): UpsShipRequestBody {
+  const { shipperNumber, shipper, shipTo, packages } = options;
+  const serviceCode = options.serviceCode ?? "03";
+  const labelFormat = options.labelFormat ?? "GIF";
+
+  return {
+    ShipmentRequest: {
+      Request: {
+        RequestOption: "nonvalidate",
+        TransactionReference: {
+          CustomerContext: "CustomerContext",
+        },
+      },
+      Shipment: {
+        Shipper: { ...toShipParty(shipper), ShipperNumber: shipperNumber },
+        ShipTo: toShipParty(shipTo),
+        ShipFrom: toShipParty(shipper),
+        PaymentInformation: {
+          ShipmentCharge: [{ Type: "01", BillShipper: { AccountNumber: shipperNumber } }],
+        },
+        Service: { Code: serviceCode },
+        Package: packages.map((p) => {
+          const dimensions = toDimensions(p);
+          return {
+            // Must match the rate request, or the label is billed at the standard rate
+            ...(p.simpleRateCode ? { SimpleRate: { Code: p.simpleRateCode } } : {}),
+            Packaging: { Code: p.packagingTypeCode ?? "02" },
+            ...(dimensions ? { Dimensions: dimensions } : {}),
+            PackageWeight: toPackageWeight(p),
+          };
+        }),
+      },
+      LabelSpecification: toLabelSpecification(labelFormat),
+    },
+  };
+}
+
+/**
+ * Maps a UPS ship response to one label per package.
+ * The billed cost prefers negotiated charges, like rate quotes.
+ * Throws CarrierResponseError when a label image or the charges are missing,
+ * rather than reporting a shipment with nothing to print or no cost.
+ */
+export function mapUpsShipResponseToLabel(
+  res: UpsShipResponse,
+  labelFormat: LabelFormat
+): LabelResponse {
+  const results = res.ShipmentResponse?.ShipmentResults;
+  const trackingNumber = results?.ShipmentIdentificationNumber;
+  const packageResults = toArray(results?.PackageResults);
+
+  if (!trackingNumber || packageResults.length === 0) {
+    throw new CarrierResponseError(
+      "Invalid UPS ship response: missing shipment results",
+      "UPS",
+      ["ShipmentResponse.ShipmentResults: missing tracking number or package results"],
+      res
+    );
+  }
+
+  const totalCharges =
+    results.NegotiatedRateCharges?.TotalCharge ?? results.ShipmentCharges?.TotalCharges;
+  const cost = Number.parseFloat(totalCharges?.MonetaryValue ?? "");
+  const issues = [
+    ...packageResults.flatMap((p, i) =>
+      p.ShippingLabel?.GraphicImage
+        ? []
+        : [`ShipmentResults.PackageResults.${i}.ShippingLabel.GraphicImage: missing`]
+    ),
+    ...(Number.isFinite(cost) && totalCharges?.CurrencyCode
+      ? []
+      : ["ShipmentResults.ShipmentCharges.TotalCharges: missing"]),
+  ];
+  if (issues.length > 0) {
+    throw new CarrierResponseError("Invalid UPS ship response", "UPS", issues, res);
+  }
+
+  return {
+    trackingNumber,
+    labelFormat,
+    labels: packageResults.map((p) => ({
+      trackingNumber: p.TrackingNumber ?? trackingNumber,
+      labelData: p.ShippingLabel!.GraphicImage!,
+    })),
+    cost,
+    currency: totalCharges!.CurrencyCode!,
+  };
+}
+
+export function mapUpsVoidResponse(
+  trackingNumber: string,
+  res: UpsVoidResponse
+): VoidShipmentResult {
+  const status = res.VoidShipmentResponse?.SummaryResult?.Status;
+  return {
+    trackingNumber,
+    voided: status?.Code === "1",
+    status: status?.Description,
+  };
+}
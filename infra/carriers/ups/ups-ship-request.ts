@@ -0,0 +1,62 @@
+import type {
+  UpsAddress,
+  UpsDimensions,
+  UpsPackageWeight,
+  UpsService,
+  UpsSimpleRate,
+  UpsTransactionReference,
+} from "./ups-rate-request.js";
+
+export interface UpsPhone {
+  Number: string;
+}
+
+export interface UpsShipParty {
+  Name: string;
+  Phone?: UpsPhone;
+  Address: UpsAddress;
+}
+
+export interface UpsShipShipper extends UpsShipParty {
+  ShipperNumber: string;
+}
+
+export interface UpsPaymentInformation {
+  ShipmentCharge: Array<{
+    Type: string;
+    BillShipper: { AccountNumber: string };
+  }>;
+}
+
+export interface UpsShipPackage {
+  SimpleRate?: UpsSimpleRate;
+  Packaging: { Code: string; Description?: string };
+  Dimensions?: UpsDimensions;
+  PackageWeight: UpsPackageWeight;
+}
+
+export interface UpsShipShipment {
+  Description?: string;
+  Shipper: UpsShipShipper;
+  ShipTo: UpsShipParty;
+  ShipFrom: UpsShipParty;
+  PaymentInformation: UpsPaymentInformation;
+  Service: UpsService;
+  Package: UpsShipPackage[];
+}
+
+export interface UpsLabelSpecification {
+  LabelImageFormat: { Code: string; Description?: string };
+  LabelStockSize?: { Height: string; Width: string };
+}
+
+export interface UpsShipRequestBody {
+  ShipmentRequest: {
+    Request: {
+      RequestOption: "validate" | "nonvalidate";
+      TransactionReference?: UpsTransactionReference;
+    };
+    Shipment: UpsShipShipment;
+    LabelSpecification: UpsLabelSpecification;
+  };
+}
@@ -0,0 +1,37 @@
+import type { UpsCharges } from "./ups-rate-response.js";
+
+export interface UpsResponseStatus {
+  Code?: string;
+  Description?: string;
+}
+
+export interface UpsPackageResult {
+  TrackingNumber?: string;
+  ShippingLabel?: {
+    ImageFormat?: { Code?: string; Description?: string };
+    GraphicImage?: string;
+  };
+}
+
+export interface UpsShipResponse {
+  ShipmentResponse?: {
+    Response?: { ResponseStatus?: UpsResponseStatus };
+    ShipmentResults?: {
+      ShipmentCharges?: {
+        TransportationCharges?: UpsCharges;
+        ServiceOptionsCharges?: UpsCharges;
+        TotalCharges?: UpsCharges;
+      };
+      NegotiatedRateCharges?: { TotalCharge?: UpsCharges };
+      ShipmentIdentificationNumber?: string;
+      PackageResults?: UpsPackageResult | UpsPackageResult[];
+    };
+  };
+}
+
+export interface UpsVoidResponse {
+  VoidShipmentResponse?: {
+    Response?: { ResponseStatus?: UpsResponseStatus };
+    SummaryResult?: { Status?: UpsResponseStatus };
+  };
+}
@@ -0,0 +1,105 @@
+import type { TrackingEvent, TrackingInfo } from "@/carriers/carrier.interface.js";
+import type { TrackingStatus } from "@/models/tracking.js";
+import type {
+  UpsTrackActivity,
+  UpsTrackAddress,
+  UpsTrackResponse,
+  UpsTrackStatus,
+} from "./ups-track-response.js";
+
+const OUT_FOR_DELIVERY_CODES = new Set(["OT", "OF"]);
+
+// Scheduled and rescheduled delivery dates; "DEL" is the actual delivery
+const ESTIMATED_DELIVERY_TYPES = new Set(["SDD", "RDD"]);
+
+export function mapUpsTrackStatus(status: UpsTrackStatus | undefined): TrackingStatus {
+  switch (status?.type) {
+    case "M":
+      return "PRE_TRANSIT";
+    case "P":
+      return "IN_TRANSIT";
+    case "I":
+      return OUT_FOR_DELIVERY_CODES.has(status.code ?? "") ||
+        status.description?.toLowerCase().includes("out for delivery")
+        ? "OUT_FOR_DELIVERY"
+        : "IN_TRANSIT";
+    case "O":
+      return "OUT_FOR_DELIVERY";
+    case "D":
+      return "DELIVERED";
+    case "X":
+      return "EXCEPTION";
+    case "RS":
+      return "RETURNED";
+    default:
+      return "UNKNOWN";
+  }
+}
+
+/** Formats a UPS "YYYYMMDD" date as "YYYY-MM-DD". */
+function formatDate(date: string): string {
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+/** Formats a UPS "HHMMSS" time as "HH:MM:SS". */
+function formatTime(time: string): string {
+  return `${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}`;
+}
+
+function toTimestamp(activity: UpsTrackActivity): string {
+  if (activity.gmtDate && activity.gmtTime) {
+    return `${formatDate(activity.gmtDate)}T${activity.gmtTime}Z`;
+  }
+  if (!activity.date) return "";
+  return activity.time
+    ? `${formatDate(activity.date)}T${formatTime(activity.time)}`
+    : formatDate(activity.date);
+}
+
+function toLocation(address: UpsTrackAddress | undefined): string {
+  if (!address) return "";
+  return [address.city, address.stateProvince, address.countryCode ?? address.country]
+    .filter((part): part is string => Boolean(part))
+    .join(", ");
+}
+
+function mapActivity(activity: UpsTrackActivity): TrackingEvent {
+  return {
+    timestamp: toTimestamp(activity),
+    location: toLocation(activity.location?.address),
+    status: mapUpsTrackStatus(activity.status),
+    description: activity.status?.description?.trim() ?? "",
+  };
+}
+
+/**
+ * Maps a UPS Track API response to normalized tracking info.
+ * UPS lists activity newest first, so the latest event sets the overall status.
+ */
+export function mapUpsTrackResponse(
+  trackingNumber: string,
+  res: UpsTrackResponse
+): TrackingInfo {
+  const shipment = res.trackResponse?.shipment?.[0];
+  const pkg = shipment?.package?.[0];
+
+  if (!pkg) {
+    const warning = shipment?.warnings?.[0]?.message;
+    throw new Error(
+      `UPS tracking returned no package for ${trackingNumber}${warning ? `: ${warning}` : ""}`
+    );
+  }
+
+  const events = (pkg.activity ?? []).map(mapActivity);
+  const status = events[0]?.status ?? "UNKNOWN";
+  const estimated = pkg.deliveryDate?.find(
+    (d) => d.type && ESTIMATED_DELIVERY_TYPES.has(d.type) && d.date
+  );
+
+  return {
+    trackingNumber: pkg.trackingNumber ?? trackingNumber,
+    status,
+    events,
+    estimatedDelivery: estimated?.date ? formatDate(estimated.date) : undefined,
+  };
+}
@@ -0,0 +1,47 @@
+export interface UpsTrackAddress {
+  city?: string;
+  stateProvince?: string;
+  postalCode?: string;
+  countryCode?: string;
+  country?: string;
+}
+
+export interface UpsTrackStatus {
+  type?: string;
+  description?: string;
+  code?: string;
+  statusCode?: string;
+}
+
+export interface UpsTrackActivity {
+  location?: { address?: UpsTrackAddress };
+  status?: UpsTrackStatus;
+  date?: string;
+  time?: string;
+  gmtDate?: string;
+  gmtTime?: string;
+  gmtOffset?: string;
+}
+
+export interface UpsTrackDeliveryDate {
+  type?: string;
+  date?: string;
+}
+
+export interface UpsTrackPackage {
+  trackingNumber?: string;
+  deliveryDate?: UpsTrackDeliveryDate[];
+  activity?: UpsTrackActivity[];
+}
+
+export interface UpsTrackShipment {
+  inquiryNumber?: string;
+  package?: UpsTrackPackage[];
+  warnings?: Array<{ code?: string; message?: string }>;
+}
+
+export interface UpsTrackResponse {
+  trackResponse?: {
+    shipment?: UpsTrackShipment[];
+  };
+}
@@ -0,0 +1,90 @@
+import type {
+  AddressCandidate,
+  AddressClassification,
+  AddressValidationResult,
+  AddressValidationStatus,
+} from "@/carriers/carrier.interface.js";
+import type { AddressInput } from "@/models/rate-request.js";
+import type { UpsXavRequestBody } from "./ups-xav-request.js";
+import type {
+  UpsAddressClassification,
+  UpsXavCandidate,
+  UpsXavResponse,
+} from "./ups-xav-response.js";
+import { toArray } from "./ups-mapper.js";
+
+const CLASSIFICATIONS: Record<string, AddressClassification> = {
+  "1": "COMMERCIAL",
+  "2": "RESIDENTIAL",
+};
+
+export function buildUpsXavRequestBody(address: AddressInput): UpsXavRequestBody {
+  const [primary, extended] = address.postalCode?.split("-") ?? [];
+  return {
+    XAVRequest: {
+      AddressKeyFormat: {
+        AddressLine: address.addressLine2
+          ? [address.addressLine1, address.addressLine2]
+          : [address.addressLine1],
+        PoliticalDivision2: address.city,
+        PoliticalDivision1: address.state,
+        ...(primary ? { PostcodePrimaryLow: primary.trim() } : {}),
+        ...(extended ? { PostcodeExtendedLow: extended.trim() } : {}),
+        CountryCode: address.country,
+      },
+    },
+  };
+}
+
+function mapClassification(c: UpsAddressClassification | undefined): AddressClassification {
+  return CLASSIFICATIONS[c?.Code ?? ""] ?? "UNKNOWN";
+}
+
+function mapCandidate(candidate: UpsXavCandidate): AddressCandidate {
+  const key = candidate.AddressKeyFormat ?? {};
+  const lines = toArray(key.AddressLine);
+  const postalCode =
+    key.PostcodePrimaryLow && key.PostcodeExtendedLow
+      ? `${key.PostcodePrimaryLow}-${key.PostcodeExtendedLow}`
+      : key.PostcodePrimaryLow;
+
+  // Fields UPS leaves out stay out, so they never fail validation as empty strings
+  return {
+    address: {
+      ...(lines[0] ? { addressLine1: lines[0] } : {}),
+      ...(lines.length > 1 ? { addressLine2: lines.slice(1).join(" ") } : {}),
+      ...(key.PoliticalDivision2 ? { city: key.PoliticalDivision2 } : {}),
+      ...(key.PoliticalDivision1 ? { state: key.PoliticalDivision1 } : {}),
+      ...(postalCode ? { postalCode } : {}),
+      ...(key.CountryCode ? { country: key.CountryCode } : {}),
+    },
+    classification: mapClassification(candidate.AddressClassification),
+  };
+}
+
+/**
+ * Maps a UPS XAV response. UPS signals the outcome through the presence of
+ * ValidAddressIndicator / AmbiguousAddressIndicator rather than their values.
+ */
+export function mapUpsXavResponse(res: UpsXavResponse): AddressValidationResult {
+  const xav = res.XAVResponse ?? {};
+  const candidates = toArray(xav.Candidate).map(mapCandidate);
+
+  let status: AddressValidationStatus = "INVALID";
+  if (xav.ValidAddressIndicator !== undefined) status = "VALID";
+  else if (xav.AmbiguousAddressIndicator !== undefined) status = "AMBIGUOUS";
+
+  const classification =
+    xav.AddressClassification !== undefined
+      ? mapClassification(xav.AddressClassification)
+      : candidates[0]?.classification ?? "UNKNOWN";
+
+  return {
+    status,
+    isValid: status === "VALID",
+    classification,
+    candidates,
+    suggestedAddress: candidates[0]?.address,
+    ...(status === "INVALID" ? { errors: ["No matching address found"] } : {}),
+  };
+}
@@ -0,0 +1,15 @@
+export interface UpsAddressKeyFormat {
+  ConsigneeName?: string;
+  AddressLine: string[];
+  PoliticalDivision2?: string;
+  PoliticalDivision1?: string;
+  PostcodePrimaryLow?: string;
+  PostcodeExtendedLow?: string;
+  CountryCode: string;
+}
+
+export interface UpsXavRequestBody {
+  XAVRequest: {
+    AddressKeyFormat: UpsAddressKeyFormat;
+  };
+}
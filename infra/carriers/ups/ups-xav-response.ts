@@ -0,0 +1,30 @@
+export interface UpsAddressClassification {
+  Code?: string;
+  Description?: string;
+}
+
+export interface UpsXavCandidate {
+  AddressClassification?: UpsAddressClassification;
+  AddressKeyFormat?: {
+    AddressLine?: string | string[];
+    PoliticalDivision2?: string;
+    PoliticalDivision1?: string;
+    PostcodePrimaryLow?: string;
+    PostcodeExtendedLow?: string;
+    CountryCode?: string;
+  };
+}
+
+/**
+ * The indicator fields are empty strings whose presence carries the meaning.
+ */
+export interface UpsXavResponse {
+  XAVResponse?: {
+    Response?: { ResponseStatus?: { Code?: string; Description?: string } };
+    ValidAddressIndicator?: string;
+    AmbiguousAddressIndicator?: string;
+    NoCandidatesIndicator?: string;
+    AddressClassification?: UpsAddressClassification;
+    Candidate?: UpsXavCandidate | UpsXavCandidate[];
+  };
+}
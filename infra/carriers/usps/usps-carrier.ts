@@ -0,0 +1,197 @@
+import type {
+  CarrierCallOptions,
+  IRateProvider,
+  PackageLimits,
+} from "@/carriers/carrier.interface.js";
+import type { RateQuote } from "@/models/rate-quote.js";
+import type { RateRequestInput } from "@/models/rate-request.js";
+import {
+  UnsupportedRequestError,
+  UnsupportedServiceLevelError,
+} from "@/errors/carrier-errors.js";
+import {
+  USPS_DOMESTIC_MAIL_CLASSES,
+  USPS_INTERNATIONAL_MAIL_CLASSES,
+  buildUspsRateSearchBody,
+  isMailClassEligible,
+  isUspsDomestic,
+  isUspsInternational,
+  mapUspsRateResponsesToQuote,
+  toUspsMailClass,
+} from "./usps-mapper.js";
+import { type UspsPriceType, type UspsRateSearchBody } from "./usps-rate-request.js";
+import { type UspsRateSearchResponse } from "./usps-rate-response.js";
+import { FetchClient } from "../../http/fetch-client.js";
+import { TokenBucketLimiter, type TokenBucketOptions } from "../../http/rate-limiter.js";
+import { UspsOAuthManager, type UspsAuthConfig } from "../../auth/usps-auth.js";
+import { withUnauthorizedRetry } from "../../auth/unauthorized-retry.js";
+
+const DOMESTIC_RATE_PATH = "/prices/v3/base-rates/search";
+const INTERNATIONAL_RATE_PATH = "/international-prices/v3/base-rates/search";
+
+// Price searches in flight at once for one getRates call
+const DEFAULT_MAX_CONCURRENT_SEARCHES = 4;
+
+// USPS Ground Advantage maximums; other mail classes are smaller
+const PACKAGE_LIMITS: PackageLimits = {
+  maxWeightLbs: 70,
+  maxLengthPlusGirthIn: 130,
+  dimDivisor: 166,
+};
+
+export interface UspsCarrierConfig {
+  auth: UspsAuthConfig;
+  priceType?: UspsPriceType; // Defaults to COMMERCIAL
+  httpClient?: FetchClient;
+  // Client-side quota for API calls; ignored when httpClient is given
+  rateLimit?: Partial<TokenBucketOptions>;
+  authManager?: UspsOAuthManager;
+  maxConcurrentSearches?: number; // Defaults to DEFAULT_MAX_CONCURRENT_SEARCHES
+}
+
+/**
+ * USPS carrier implementation supporting domestic and international rate quotes.
+ * Without a requested service level the carrier quotes every default mail class
+ * the packages are eligible for, dropping classes USPS declines for the shipment.
+ * USPS prices one package and mail class per call; identical packages share a
+ * call, and at most `maxConcurrentSearches` calls run at once.
+ */
+export class UspsCarrier implements IRateProvider {
+  readonly name = "USPS";
+  readonly packageLimits = PACKAGE_LIMITS;
+  private readonly client: FetchClient;
+  private readonly authManager: UspsOAuthManager;
+
+  constructor(private readonly config: UspsCarrierConfig) {
+    this.client =
+      config.httpClient ??
+      new FetchClient({
+        baseUrl: config.auth.baseUrl,
+        defaultHeaders: { "Content-Type": "application/json" },
+        rateLimiter: config.rateLimit && new TokenBucketLimiter(this.name, config.rateLimit),
+      });
+    this.authManager = config.authManager ?? new UspsOAuthManager(config.auth);
+  }
+
+  async getRates(
+    request: RateRequestInput,
+    options: CarrierCallOptions = {}
+  ): Promise<RateQuote[]> {
+    const { origin, destination, packages, serviceLevel } = request;
+
+    if (packages.length === 0) {
+      throw new UnsupportedRequestError(this.name, "At least one package is required");
+    }
+    if (!isUspsDomestic(origin)) {
+      throw new UnsupportedRequestError(this.name, "USPS rates require a US origin");
+    }
+
+    const international = isUspsInternational(destination);
+    const requested = serviceLevel && toUspsMailClass(serviceLevel, international);
+    if (serviceLevel && !requested) {
+      throw new UnsupportedServiceLevelError(this.name, serviceLevel);
+    }
+    const candidates = requested
+      ? [requested]
+      : international
+        ? USPS_INTERNATIONAL_MAIL_CLASSES
+        : USPS_DOMESTIC_MAIL_CLASSES;
+    const mailClasses = candidates.filter((mailClass) =>
+      packages.every((pkg) => isMailClassEligible(pkg, mailClass))
+    );
+    if (mailClasses.length === 0) {
+      throw new UnsupportedRequestError(
+        this.name,
+        "No USPS mail class supports the requested packaging"
+      );
+    }
+
+    const path = international ? INTERNATIONAL_RATE_PATH : DOMESTIC_RATE_PATH;
+    const mailingDate = new Date().toISOString().slice(0, 10);
+    // One search per distinct body, keyed by its JSON; identical packages share it
+    const searches = new Map<string, UspsRateSearchBody>();
+    const searchKeys = mailClasses.map((mailClass) =>
+      packages.map((pkg) => {
+        const body = buildUspsRateSearchBody({
+          origin,
+          destination,
+          pkg,
+          mailClass,
+          priceType: this.config.priceType ?? "COMMERCIAL",
+          mailingDate,
+        });
+        const key = JSON.stringify(body);
+        searches.set(key, body);
+        return key;
+      })
+    );
+
+    const settled = await settleWithConcurrency(
+      [...searches.values()],
+      this.config.maxConcurrentSearches ?? DEFAULT_MAX_CONCURRENT_SEARCHES,
+      (body) => this.authorizedPost<UspsRateSearchResponse>(path, body, options.signal)
+    );
+    const results = new Map([...searches.keys()].map((key, i) => [key, settled[i]!]));
+
+    const quotes: RateQuote[] = [];
+    let firstError: unknown;
+    mailClasses.forEach((mailClass, i) => {
+      try {
+        const responses = searchKeys[i]!.map((key) => {
+          const result = results.get(key)!;
+          if (result.status === "rejected") throw result.reason;
+          return result.value;
+        });
+        quotes.push(mapUspsRateResponsesToQuote(mailClass, responses));
+      } catch (error) {
+        firstError ??= error;
+      }
+    });
+    if (quotes.length === 0) {
+      throw firstError;
+    }
+    return quotes;
+  }
+
+  private authorizedPost<T>(
+    path: string,
+    body: unknown,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    return withUnauthorizedRetry(
+      () => this.authManager.getAuthorizationHeader(),
+      (authorization) =>
+        this.client.post<T>(path, body, {
+          headers: { Authorization: authorization },
+          retry: true,
+          signal,
+        }),
+      () => this.authManager.clearCache()
+    );
+  }
+}
+
+/**
+ * Runs `run` over every item with at most `limit` calls in flight, settling
+ * each like Promise.allSettled. Calls start in item order.
+ */
+async function settleWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  run: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await run(items[index]!) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,246 @@
+import type { Charge, PackageRate, QuoteWeights, RateQuote } from "@/models/rate-quote.js";
+import { CarrierResponseError } from "@/errors/carrier-errors.js";
+import type {
+  AddressInput,
+  PackageInfo,
+  PackagingType,
+  ServiceLevel,
+} from "@/models/rate-request.js";
+import { toInches, toPounds } from "@/models/units.js";
+import { serviceLevelLookup, toServiceCode, type ServiceLevelCodes } from "../service-levels.js";
+import type { UspsPriceType, UspsRateSearchBody } from "./usps-rate-request.js";
+import type { UspsRate, UspsRateSearchResponse } from "./usps-rate-response.js";
+
+export const USPS_DOMESTIC_MAIL_CLASSES = [
+  "USPS_GROUND_ADVANTAGE",
+  "PRIORITY_MAIL",
+  "PRIORITY_MAIL_EXPRESS",
+];
+
+export const USPS_INTERNATIONAL_MAIL_CLASSES = [
+  "FIRST-CLASS_PACKAGE_INTERNATIONAL_SERVICE",
+  "PRIORITY_MAIL_INTERNATIONAL",
+  "PRIORITY_MAIL_EXPRESS_INTERNATIONAL",
+];
+
+const USPS_MAIL_CLASSES: ServiceLevelCodes = {
+  GROUND: { domestic: "USPS_GROUND_ADVANTAGE" },
+  TWO_DAY: { domestic: "PRIORITY_MAIL" }, // 1-3 business days
+  OVERNIGHT: { domestic: "PRIORITY_MAIL_EXPRESS" },
+  INTERNATIONAL_ECONOMY: { international: "PRIORITY_MAIL_INTERNATIONAL" },
+  INTERNATIONAL_EXPRESS: { international: "PRIORITY_MAIL_EXPRESS_INTERNATIONAL" },
+};
+
+const uspsServiceLevel = serviceLevelLookup(USPS_MAIL_CLASSES, {
+  "FIRST-CLASS_PACKAGE_INTERNATIONAL_SERVICE": "INTERNATIONAL_ECONOMY",
+  PARCEL_SELECT: "GROUND",
+});
+
+export function toUspsMailClass(level: ServiceLevel, international: boolean): string | undefined {
+  return toServiceCode(USPS_MAIL_CLASSES, level, international);
+}
+
+const MAIL_CLASS_NAMES: Record<string, string> = {
+  USPS_GROUND_ADVANTAGE: "USPS Ground Advantage",
+  PRIORITY_MAIL: "Priority Mail",
+  PRIORITY_MAIL_EXPRESS: "Priority Mail Express",
+  PARCEL_SELECT: "Parcel Select",
+  MEDIA_MAIL: "Media Mail",
+  LIBRARY_MAIL: "Library Mail",
+  "FIRST-CLASS_PACKAGE_INTERNATIONAL_SERVICE": "First-Class Package International Service",
+  PRIORITY_MAIL_INTERNATIONAL: "Priority Mail International",
+  PRIORITY_MAIL_EXPRESS_INTERNATIONAL: "Priority Mail Express International",
+};
+
+const PRIORITY_CLASSES = ["PRIORITY_MAIL", "PRIORITY_MAIL_INTERNATIONAL"];
+const PRIORITY_AND_EXPRESS_CLASSES = [
+  ...PRIORITY_CLASSES,
+  "PRIORITY_MAIL_EXPRESS",
+  "PRIORITY_MAIL_EXPRESS_INTERNATIONAL",
+];
+
+/**
+ * Flat-rate packaging, its USPS rate indicator and the mail classes that sell it.
+ */
+const FLAT_RATE_PACKAGING: Partial<
+  Record<PackagingType, { rateIndicator: string; mailClasses: string[] }>
+> = {
+  FLAT_RATE_ENVELOPE: { rateIndicator: "FE", mailClasses: PRIORITY_AND_EXPRESS_CLASSES },
+  PADDED_FLAT_RATE_ENVELOPE: { rateIndicator: "FP", mailClasses: PRIORITY_AND_EXPRESS_CLASSES },
+  SMALL_FLAT_RATE_BOX: { rateIndicator: "FS", mailClasses: PRIORITY_CLASSES },
+  MEDIUM_FLAT_RATE_BOX: { rateIndicator: "FB", mailClasses: PRIORITY_CLASSES },
+  LARGE_FLAT_RATE_BOX: { rateIndicator: "PL", mailClasses: PRIORITY_CLASSES },
+};
+
+// Single-piece pricing for everything that is not flat rate
+const SINGLE_PIECE = "SP";
+
+// The US, its territories and the Freely Associated States use ZIP codes and domestic mail
+const USPS_DOMESTIC_COUNTRIES = new Set([
+  "US", "PR", "VI", "GU", "AS", "MP", "UM", "FM", "MH", "PW",
+]);
+
+export function isUspsDomestic(address: AddressInput): boolean {
+  return USPS_DOMESTIC_COUNTRIES.has(address.country.toUpperCase());
+}
+
+export function isUspsInternational(destination: AddressInput): boolean {
+  return !isUspsDomestic(destination);
+}
+
+export function isMailClassEligible(pkg: PackageInfo, mailClass: string): boolean {
+  const flatRate = pkg.packagingType ? FLAT_RATE_PACKAGING[pkg.packagingType] : undefined;
+  return !flatRate || flatRate.mailClasses.includes(mailClass);
+}
+
+/**
+ * Builds a base-rates search for one package and mail class. USPS prices each
+ * package on its own, in pounds and inches like UPS.
+ */
+export function buildUspsRateSearchBody(options: {
+  origin: AddressInput;
+  destination: AddressInput;
+  pkg: PackageInfo;
+  mailClass: string;
+  priceType: UspsPriceType;
+  mailingDate: string;
+}): UspsRateSearchBody {
+  const { origin, destination, pkg, mailClass, priceType, mailingDate } = options;
+  const inches = toInches(pkg);
+  const flatRate = pkg.packagingType ? FLAT_RATE_PACKAGING[pkg.packagingType] : undefined;
+
+  const common = {
+    // Domestic USPS addresses always carry a ZIP code; only some foreign ones go without
+    originZIPCode: origin.postalCode!.slice(0, 5),
+    weight: toPounds(pkg),
+    length: inches?.length ?? 0,
+    width: inches?.width ?? 0,
+    height: inches?.height ?? 0,
+    mailClass,
+    processingCategory: "MACHINABLE",
+    rateIndicator: flatRate?.rateIndicator ?? SINGLE_PIECE,
+    destinationEntryFacilityType: "NONE",
+    priceType,
+    mailingDate,
+  };
+
+  return isUspsInternational(destination)
+    ? {
+        ...common,
+        destinationCountryCode: destination.country,
+        ...(destination.postalCode ? { foreignPostalCode: destination.postalCode } : {}),
+      }
+    : { ...common, destinationZIPCode: destination.postalCode!.slice(0, 5) };
+}
+
+function mapPackageRate(res: UspsRateSearchResponse): PackageRate {
+  const basePrice = (res.rates ?? []).reduce((sum, r) => sum + (r.price ?? 0), 0);
+  const fees = (res.rates ?? [])
+    .flatMap((r) => r.fees ?? [])
+    .reduce((sum, f) => sum + (f.price ?? 0), 0);
+  return {
+    totalPrice: res.totalBasePrice ?? basePrice + fees,
+    currency: "USD",
+    basePrice,
+    serviceOptionsPrice: fees,
+  };
+}
+
+/**
+ * Postage plus one charge per USPS fee (e.g. nonstandard length), summed over packages.
+ */
+function mapCharges(responses: UspsRateSearchResponse[], postage: number): Charge[] {
+  const fees = new Map<string, Charge>();
+  for (const fee of responses.flatMap((r) => r.rates ?? []).flatMap((r) => r.fees ?? [])) {
+    const key = fee.SKU ?? fee.name ?? "";
+    const existing = fees.get(key);
+    if (existing) {
+      existing.amount += fee.price ?? 0;
+    } else {
+      fees.set(key, {
+        type: "OTHER",
+        ...(fee.SKU ? { code: fee.SKU } : {}),
+        description: fee.name ?? "USPS fee",
+        amount: fee.price ?? 0,
+      });
+    }
+  }
+  return [
+    { type: "TRANSPORTATION", description: "Postage", amount: postage },
+    ...[...fees.values()].filter((c) => c.amount !== 0),
+  ];
+}
+
+/**
+ * USPS reports the rated (billable) weight and the dimensional weight in pounds
+ * per package; each is summed only when every package has it.
+ */
+function mapWeights(responses: UspsRateSearchResponse[]): QuoteWeights | undefined {
+  const rates = responses.map((res) => res.rates?.[0]);
+  const total = (pick: (rate: UspsRate) => number | undefined) => {
+    const values = rates.map((rate) => (rate ? pick(rate) : undefined));
+    if (values.length === 0 || values.some((v) => v === undefined)) return undefined;
+    return { value: values.reduce((sum: number, v) => sum + v!, 0), unit: "LB" as const };
+  };
+  const billable = total((rate) => rate.weight);
+  const dimensional = total((rate) => rate.dimWeight);
+  if (!billable && !dimensional) return undefined;
+  return {
+    ...(dimensional ? { dimensional } : {}),
+    ...(billable ? { billable } : {}),
+  };
+}
+
+// A response is priced when it has a total or every rate in it has a price
+function isPriced(res: UspsRateSearchResponse): boolean {
+  const rates = res.rates ?? [];
+  return (
+    res.totalBasePrice !== undefined ||
+    (rates.length > 0 && rates.every((rate) => rate.price !== undefined))
+  );
+}
+
+/**
+ * Combines the per-package responses for one mail class into a single quote.
+ * Throws CarrierResponseError when a package's response has no price, rather
+ * than quoting it as free.
+ */
+export function mapUspsRateResponsesToQuote(
+  mailClass: string,
+  responses: UspsRateSearchResponse[]
+): RateQuote {
+  const issues = responses.flatMap((res, i) =>
+    isPriced(res) ? [] : [`responses.${i}: no totalBasePrice or rate price`]
+  );
+  if (responses.length === 0 || issues.length > 0) {
+    throw new CarrierResponseError(
+      `USPS returned no price for ${mailClass}`,
+      "USPS",
+      responses.length === 0 ? ["responses: empty"] : issues,
+      responses
+    );
+  }
+  const packageRates = responses.map(mapPackageRate);
+  const sum = (pick: (p: PackageRate) => number | undefined) =>
+    packageRates.reduce((total, p) => total + (pick(p) ?? 0), 0);
+
+  const totalPrice = sum((p) => p.totalPrice);
+
+  const serviceLevel = uspsServiceLevel(mailClass);
+  const weights = mapWeights(responses);
+
+  return {
+    serviceCode: mailClass,
+    serviceName:
+      MAIL_CLASS_NAMES[mailClass] ?? responses[0]?.rates?.[0]?.description ?? "USPS",
+    ...(serviceLevel ? { serviceLevel } : {}),
+    totalPrice,
+    currency: "USD",
+    breakdown: {
+      publishedTotal: totalPrice,
+      charges: mapCharges(responses, sum((p) => p.basePrice)),
+    },
+    ...(weights ? { weights } : {}),
+    packageRates,
+  };
+}
@@ -0,0 +1,26 @@
+export type UspsPriceType = "RETAIL" | "COMMERCIAL" | "CONTRACT";
+
+interface UspsBaseRateSearch {
+  originZIPCode: string;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  mailClass: string;
+  processingCategory: string;
+  rateIndicator: string;
+  destinationEntryFacilityType: string;
+  priceType: UspsPriceType;
+  mailingDate: string;
+}
+
+export interface UspsDomesticRateSearchBody extends UspsBaseRateSearch {
+  destinationZIPCode: string;
+}
+
+export interface UspsInternationalRateSearchBody extends UspsBaseRateSearch {
+  destinationCountryCode: string;
+  foreignPostalCode?: string;
+}
+
+export type UspsRateSearchBody = UspsDomesticRateSearchBody | UspsInternationalRateSearchBody;
@@ -0,0 +1,22 @@
+export interface UspsFee {
+  name?: string;
+  SKU?: string;
+  price?: number;
+}
+
+export interface UspsRate {
+  SKU?: string;
+  description?: string;
+  priceType?: string;
+  price?: number;
+  weight?: number;
+  dimWeight?: number;
+  fees?: UspsFee[];
+  mailClass?: string;
+  zone?: string;
+}
+
+export interface UspsRateSearchResponse {
+  totalBasePrice?: number;
+  rates?: UspsRate[];
+}
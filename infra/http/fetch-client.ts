@@ -1,19 +1,61 @@
+import { TimeoutError } from "@/errors/carrier-errors.js";
+import type { RateLimiter } from "./rate-limiter.js";
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first; 1 disables retries
+  baseDelayMs: number; // Delay before the first retry, doubled on each further retry
+  maxDelayMs: number; // Upper bound for any single delay, including Retry-After
+  jitter: "full" | "none"; // "full" picks a random delay between 0 and the backoff
+  retryableStatuses: number[];
+  respectRetryAfter: boolean; // Wait at least as long as a Retry-After header asks
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  jitter: "full",
+  retryableStatuses: [408, 429, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
 export interface FetchClientConfig {
   baseUrl: string;
   defaultHeaders?: Record<string, string>;
+  // Per-attempt timeout; defaults to DEFAULT_TIMEOUT_MS, 0 disables it
+  timeoutMs?: number;
+  // Overrides for DEFAULT_RETRY_POLICY; false disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Every attempt, retries included, waits for quota from this limiter
+  rateLimiter?: RateLimiter;
 }
 
 export interface RequestOptions {
   headers?: Record<string, string>;
   query?: Record<string, string>;
+  /**
+   * Whether this call may be retried. Defaults to true for idempotent methods
+   * (GET, HEAD, OPTIONS, PUT, DELETE) and false otherwise; set it to true for
+   * POSTs that only read, such as rate quotes.
+   */
+  retry?: boolean;
+  /** Aborts the request, including pending retries; the abort reason is rethrown. */
+  signal?: AbortSignal;
+  /** Overrides the client's per-attempt timeout for this call. */
+  timeoutMs?: number;
 }
 
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
 export class FetchError extends Error {
   constructor(
     message: string,
     public readonly status: number,
     public readonly statusText: string,
-    public readonly body: string
+    public readonly body: string,
+    public readonly attempts: number = 1
   ) {
     super(message);
     this.name = "FetchError";
@@ -23,10 +65,19 @@ export class FetchError extends Error {
 export class FetchClient {
   private readonly baseUrl: string;
   private readonly defaultHeaders: Record<string, string>;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly timeoutMs: number;
+  private readonly rateLimiter?: RateLimiter;
 
   constructor(config: FetchClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, "");
     this.defaultHeaders = config.defaultHeaders ?? {};
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.rateLimiter = config.rateLimiter;
+    this.retryPolicy =
+      config.retry === false
+        ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+        : { ...DEFAULT_RETRY_POLICY, ...config.retry };
   }
 
   private buildUrl(pathOrUrl: string, query?: Record<string, string>): string {
@@ -45,7 +96,8 @@ export class FetchClient {
     pathOrUrl: string,
     options: RequestOptions & { body?: unknown } = {}
   ): Promise<T> {
-    const { headers = {}, query, body } = options;
+    const { headers = {}, query, body, signal } = options;
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
     const url = this.buildUrl(pathOrUrl, query);
     const mergedHeaders = this.mergeHeaders(headers);
 
@@ -60,31 +112,113 @@ export class FetchClient {
       }
     }
 
-    const res = await fetch(url, init);
-    const text = await res.text();
+    const retryable = options.retry ?? IDEMPOTENT_METHODS.has(method.toUpperCase());
+    const maxAttempts = retryable ? Math.max(1, this.retryPolicy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (this.rateLimiter) await this.rateLimiter.acquire(signal);
+      signal?.throwIfAborted();
 
-    if (!res.ok) {
-      throw new FetchError(
-        `Request failed: ${res.status} ${res.statusText}`,
-        res.status,
-        res.statusText,
-        text
-      );
+      let res: Response;
+      let text: string;
+      try {
+        ({ res, text } = await this.send(url, init, timeoutMs, signal));
+      } catch (error) {
+        // The caller gave up; never retry past their signal
+        if (signal?.aborted) throw error;
+        // fetch rejects with a TypeError when the connection fails or resets
+        const transient = error instanceof TypeError || error instanceof TimeoutError;
+        if (!transient) throw error;
+        if (attempt < maxAttempts) {
+          await sleep(this.backoffDelay(attempt), signal);
+          continue;
+        }
+        if (error instanceof TimeoutError) throw error;
+        throw Object.assign(
+          new FetchError(`Network error: ${error.message}`, 0, "", "", attempt),
+          { cause: error }
+        );
+      }
+
+      if (!res.ok) {
+        if (attempt < maxAttempts && this.retryPolicy.retryableStatuses.includes(res.status)) {
+          await sleep(this.retryDelay(attempt, res), signal);
+          continue;
+        }
+        throw new FetchError(
+          `Request failed: ${res.status} ${res.statusText}`,
+          res.status,
+          res.statusText,
+          text,
+          attempt
+        );
+      }
+
+      if (!text) return undefined as T;
+      try {
+        return JSON.parse(text) as T;
+      } catch {
+        throw new FetchError(
+          "Invalid JSON response",
+          res.status,
+          res.statusText,
+          text,
+          attempt
+        );
+      }
     }
+  }
+
+  /**
+   * One attempt, aborted by the caller's signal or the per-attempt timeout,
+   * whichever comes first. The body is read under the same deadline.
+   */
+  private async send(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal: AbortSignal | undefined
+  ): Promise<{ res: Response; text: string }> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs)
+              ),
+            timeoutMs
+          )
+        : undefined;
 
-    if (!text) return undefined as T;
     try {
-      return JSON.parse(text) as T;
-    } catch {
-      throw new FetchError(
-        "Invalid JSON response",
-        res.status,
-        res.statusText,
-        text
-      );
+      return await raceAbort(controller.signal, async () => {
+        const res = await fetch(url, { ...init, signal: controller.signal });
+        return { res, text: await res.text() };
+      });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
+  private backoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this.retryPolicy;
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return jitter === "full" ? Math.random() * backoff : backoff;
+  }
+
+  private retryDelay(attempt: number, res: Response): number {
+    const delay = this.backoffDelay(attempt);
+    if (!this.retryPolicy.respectRetryAfter) return delay;
+    const retryAfterMs = parseRetryAfter(res.headers?.get("Retry-After") ?? null);
+    return retryAfterMs === undefined
+      ? delay
+      : Math.min(this.retryPolicy.maxDelayMs, Math.max(delay, retryAfterMs));
+  }
+
   async get<T>(pathOrUrl: string, options: RequestOptions = {}): Promise<T> {
     return this.request<T>("GET", pathOrUrl, options);
   }
@@ -105,3 +239,46 @@ export class FetchClient {
     return this.request<T>("DELETE", pathOrUrl, options);
   }
 }
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const dateMs = Date.parse(value);
+  return Number.isNaN(dateMs) ? undefined : Math.max(0, dateMs - Date.now());
+}
+
+/**
+ * Settles with the abort reason as soon as the signal fires, even if the
+ * underlying work ignores the signal.
+ */
+function raceAbort<T>(signal: AbortSignal, run: () => Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    run()
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Resolves after `ms`, or rejects with the abort reason as soon as the signal fires.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,70 @@
+import { RateLimitedError } from "@/errors/carrier-errors.js";
+import { sleep } from "./fetch-client.js";
+
+export interface RateLimiter {
+  /**
+   * Resolves once the caller may send one request. Rejects with
+   * RateLimitedError when no quota is available within the allowed wait, or
+   * with the abort reason when the signal aborts while queued.
+   */
+  acquire(signal?: AbortSignal): Promise<void>;
+}
+
+export interface TokenBucketOptions {
+  requestsPerSecond: number; // Sustained rate; the bucket refills at this rate
+  burst: number; // Bucket capacity: requests allowed back to back after idling
+  maxWaitMs: number; // Longest a request may queue for quota; 0 fails fast
+}
+
+export const DEFAULT_TOKEN_BUCKET_OPTIONS: TokenBucketOptions = {
+  requestsPerSecond: 10,
+  burst: 10,
+  maxWaitMs: 1000,
+};
+
+/**
+ * Token bucket limiter. Requests beyond the burst queue in arrival order,
+ * each reserving the next token, as long as their wait fits in `maxWaitMs`.
+ */
+export class TokenBucketLimiter implements RateLimiter {
+  private readonly options: TokenBucketOptions;
+  private tokens: number; // Negative while requests are queued for future tokens
+  private refilledAtMs = Date.now();
+
+  constructor(
+    private readonly name: string,
+    options: Partial<TokenBucketOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_TOKEN_BUCKET_OPTIONS, ...options };
+    this.tokens = this.options.burst;
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return;
+    }
+
+    const waitMs = Math.ceil(((1 - this.tokens) / this.options.requestsPerSecond) * 1000);
+    if (waitMs > this.options.maxWaitMs) {
+      throw new RateLimitedError(this.name, waitMs);
+    }
+    this.tokens -= 1;
+    try {
+      await sleep(waitMs, signal);
+    } catch (error) {
+      // Give the reserved token back to whoever queues next
+      this.tokens += 1;
+      throw error;
+    }
+  }
+
+  private refill(): void {
+    const nowMs = Date.now();
+    const refilled = ((nowMs - this.refilledAtMs) / 1000) * this.options.requestsPerSecond;
+    this.tokens = Math.min(this.options.burst, this.tokens + refilled);
+    this.refilledAtMs = nowMs;
+  }
+}
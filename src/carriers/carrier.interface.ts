@@ -1,5 +1,6 @@
 import { RateQuote } from "../models/rate-quote.js";
-import type { RateRequestInput } from "../models/rate-request.js";
+import type { AddressInput, PackageInfo, RateRequestInput } from "../models/rate-request.js";
+import type { TrackingStatus } from "../models/tracking.js";
 
 /**
  * Base carrier interface - all carriers must implement this.
@@ -9,17 +10,41 @@ export interface ICarrier {
   readonly name: string;
 }
 
+/**
+ * Per-call options carriers pass through to their HTTP calls.
+ */
+export interface CarrierCallOptions {
+  /** Aborts the in-flight carrier requests, e.g. when a deadline passes. */
+  signal?: AbortSignal;
+}
+
+/**
+ * The largest package a carrier accepts, in pounds and inches, and how it
+ * turns package volume into dimensional weight.
+ */
+export interface PackageLimits {
+  maxWeightLbs: number; // Actual weight per package
+  maxLengthIn?: number; // Longest side
+  maxLengthPlusGirthIn?: number; // Longest side plus twice the other two
+  dimDivisor: number; // Cubic inches per pound of dimensional weight
+}
+
 /**
  * Rate shopping capability - carriers that provide shipping rates implement this.
+ * Returns one quote per service; a request without a service level may yield several.
  */
 export interface IRateProvider extends ICarrier {
-  getRates(request: RateRequestInput): Promise<RateQuote>;
+  /** Checked by RateService before calling the carrier; unchecked when absent. */
+  readonly packageLimits?: PackageLimits;
+  getRates(request: RateRequestInput, options?: CarrierCallOptions): Promise<RateQuote[]>;
 }
 
 /**
  * Shipment tracking capability - carriers that provide tracking implement this.
  */
 export interface ITrackingProvider extends ICarrier {
+  /** Whether the tracking number matches this carrier's format. */
+  canTrack(trackingNumber: string): boolean;
   track(trackingNumber: string): Promise<TrackingInfo>;
 }
 
@@ -35,12 +60,14 @@ export interface IAddressValidator extends ICarrier {
  */
 export interface ILabelProvider extends ICarrier {
   createLabel(shipment: ShipmentRequest): Promise<LabelResponse>;
+  /** Cancels a shipment created by createLabel, identified by its tracking number. */
+  voidShipment(trackingNumber: string): Promise<VoidShipmentResult>;
 }
 
 // Supporting types for new capabilities
 export interface TrackingInfo {
   trackingNumber: string;
-  status: string;
+  status: TrackingStatus;
   events: TrackingEvent[];
   estimatedDelivery?: string;
 }
@@ -48,46 +75,63 @@ export interface TrackingInfo {
 export interface TrackingEvent {
   timestamp: string;
   location: string;
-  status: string;
+  status: TrackingStatus;
   description: string;
 }
 
-export interface AddressInput {
-  addressLine1: string;
-  addressLine2?: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  country: string;
-}
+export type { AddressInput, PackageInfo };
 
-export interface PackageInfo {
-  weight: number;
-  weightUnit?: "LB" | "KG";
-  dimensions?: {
-    length: number;
-    width: number;
-    height: number;
-    unit: "IN" | "CM";
-  };
+export type AddressValidationStatus = "VALID" | "AMBIGUOUS" | "INVALID";
+
+export type AddressClassification = "RESIDENTIAL" | "COMMERCIAL" | "UNKNOWN";
+
+export interface AddressCandidate {
+  // Only the fields the carrier returned; spread it over the original address to requote
+  address: Partial<AddressInput>;
+  classification: AddressClassification;
 }
 
 export interface AddressValidationResult {
-  isValid: boolean;
-  suggestedAddress?: AddressInput;
+  status: AddressValidationStatus;
+  isValid: boolean; // status === "VALID"
+  classification: AddressClassification;
+  candidates: AddressCandidate[];
+  suggestedAddress?: Partial<AddressInput>; // Best candidate, when any
   errors?: string[];
 }
 
+export type LabelFormat = "GIF" | "PNG" | "ZPL";
+
+export interface ShipmentContact {
+  name: string;
+  phone?: string;
+}
+
 export interface ShipmentRequest {
   origin: AddressInput;
   destination: AddressInput;
   packages: PackageInfo[];
   serviceCode?: string;
+  labelFormat?: LabelFormat; // Defaults to GIF
+  shipper?: ShipmentContact;
+  recipient?: ShipmentContact;
 }
 
-export interface LabelResponse {
-  labelData: string; // Base64 encoded label
+export interface PackageLabel {
   trackingNumber: string;
+  labelData: string; // Base64 encoded label
+}
+
+export interface LabelResponse {
+  trackingNumber: string; // Shipment tracking number, used to void
+  labelFormat: LabelFormat;
+  labels: PackageLabel[]; // One per package, in request order
   cost: number;
   currency: string;
+}
+
+export interface VoidShipmentResult {
+  trackingNumber: string;
+  voided: boolean;
+  status?: string;
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+/**
+ * A carrier call, or a whole rate aggregation, did not finish before its deadline.
+ * Distinct from other failures so callers can show partial results instead.
+ */
+export class TimeoutError extends Error {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number
+  ) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * The carrier's circuit breaker is open after repeated failures, so the call
+ * was not attempted.
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly carrier: string,
+    public readonly retryAt: Date
+  ) {
+    super(`Circuit open for ${carrier}; next attempt allowed after ${retryAt.toISOString()}`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * A client-side rate limiter refused the call because the carrier's request
+ * quota would be exceeded, or the wait for quota was longer than allowed.
+ */
+export class RateLimitedError extends Error {
+  constructor(
+    public readonly limiter: string,
+    public readonly retryAfterMs: number
+  ) {
+    super(`Rate limit exceeded for ${limiter}; next request allowed in ${retryAfterMs}ms`);
+    this.name = "RateLimitedError";
+  }
+}
+
+/**
+ * The carrier does not offer the requested service level for the shipment's
+ * route, so no request was sent.
+ */
+export class UnsupportedServiceLevelError extends Error {
+  constructor(
+    public readonly carrier: string,
+    public readonly serviceLevel: string
+  ) {
+    super(`${carrier} does not offer service level ${serviceLevel} for this shipment`);
+    this.name = "UnsupportedServiceLevelError";
+  }
+}
+
+/**
+ * The carrier adapter cannot take the request as given, e.g. packaging the
+ * carrier does not sell or a route it does not serve, so no request was sent.
+ */
+export class UnsupportedRequestError extends Error {
+  constructor(
+    public readonly carrier: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "UnsupportedRequestError";
+  }
+}
+
+/**
+ * A package is outside the carrier's published limits, so no request was sent.
+ * `violations` lists every limit broken, one line per package and limit.
+ */
+export class PackageLimitExceededError extends Error {
+  constructor(
+    public readonly carrier: string,
+    public readonly violations: string[]
+  ) {
+    super(`${carrier} cannot take these packages: ${violations.join("; ")}`);
+    this.name = "PackageLimitExceededError";
+  }
+}
+
+/**
+ * The carrier answered with an error. Carrier adapters translate their error
+ * payloads into this class or one of its subclasses, so callers can react to
+ * the kind of failure without parsing carrier-specific bodies.
+ */
+export class CarrierApiError extends Error {
+  constructor(
+    message: string,
+    public readonly carrier: string,
+    public readonly code: string, // The carrier's own error code
+    public readonly retryable: boolean, // Whether the same request may succeed later
+    public readonly status: number, // HTTP status of the carrier response
+    public readonly payload?: unknown // Parsed error body as the carrier sent it
+  ) {
+    super(message);
+    this.name = "CarrierApiError";
+  }
+}
+
+/** The carrier rejected our credentials, token or account. */
+export class CarrierAuthenticationError extends CarrierApiError {
+  constructor(...args: ConstructorParameters<typeof CarrierApiError>) {
+    super(...args);
+    this.name = "CarrierAuthenticationError";
+  }
+}
+
+/** The carrier rejected an origin or destination address. */
+export class InvalidAddressError extends CarrierApiError {
+  constructor(...args: ConstructorParameters<typeof CarrierApiError>) {
+    super(...args);
+    this.name = "InvalidAddressError";
+  }
+}
+
+/** The requested service is not offered for this origin and destination. */
+export class UnsupportedServiceError extends CarrierApiError {
+  constructor(...args: ConstructorParameters<typeof CarrierApiError>) {
+    super(...args);
+    this.name = "UnsupportedServiceError";
+  }
+}
+
+/** A package is heavier than the carrier or service allows. */
+export class WeightLimitExceededError extends CarrierApiError {
+  constructor(...args: ConstructorParameters<typeof CarrierApiError>) {
+    super(...args);
+    this.name = "WeightLimitExceededError";
+  }
+}
+
+/** The carrier is throttling us (HTTP 429). Unlike RateLimitedError, the carrier refused. */
+export class CarrierThrottledError extends CarrierApiError {
+  constructor(...args: ConstructorParameters<typeof CarrierApiError>) {
+    super(...args);
+    this.name = "CarrierThrottledError";
+  }
+}
+
+/** The carrier is down or failed internally. */
+export class CarrierUnavailableError extends CarrierApiError {
+  constructor(...args: ConstructorParameters<typeof CarrierApiError>) {
+    super(...args);
+    this.name = "CarrierUnavailableError";
+  }
+}
+
+/**
+ * The carrier answered successfully but the body cannot be turned into quotes:
+ * it is malformed, reports a failed status, or contains no rates. Raised
+ * instead of guessing, so a missing price never reads as free shipping.
+ */
+export class CarrierResponseError extends Error {
+  constructor(
+    message: string,
+    public readonly carrier: string,
+    public readonly issues: string[], // What was wrong, one entry per problem
+    public readonly payload?: unknown // The response body as received
+  ) {
+    super(message);
+    this.name = "CarrierResponseError";
+  }
+}
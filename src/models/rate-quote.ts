@@ -1,23 +1,91 @@
 import { z } from "zod";
+import { ServiceLevelSchema, WeightUnitSchema } from "./rate-request.js";
+
+export const PackageRateSchema = z.object({
+  totalPrice: z.number(),
+  currency: z.string(),
+  basePrice: z.number().optional(),
+  serviceOptionsPrice: z.number().optional(),
+});
+
+export const ChargeTypeSchema = z.enum([
+  "TRANSPORTATION", // Base rate for carrying the shipment
+  "SERVICE_OPTIONS", // Extra services such as declared value or signature
+  "FUEL",
+  "RESIDENTIAL",
+  "DELIVERY_AREA", // Delivery area, extended area and remote area surcharges
+  "ADDITIONAL_HANDLING",
+  "TAX",
+  "DUTY",
+  "OTHER",
+]);
+
+export const ChargeSchema = z.object({
+  type: ChargeTypeSchema,
+  code: z.string().optional(), // The carrier's own code for the charge
+  description: z.string(),
+  amount: z.number(),
+});
+
+export const RateBreakdownSchema = z.object({
+  // Carrier list price for the shipment
+  publishedTotal: z.number().optional(),
+  // Price for our account, when the carrier returns one; totalPrice uses it
+  negotiatedTotal: z.number().optional(),
+  // Components of publishedTotal; they add up to it when the carrier itemizes fully
+  charges: z.array(ChargeSchema),
+});
+
+export const WeightSchema = z.object({
+  value: z.number(),
+  unit: WeightUnitSchema,
+});
+
+// Shipment totals; billable above actual means the shipment is billed on dimensional weight
+export const QuoteWeightsSchema = z.object({
+  actual: WeightSchema.optional(),
+  dimensional: WeightSchema.optional(), // Absent unless every package has dimensions
+  billable: WeightSchema.optional(), // The weight the price is based on
+});
+
+export const RateWarningSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+});
 
 export const RateQuoteSchema = z.object({
-  serviceCode: z.string(),
+  serviceCode: z.string(), // The carrier's own service code
   serviceName: z.string(),
+  // Normalized level of serviceCode; absent for carrier services outside the vocabulary
+  serviceLevel: ServiceLevelSchema.optional(),
 
   totalPrice: z.number(),
   currency: z.string(),
 
-  estimatedDays: z.number().optional(),
-  deliveryDate: z.string().optional(),
-
-  breakdown: z
-    .object({
-      basePrice: z.number().optional(),
-      fuelSurcharge: z.number().optional(),
-      taxes: z.number().optional(),
-      other: z.number().optional(),
-    })
-    .optional(),
+  estimatedDays: z.number().optional(), // Business days in transit
+  deliveryDate: z.string().optional(), // ISO 8601 local date or date-time at the destination
+  // Whether the carrier guarantees delivery by deliveryDate; absent when the carrier does not say
+  guaranteed: z.boolean().optional(),
+  // Committed time of day for guaranteed services, as the carrier words it, e.g. "10:30 A.M."
+  deliveryByTime: z.string().optional(),
+
+  breakdown: RateBreakdownSchema.optional(),
+
+  // From the carrier response where it reports them, otherwise estimated from the packages
+  weights: QuoteWeightsSchema.optional(),
+
+  // Per-package charges, in request package order, when the carrier itemizes them
+  packageRates: z.array(PackageRateSchema).optional(),
+
+  // Carrier notices that do not prevent quoting, e.g. a corrected address classification
+  warnings: z.array(RateWarningSchema).optional(),
 });
 
 export type RateQuote = z.infer<typeof RateQuoteSchema>;
+export type PackageRate = z.infer<typeof PackageRateSchema>;
+export type RateWarning = z.infer<typeof RateWarningSchema>;
+export type ChargeType = z.infer<typeof ChargeTypeSchema>;
+export type Charge = z.infer<typeof ChargeSchema>;
+export type RateBreakdown = z.infer<typeof RateBreakdownSchema>;
+export type Weight = z.infer<typeof WeightSchema>;
+export type QuoteWeights = z.infer<typeof QuoteWeightsSchema>;
@@ -1,17 +1,107 @@
 import { z } from "zod";
 
-export const AddressInputSchema = z.object({
-  addressLine1: z.string().min(1, "Address line 1 is required"),
-  addressLine2: z.string().optional(),
-  city: z.string().min(1, "City is required"),
-  state: z.string().min(2, "State is required (2-letter code)").max(2),
-  postalCode: z.string().min(1, "Postal code is required"),
-  country: z.string().length(2, "Country must be 2-letter code (e.g., US, CA)"),
-});
+// Countries whose addresses need a state or province, as a 2-letter code
+const STATE_REQUIRED_COUNTRIES = new Set(["US", "CA", "MX", "AU"]);
+
+// Countries without postal codes, or where addresses commonly go without one
+const POSTAL_CODE_OPTIONAL_COUNTRIES = new Set([
+  "AE", "AG", "AO", "BS", "BZ", "FJ", "GH", "HK", "IE", "JM", "MO", "QA", "TT",
+]);
+
+// Postal code formats for common destinations; other countries only need a non-empty code
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-?\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+  MX: /^\d{5}$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/i,
+  JP: /^\d{3}-?\d{4}$/,
+  AU: /^\d{4}$/,
+};
+
+export const AddressInputSchema = z
+  .object({
+    addressLine1: z.string().min(1, "Address line 1 is required"),
+    addressLine2: z.string().optional(),
+    city: z.string().min(1, "City is required"),
+    state: z.string().min(1).max(3).optional(), // State or province code, where the country uses one
+    postalCode: z.string().trim().min(1, "Postal code cannot be empty").optional(),
+    country: z.string().length(2, "Country must be 2-letter code (e.g., US, CA)"),
+  })
+  .superRefine((address, ctx) => {
+    const country = address.country.toUpperCase();
+    if (STATE_REQUIRED_COUNTRIES.has(country) && address.state?.length !== 2) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["state"],
+        message: `State is required for ${country} addresses (2-letter code)`,
+      });
+    }
+    if (!address.postalCode && !POSTAL_CODE_OPTIONAL_COUNTRIES.has(country)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["postalCode"],
+        message: "Postal code is required",
+      });
+    }
+    const pattern = POSTAL_CODE_PATTERNS[country];
+    if (pattern && address.postalCode && !pattern.test(address.postalCode)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["postalCode"],
+        message: `Invalid postal code for ${country}`,
+      });
+    }
+  });
+
+/**
+ * Packaging the package ships in. Carrier packaging and flat-rate sizes are
+ * only sold by some carriers; each carrier adapter keeps a catalog of the
+ * types it accepts and rejects the rest.
+ */
+export const PackagingTypeSchema = z.enum([
+  "CUSTOMER_BOX", // The default when no packaging type is given
+  "ENVELOPE",
+  "PAK",
+  "TUBE",
+  // USPS flat-rate packaging
+  "FLAT_RATE_ENVELOPE",
+  "PADDED_FLAT_RATE_ENVELOPE",
+  "SMALL_FLAT_RATE_BOX",
+  "MEDIUM_FLAT_RATE_BOX",
+  "LARGE_FLAT_RATE_BOX",
+  // UPS Simple Rate sizes, in the shipper's own box
+  "SIMPLE_RATE_XS",
+  "SIMPLE_RATE_S",
+  "SIMPLE_RATE_M",
+  "SIMPLE_RATE_L",
+  "SIMPLE_RATE_XL",
+]);
+
+/**
+ * Carrier-agnostic service levels. Each carrier adapter maps them to its own
+ * service codes and rejects levels it does not offer for the route.
+ */
+export const ServiceLevelSchema = z.enum([
+  "GROUND",
+  "THREE_DAY",
+  "TWO_DAY",
+  "OVERNIGHT", // Next business day
+  "OVERNIGHT_EARLY", // Next business day, early morning
+  "INTERNATIONAL_ECONOMY",
+  "INTERNATIONAL_EXPRESS",
+  "INTERNATIONAL_EXPRESS_EARLY", // Express with a morning delivery commitment
+]);
+
+export const WeightUnitSchema = z.enum(["LB", "KG"]);
 
 export const PackageInfoSchema = z.object({
   weight: z.number().positive("Weight must be positive"),
-  weightUnit: z.enum(["LB", "KG"]).optional().default("LB"),
+  weightUnit: WeightUnitSchema.optional().default("LB"),
+  packagingType: PackagingTypeSchema.optional(),
+  // Never defaulted: without dimensions carriers rate on weight alone
   dimensions: z
     .object({
       length: z.number().positive("Length must be positive"),
@@ -22,6 +112,59 @@ export const PackageInfoSchema = z.object({
     .optional(),
 });
 
+// Incoterms 2020 rules for any mode of transport
+export const IncotermSchema = z.enum(["EXW", "FCA", "CPT", "CIP", "DAP", "DPU", "DDP"]);
+
+export const CommodityLineSchema = z.object({
+  description: z.string().min(1, "Commodity description is required"),
+  // Harmonized System code: 6 digits, optionally extended to 8 or 10, dots allowed
+  hsCode: z
+    .string()
+    .regex(/^\d{4}\.?\d{2}(\.?\d{2}){0,2}$/, "HS code must be 6 to 10 digits")
+    .optional(),
+  originCountry: z.string().length(2, "Origin country must be 2-letter code"),
+  quantity: z.number().int().positive("Quantity must be a positive integer"),
+  value: z.number().nonnegative("Value cannot be negative"), // Total for the line, in customs currency
+});
+
+export const CustomsInfoSchema = z
+  .object({
+    declaredValue: z.number().nonnegative("Declared value cannot be negative"),
+    currency: z.string().length(3, "Currency must be 3-letter ISO code (e.g., USD)"),
+    // Whether the contents are subject to duties (default true); documents usually are not
+    dutiable: z.boolean().optional(),
+    // Who pays duties and taxes: DDP bills them to the shipper, the rest to the recipient
+    incoterm: IncotermSchema.optional(),
+    commodities: z.array(CommodityLineSchema).min(1).optional(),
+  })
+  .superRefine((customs, ctx) => {
+    if (!customs.commodities) return;
+    const total = customs.commodities.reduce((sum, line) => sum + line.value, 0);
+    if (Math.abs(total - customs.declaredValue) >= 0.01) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["commodities"],
+        message: `Commodity values (${total}) must add up to the declared value`,
+      });
+    }
+  });
+
+export const SignatureOptionSchema = z.enum(["STANDARD", "ADULT"]);
+
+// Accessorials that change the price; carriers map each to their own service options
+export const ShipmentOptionsSchema = z.object({
+  residential: z.boolean().optional(), // Destination is a residence
+  signature: SignatureOptionSchema.optional(), // Signature required on delivery
+  saturdayDelivery: z.boolean().optional(),
+  // Declared value of each package, for carrier liability beyond the included coverage
+  declaredValue: z
+    .object({
+      amount: z.number().positive("Declared value must be positive"),
+      currency: z.string().length(3, "Currency must be 3-letter ISO code (e.g., USD)"),
+    })
+    .optional(),
+});
+
 export const RateRequestInputSchema = z.object({
   origin: AddressInputSchema,
   destination: AddressInputSchema,
@@ -29,9 +172,19 @@ export const RateRequestInputSchema = z.object({
     .array(PackageInfoSchema)
     .min(1, "At least one package is required")
     .max(50, "Maximum 50 packages allowed"),
-  serviceLevel: z.string().optional(),
+  serviceLevel: ServiceLevelSchema.optional(), // Omit to shop every service the carrier offers
+  customs: CustomsInfoSchema.optional(),
+  options: ShipmentOptionsSchema.optional(),
 });
 
 export type RateRequestInput = z.infer<typeof RateRequestInputSchema>;
 export type AddressInput = z.infer<typeof AddressInputSchema>;
 export type PackageInfo = z.infer<typeof PackageInfoSchema>;
+export type PackagingType = z.infer<typeof PackagingTypeSchema>;
+export type WeightUnit = z.infer<typeof WeightUnitSchema>;
+export type ServiceLevel = z.infer<typeof ServiceLevelSchema>;
+export type CustomsInfo = z.infer<typeof CustomsInfoSchema>;
+export type Incoterm = z.infer<typeof IncotermSchema>;
+export type CommodityLine = z.infer<typeof CommodityLineSchema>;
+export type SignatureOption = z.infer<typeof SignatureOptionSchema>;
+export type ShipmentOptions = z.infer<typeof ShipmentOptionsSchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+/**
+ * Carrier-agnostic shipment status. Carrier adapters map their own
+ * activity codes onto these values.
+ */
+export const TrackingStatusSchema = z.enum([
+  "PRE_TRANSIT",
+  "IN_TRANSIT",
+  "OUT_FOR_DELIVERY",
+  "DELIVERED",
+  "EXCEPTION",
+  "RETURNED",
+  "UNKNOWN",
+]);
+
+export type TrackingStatus = z.infer<typeof TrackingStatusSchema>;
@@ -0,0 +1,44 @@
+import type { PackageInfo } from "./rate-request.js";
+
+export const LBS_PER_KG = 2.20462;
+export const CM_PER_IN = 2.54;
+
+export function toPounds(pkg: Pick<PackageInfo, "weight" | "weightUnit">): number {
+  return pkg.weightUnit === "KG" ? pkg.weight * LBS_PER_KG : pkg.weight;
+}
+
+export function toKilograms(pkg: Pick<PackageInfo, "weight" | "weightUnit">): number {
+  return pkg.weightUnit === "KG" ? pkg.weight : pkg.weight / LBS_PER_KG;
+}
+
+/**
+ * Package dimensions in inches, or undefined when the package has none.
+ */
+export function toInches(
+  pkg: Pick<PackageInfo, "dimensions">
+): { length: number; width: number; height: number } | undefined {
+  const { dimensions } = pkg;
+  if (!dimensions) return undefined;
+  const toIn = (n: number) => (dimensions.unit === "CM" ? n / CM_PER_IN : n);
+  return {
+    length: toIn(dimensions.length),
+    width: toIn(dimensions.width),
+    height: toIn(dimensions.height),
+  };
+}
+
+/**
+ * Package dimensions in centimeters, or undefined when the package has none.
+ */
+export function toCentimeters(
+  pkg: Pick<PackageInfo, "dimensions">
+): { length: number; width: number; height: number } | undefined {
+  const { dimensions } = pkg;
+  if (!dimensions) return undefined;
+  const toCm = (n: number) => (dimensions.unit === "IN" ? n * CM_PER_IN : n);
+  return {
+    length: toCm(dimensions.length),
+    width: toCm(dimensions.width),
+    height: toCm(dimensions.height),
+  };
+}
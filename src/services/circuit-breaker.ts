@@ -0,0 +1,95 @@
+import { CircuitOpenError } from "@/errors/carrier-errors.js";
+
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  coolDownMs: number; // How long the circuit stays open before a trial call
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  coolDownMs: 30_000,
+};
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string; // ISO timestamp, while open or half-open
+  retryAt?: string; // ISO timestamp of the next allowed trial, while open
+}
+
+/**
+ * Circuit breaker for one carrier.
+ * CLOSED passes calls through and counts consecutive failures. Reaching the
+ * threshold opens the circuit, which rejects calls with CircuitOpenError until
+ * the cool-down passes. The circuit is then HALF_OPEN: one trial call is let
+ * through, closing the circuit on success and reopening it on failure.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAtMs: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAtMs === null) return "CLOSED";
+    return Date.now() >= this.retryAtMs() ? "HALF_OPEN" : "OPEN";
+  }
+
+  /**
+   * Runs the call unless the circuit is open. `isFailure` decides whether an
+   * error counts against the carrier; errors it excludes (e.g. the caller
+   * cancelling) leave the circuit unchanged.
+   */
+  async execute<T>(
+    call: () => Promise<T>,
+    isFailure: (error: unknown) => boolean = () => true
+  ): Promise<T> {
+    const state = this.state;
+    if (state === "OPEN" || (state === "HALF_OPEN" && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, new Date(this.retryAtMs()));
+    }
+
+    const isTrial = state === "HALF_OPEN";
+    if (isTrial) this.trialInFlight = true;
+    try {
+      const result = await call();
+      this.consecutiveFailures = 0;
+      this.openedAtMs = null;
+      return result;
+    } catch (error) {
+      if (isFailure(error)) this.recordFailure(isTrial);
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    const state = this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAtMs !== null
+        ? { openedAt: new Date(this.openedAtMs).toISOString() }
+        : {}),
+      ...(state === "OPEN" ? { retryAt: new Date(this.retryAtMs()).toISOString() } : {}),
+    };
+  }
+
+  private recordFailure(isTrial: boolean): void {
+    this.consecutiveFailures++;
+    if (isTrial || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAtMs = Date.now();
+    }
+  }
+
+  private retryAtMs(): number {
+    return (this.openedAtMs ?? 0) + this.options.coolDownMs;
+  }
+}
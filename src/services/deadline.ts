@@ -0,0 +1,56 @@
+import { TimeoutError } from "@/errors/carrier-errors.js";
+
+export interface Deadline {
+  /** Aborts when the caller's signal aborts or the timeout passes. */
+  signal?: AbortSignal;
+  /** Stops the timer; call once the guarded work has settled. */
+  clear(): void;
+}
+
+/**
+ * Combines an optional caller signal with an optional timeout. On timeout the
+ * signal aborts with a TimeoutError as its reason.
+ */
+export function startDeadline(options: { signal?: AbortSignal; timeoutMs?: number }): Deadline {
+  const { signal, timeoutMs } = options;
+  if (timeoutMs === undefined) {
+    return { signal, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`Timed out after ${timeoutMs}ms`, timeoutMs)),
+    timeoutMs
+  );
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Rejects with the signal's reason as soon as it aborts, so work that ignores
+ * the signal cannot hold the caller past its deadline.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
@@ -0,0 +1,121 @@
+import type { PackageLimits } from "@/carriers/carrier.interface.js";
+import type { QuoteWeights, RateQuote } from "@/models/rate-quote.js";
+import type { PackageInfo, WeightUnit } from "@/models/rate-request.js";
+import { LBS_PER_KG, toInches, toPounds } from "@/models/units.js";
+
+export interface PackageMeasurements {
+  actualWeightLbs: number;
+  dimensionalWeightLbs?: number; // Only for packages with dimensions
+  billableWeightLbs: number; // The greater of actual and dimensional weight
+  lengthIn?: number; // Longest side
+  lengthPlusGirthIn?: number;
+}
+
+/**
+ * Weights and sizes of one package as a carrier measures them, using the
+ * carrier's dimensional weight divisor.
+ */
+export function measurePackage(pkg: PackageInfo, dimDivisor: number): PackageMeasurements {
+  const actualWeightLbs = toPounds(pkg);
+  const dims = toInches(pkg);
+  if (!dims) {
+    return { actualWeightLbs, billableWeightLbs: actualWeightLbs };
+  }
+
+  const [length, width, height] = [dims.length, dims.width, dims.height].sort((a, b) => b - a);
+  const dimensionalWeightLbs = (length! * width! * height!) / dimDivisor;
+  return {
+    actualWeightLbs,
+    dimensionalWeightLbs,
+    billableWeightLbs: Math.max(actualWeightLbs, dimensionalWeightLbs),
+    lengthIn: length!,
+    lengthPlusGirthIn: length! + 2 * (width! + height!),
+  };
+}
+
+/**
+ * Every limit the packages break, as `packages.<index>: ...` lines in the
+ * style of validation errors. Empty when the carrier can take them all.
+ */
+export function checkPackageLimits(packages: PackageInfo[], limits: PackageLimits): string[] {
+  const violations: string[] = [];
+  packages.forEach((pkg, index) => {
+    const measured = measurePackage(pkg, limits.dimDivisor);
+    const exceeds = (what: string, value: number | undefined, max: number | undefined) => {
+      if (value !== undefined && max !== undefined && value > max) {
+        violations.push(
+          `packages.${index}: ${what} ${round(value)} exceeds the limit of ${round(max)}`
+        );
+      }
+    };
+    exceeds("weight (lb)", measured.actualWeightLbs, limits.maxWeightLbs);
+    exceeds("length (in)", measured.lengthIn, limits.maxLengthIn);
+    exceeds("length plus girth (in)", measured.lengthPlusGirthIn, limits.maxLengthPlusGirthIn);
+  });
+  return violations;
+}
+
+/**
+ * Shipment weight totals estimated from the packages, in `unit`. Carriers round
+ * billable weight up per package, so their own figures can be slightly higher.
+ */
+export function estimateQuoteWeights(
+  packages: PackageInfo[],
+  dimDivisor: number,
+  unit: WeightUnit
+): QuoteWeights {
+  const measured = packages.map((pkg) => measurePackage(pkg, dimDivisor));
+  const total = (pick: (m: PackageMeasurements) => number) =>
+    measured.reduce((sum, m) => sum + pick(m), 0);
+  const weight = (lbs: number) => ({ value: round(unit === "KG" ? lbs / LBS_PER_KG : lbs), unit });
+  const dimensioned = measured.every((m) => m.dimensionalWeightLbs !== undefined);
+
+  return {
+    actual: weight(total((m) => m.actualWeightLbs)),
+    ...(dimensioned ? { dimensional: weight(total((m) => m.dimensionalWeightLbs!)) } : {}),
+    billable: weight(total((m) => m.billableWeightLbs)),
+  };
+}
+
+/**
+ * The unit to report estimates in: the packages' own unit when they all share
+ * one, pounds for a mix of units.
+ */
+export function shipmentWeightUnit(packages: PackageInfo[]): WeightUnit {
+  const units = new Set(packages.map((pkg) => pkg.weightUnit ?? "LB"));
+  return units.size === 1 ? [...units][0]! : "LB";
+}
+
+/**
+ * Fills in each weight the carrier did not report with an estimate. Estimates
+ * are made in the unit of the carrier's own figures, so the three weights of a
+ * quote always share one unit.
+ */
+export function withEstimatedWeights(
+  quote: RateQuote,
+  packages: PackageInfo[],
+  dimDivisor: number
+): RateQuote {
+  const reported = quote.weights ?? {};
+  const reportedUnit = (reported.billable ?? reported.actual ?? reported.dimensional)?.unit;
+  const estimate = estimateQuoteWeights(
+    packages,
+    dimDivisor,
+    reportedUnit ?? shipmentWeightUnit(packages)
+  );
+  const actual = reported.actual ?? estimate.actual;
+  const dimensional = reported.dimensional ?? estimate.dimensional;
+  const billable = reported.billable ?? estimate.billable;
+  return {
+    ...quote,
+    weights: {
+      ...(actual ? { actual } : {}),
+      ...(dimensional ? { dimensional } : {}),
+      ...(billable ? { billable } : {}),
+    },
+  };
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,193 @@
+import type { RateQuote } from "@/models/rate-quote.js";
+import type { AddressInput, PackageInfo, RateRequestInput } from "@/models/rate-request.js";
+import { toInches, toPounds } from "@/models/units.js";
+
+export interface CachedRates {
+  quotes: RateQuote[];
+  expiresAtMs: number; // Epoch milliseconds after which the entry must not be served
+}
+
+/**
+ * Where RateCache keeps quotes. Implement it over Redis or similar to share
+ * quotes across processes.
+ *
+ * Contract for implementations:
+ * - `get` resolves to undefined for unknown keys and for entries whose
+ *   `expiresAtMs` has passed; it never returns an expired entry.
+ * - `set` overwrites any existing entry for the key.
+ * - `delete` is idempotent; deleting an unknown key is not an error.
+ * - Keys are opaque strings built by RateCache and already namespaced per carrier.
+ */
+export interface RateCacheStore {
+  get(key: string): Promise<CachedRates | undefined>;
+  set(key: string, entry: CachedRates): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export const DEFAULT_RATE_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Process-local store that evicts the least recently used entry once full.
+ */
+export class LruRateCacheStore implements RateCacheStore {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private readonly entries = new Map<string, CachedRates>();
+
+  constructor(private readonly maxEntries = DEFAULT_RATE_CACHE_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<CachedRates | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAtMs <= Date.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CachedRates): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export interface RateCacheOptions {
+  ttlMs: number; // How long quotes are served from cache
+  store: RateCacheStore;
+}
+
+export const DEFAULT_RATE_CACHE_TTL_MS = 5 * 60_000;
+
+export interface RateCacheKey {
+  key: string;
+  // packageOrder[i] is the request index of the i-th package in key order
+  packageOrder: number[];
+}
+
+/**
+ * Caches carrier quotes per normalized request, so re-quoting the same
+ * shipment does not call the carrier again until the TTL passes.
+ * Store failures are treated as cache misses; a broken cache never fails a quote.
+ */
+export class RateCache {
+  private readonly options: RateCacheOptions;
+
+  constructor(options: Partial<RateCacheOptions> = {}) {
+    this.options = {
+      ttlMs: options.ttlMs ?? DEFAULT_RATE_CACHE_TTL_MS,
+      store: options.store ?? new LruRateCacheStore(),
+    };
+  }
+
+  async get(carrier: string, request: RateRequestInput): Promise<RateQuote[] | undefined> {
+    const { key, packageOrder } = rateCacheKey(carrier, request);
+    const entry = await this.options.store.get(key).catch(() => undefined);
+    return entry?.quotes.map((quote) => fromKeyPackageOrder(quote, packageOrder));
+  }
+
+  async set(carrier: string, request: RateRequestInput, quotes: RateQuote[]): Promise<void> {
+    const { key, packageOrder } = rateCacheKey(carrier, request);
+    const entry: CachedRates = {
+      quotes: quotes.map((quote) => toKeyPackageOrder(quote, packageOrder)),
+      expiresAtMs: Date.now() + this.options.ttlMs,
+    };
+    await this.options.store.set(key, entry).catch(() => undefined);
+  }
+
+  async invalidate(carrier: string, request: RateRequestInput): Promise<void> {
+    await this.options.store.delete(rateCacheKey(carrier, request).key);
+  }
+}
+
+/**
+ * Builds a stable cache key for one carrier and request. Requests that differ
+ * only in postal code formatting, letter case, whitespace, weight or dimension
+ * units, or package order produce the same key.
+ */
+export function rateCacheKey(carrier: string, request: RateRequestInput): RateCacheKey {
+  const packages = request.packages.map((pkg, index) => ({ key: normalizePackage(pkg), index }));
+  packages.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : a.index - b.index));
+  const options = request.options ?? {};
+
+  const normalized = {
+    origin: normalizeAddress(request.origin),
+    destination: normalizeAddress(request.destination),
+    packages: packages.map((pkg) => pkg.key),
+    serviceLevel: request.serviceLevel ?? null,
+    customs: request.customs
+      ? {
+          declaredValue: request.customs.declaredValue,
+          currency: request.customs.currency.toUpperCase(),
+          dutiable: request.customs.dutiable ?? true,
+          incoterm: request.customs.incoterm ?? null,
+          commodities: request.customs.commodities ?? null,
+        }
+      : null,
+    // Absent options and options left at their defaults price the same
+    options: {
+      residential: options.residential ?? false,
+      signature: options.signature ?? null,
+      saturdayDelivery: options.saturdayDelivery ?? false,
+      declaredValue: options.declaredValue
+        ? {
+            amount: options.declaredValue.amount,
+            currency: options.declaredValue.currency.toUpperCase(),
+          }
+        : null,
+    },
+  };
+
+  return {
+    key: `${carrier}:${JSON.stringify(normalized)}`,
+    packageOrder: packages.map((pkg) => pkg.index),
+  };
+}
+
+function normalizeAddress(address: AddressInput): string[] {
+  const text = (value: string | undefined) =>
+    (value ?? "").trim().replace(/\s+/g, " ").toUpperCase();
+  return [
+    text(address.addressLine1),
+    text(address.addressLine2),
+    text(address.city),
+    text(address.state),
+    (address.postalCode ?? "").replace(/[\s-]/g, "").toUpperCase(),
+    text(address.country),
+  ];
+}
+
+function normalizePackage(pkg: PackageInfo): string {
+  // Rounded so that unit round-trips (e.g. 4.5359 KG vs 10 LB) land on the same key
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const dims = toInches(pkg);
+  return [
+    round(toPounds(pkg)),
+    dims ? [dims.length, dims.width, dims.height].map(round).join("x") : "",
+    pkg.packagingType ?? "",
+  ].join("|");
+}
+
+// Cached packageRates are stored in key order so any request package order can be served
+function toKeyPackageOrder(quote: RateQuote, packageOrder: number[]): RateQuote {
+  const { packageRates } = quote;
+  if (packageRates?.length !== packageOrder.length) return quote;
+  return { ...quote, packageRates: packageOrder.map((index) => packageRates[index]!) };
+}
+
+function fromKeyPackageOrder(quote: RateQuote, packageOrder: number[]): RateQuote {
+  const { packageRates } = quote;
+  if (packageRates?.length !== packageOrder.length) return quote;
+  const reordered = new Array<(typeof packageRates)[number]>(packageRates.length);
+  packageOrder.forEach((index, i) => (reordered[index] = packageRates[i]!));
+  return { ...quote, packageRates: reordered };
+}
@@ -1,10 +1,32 @@
-import { IRateProvider } from "@/carriers/carrier.interface.js";
+import type {
+  AddressValidationResult,
+  IAddressValidator,
+  IRateProvider,
+} from "@/carriers/carrier.interface.js";
 import type { RateQuote } from "@/models/rate-quote.js";
 import { RateRequestInputSchema, type RateRequestInput } from "@/models/rate-request.js";
+import {
+  CarrierApiError,
+  CarrierAuthenticationError,
+  PackageLimitExceededError,
+  RateLimitedError,
+  UnsupportedRequestError,
+  UnsupportedServiceLevelError,
+} from "@/errors/carrier-errors.js";
+import {
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  type CircuitBreakerOptions,
+  type CircuitSnapshot,
+} from "./circuit-breaker.js";
+import { raceSignal, startDeadline } from "./deadline.js";
+import { checkPackageLimits, withEstimatedWeights } from "./package-limits.js";
+import type { RateCache } from "./rate-cache.js";
 
 export interface CarrierQuote {
   carrier: string;
   quote: RateQuote;
+  fromCache: boolean; // Served from the rate cache rather than a live carrier call
 }
 
 export interface CarrierError {
@@ -12,13 +34,49 @@ export interface CarrierError {
   error: Error;
 }
 
+/** A carrier that was not called because the request breaks its package limits. */
+export interface SkippedCarrier {
+  carrier: string;
+  reasons: string[];
+}
+
 export interface RateServiceResult {
   quotes: CarrierQuote[];
   errors?: CarrierError[];
+  skipped?: SkippedCarrier[];
 }
 
 export interface RateServiceConfig {
   providers: Record<string, IRateProvider>;
+  addressValidator?: IAddressValidator;
+  /** Per-carrier circuit breaker settings; false disables the breakers. */
+  circuitBreaker?: Partial<CircuitBreakerOptions> | false;
+  /** Serves repeated quotes for the same shipment without calling the carrier. */
+  cache?: RateCache;
+}
+
+interface ProviderResult {
+  quotes: RateQuote[];
+  fromCache: boolean;
+}
+
+export interface AddressValidationOptions {
+  origin?: boolean;
+  destination?: boolean;
+  /** Quote ambiguous addresses instead of rejecting them. Defaults to false. */
+  allowAmbiguous?: boolean;
+}
+
+export interface RateRequestOptions {
+  /** Validate addresses with the configured address validator before quoting. */
+  validateAddresses?: AddressValidationOptions;
+  /** Aborts address validation and every in-flight carrier call. */
+  signal?: AbortSignal;
+  /**
+   * Deadline for the whole request, in milliseconds. Carriers still pending when
+   * it passes are reported as TimeoutError entries in `errors`.
+   */
+  timeoutMs?: number;
 }
 
 export class ValidationError extends Error {
@@ -31,39 +89,70 @@ export class ValidationError extends Error {
   }
 }
 
+export class AddressValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly field: "origin" | "destination",
+    public readonly result: AddressValidationResult
+  ) {
+    super(message);
+    this.name = "AddressValidationError";
+  }
+}
+
 /**
  * Service for aggregating shipping rates from multiple carriers.
+ * Quotes are flattened to one CarrierQuote per carrier and service.
  * Only works with carriers that implement IRateProvider.
  * Validates all input before making external API calls.
+ * Each carrier sits behind its own circuit breaker, so a carrier in an outage
+ * fails fast with CircuitOpenError instead of slowing every request.
+ * With a cache configured, carriers with fresh cached quotes are not called at all.
+ * Carriers whose package limits the request breaks are skipped and listed in `skipped`.
  */
 export class RateService {
-  constructor(private readonly config: RateServiceConfig) {}
+  private readonly breakers = new Map<string, CircuitBreaker>();
 
-  async getRates(request: RateRequestInput): Promise<RateServiceResult> {
-    // Validate input before any external calls
-    const validation = RateRequestInputSchema.safeParse(request);
-    if (!validation.success) {
-      const errors = validation.error.issues.map(
-        (issue) => `${issue.path.join(".")}: ${issue.message}`
-      );
-      throw new ValidationError(
-        "Invalid rate request input",
-        errors
-      );
+  constructor(private readonly config: RateServiceConfig) {
+    if (config.circuitBreaker !== false) {
+      const options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...config.circuitBreaker };
+      for (const name of Object.keys(config.providers)) {
+        this.breakers.set(name, new CircuitBreaker(name, options));
+      }
     }
+  }
 
-    const { providers } = this.config;
-    const entries = Object.entries(providers);
-    if (entries.length === 0) {
-      return { quotes: [] };
-    }
+  async getRates(
+    request: RateRequestInput,
+    options: RateRequestOptions = {}
+  ): Promise<RateServiceResult> {
+    // Validate input before any external calls
+    this.validateInput(request);
 
-    const results = await Promise.allSettled(
-      entries.map(async ([name, provider]) => {
-        const quote = await provider.getRates(request);
-        return { carrier: name, quote };
-      })
-    );
+    const deadline = startDeadline(options);
+    const { signal } = deadline;
+    let results: PromiseSettledResult<ProviderResult>[];
+    const skipped: SkippedCarrier[] = [];
+    const entries = Object.entries(this.config.providers).filter(([name, provider]) => {
+      const reasons = packageLimitViolations(provider, request);
+      if (reasons.length > 0) skipped.push({ carrier: name, reasons });
+      return reasons.length === 0;
+    });
+    try {
+      await raceSignal(this.validateAddresses(request, options.validateAddresses), signal);
+      if (entries.length === 0) {
+        return skipped.length > 0 ? { quotes: [], skipped } : { quotes: [] };
+      }
+
+      // A slow carrier is cut off at the deadline; the others still return their quotes
+      results = await Promise.allSettled(
+        entries.map(([name, provider]) =>
+          this.callProvider(name, provider, request, signal, options.signal)
+        )
+      );
+    } finally {
+      deadline.clear();
+    }
 
     const quotes: CarrierQuote[] = [];
     const errors: CarrierError[] = [];
@@ -72,21 +161,89 @@ export class RateService {
       const result = results[i]!;
       const name = entries[i]![0];
       if (result.status === "fulfilled") {
-        quotes.push({ carrier: name, quote: result.value.quote });
+        const { fromCache } = result.value;
+        for (const quote of result.value.quotes) {
+          quotes.push({ carrier: name, quote, fromCache });
+        }
       } else {
         errors.push({ carrier: name, error: result.reason });
       }
     }
 
-    return errors.length > 0 ? { quotes, errors } : { quotes };
+    return {
+      quotes,
+      ...(errors.length > 0 ? { errors } : {}),
+      ...(skipped.length > 0 ? { skipped } : {}),
+    };
   }
 
 
   async getRatesFromProvider(
     providerName: string,
-    request: RateRequestInput
-  ): Promise<RateQuote> {
+    request: RateRequestInput,
+    options: RateRequestOptions = {}
+  ): Promise<RateQuote[]> {
     // Validate input before any external calls
+    this.validateInput(request);
+
+    const provider = this.config.providers[providerName];
+    if (!provider) {
+      throw new Error(`Unknown rate provider: ${providerName}`);
+    }
+    const violations = packageLimitViolations(provider, request);
+    if (violations.length > 0) {
+      throw new PackageLimitExceededError(providerName, violations);
+    }
+    const deadline = startDeadline(options);
+    const { signal } = deadline;
+    try {
+      await raceSignal(this.validateAddresses(request, options.validateAddresses), signal);
+      const result = await this.callProvider(
+        providerName,
+        provider,
+        request,
+        signal,
+        options.signal
+      );
+      return result.quotes;
+    } finally {
+      deadline.clear();
+    }
+  }
+
+  /**
+   * Circuit state per carrier, for health dashboards. Empty when breakers are disabled.
+   */
+  getCircuitStates(): Record<string, CircuitSnapshot> {
+    return Object.fromEntries(
+      [...this.breakers].map(([name, breaker]) => [name, breaker.snapshot()])
+    );
+  }
+
+  private async callProvider(
+    name: string,
+    provider: IRateProvider,
+    request: RateRequestInput,
+    signal: AbortSignal | undefined,
+    callerSignal: AbortSignal | undefined
+  ): Promise<ProviderResult> {
+    const { cache } = this.config;
+    const cached = cache && (await raceSignal(cache.get(name, request), signal));
+    if (cached) {
+      return { quotes: cached, fromCache: true };
+    }
+
+    const call = () => raceSignal(provider.getRates(request, { signal }), signal);
+    const breaker = this.breakers.get(name);
+    const isFailure = (error: unknown) => !callerSignal?.aborted && isCarrierFailure(error);
+    const rated = breaker ? await breaker.execute(call, isFailure) : await call();
+    const quotes = fillWeights(provider, request, rated);
+    // Not awaited: a slow cache store should not delay the response
+    void cache?.set(name, request, quotes);
+    return { quotes, fromCache: false };
+  }
+
+  private validateInput(request: RateRequestInput): void {
     const validation = RateRequestInputSchema.safeParse(request);
     if (!validation.success) {
       const errors = validation.error.issues.map(
@@ -97,11 +254,72 @@ export class RateService {
         errors
       );
     }
+  }
 
-    const provider = this.config.providers[providerName];
-    if (!provider) {
-      throw new Error(`Unknown rate provider: ${providerName}`);
+  private async validateAddresses(
+    request: RateRequestInput,
+    options: AddressValidationOptions | undefined
+  ): Promise<void> {
+    if (!options) return;
+    const fields = (["origin", "destination"] as const).filter((field) => options[field]);
+    if (fields.length === 0) return;
+
+    const { addressValidator } = this.config;
+    if (!addressValidator) {
+      throw new Error("Address validation requested but no address validator is configured");
     }
-    return provider.getRates(request);
+
+    const results = await Promise.all(
+      fields.map((field) => addressValidator.validateAddress(request[field]))
+    );
+
+    for (let i = 0; i < fields.length; i++) {
+      const field = fields[i]!;
+      const result = results[i]!;
+      if (result.status === "VALID") continue;
+      if (result.status === "AMBIGUOUS" && options.allowAmbiguous) continue;
+      throw new AddressValidationError(
+        `Invalid ${field} address: ${result.status.toLowerCase()}`,
+        field,
+        result
+      );
+    }
+  }
+}
+
+// Quotes without carrier weights get an estimate; carriers without a divisor get none
+function fillWeights(
+  provider: IRateProvider,
+  request: RateRequestInput,
+  quotes: RateQuote[]
+): RateQuote[] {
+  const { packageLimits } = provider;
+  if (!packageLimits) return quotes;
+  return quotes.map((quote) =>
+    withEstimatedWeights(quote, request.packages, packageLimits.dimDivisor)
+  );
+}
+
+function packageLimitViolations(provider: IRateProvider, request: RateRequestInput): string[] {
+  return provider.packageLimits ? checkPackageLimits(request.packages, provider.packageLimits) : [];
+}
+
+/**
+ * Whether an error says something about the carrier's health. Our own rate
+ * limiter refusing, an adapter refusing the request before sending it, or the
+ * carrier rejecting this particular shipment (bad address, unsupported
+ * service), does not.
+ */
+function isCarrierFailure(error: unknown): boolean {
+  if (
+    error instanceof RateLimitedError ||
+    error instanceof UnsupportedServiceLevelError ||
+    error instanceof UnsupportedRequestError
+  ) {
+    return false;
+  }
+  if (error instanceof CarrierApiError) {
+    return error.retryable || error instanceof CarrierAuthenticationError;
   }
+  return true;
 }
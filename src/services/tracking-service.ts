@@ -0,0 +1,57 @@
+import type { ITrackingProvider, TrackingInfo } from "@/carriers/carrier.interface.js";
+
+export interface CarrierTracking {
+  carrier: string;
+  tracking: TrackingInfo;
+}
+
+export interface TrackingServiceConfig {
+  providers: Record<string, ITrackingProvider>;
+}
+
+export class UnrecognizedTrackingNumberError extends Error {
+  constructor(public readonly trackingNumber: string) {
+    super(`No tracking provider recognizes tracking number: ${trackingNumber}`);
+    this.name = "UnrecognizedTrackingNumberError";
+  }
+}
+
+/**
+ * Service for tracking shipments across carriers.
+ * Only works with carriers that implement ITrackingProvider.
+ * Picks the carrier from the tracking-number format, in provider order.
+ */
+export class TrackingService {
+  constructor(private readonly config: TrackingServiceConfig) {}
+
+  /**
+   * Returns the name of the first provider whose format matches, if any.
+   */
+  detectCarrier(trackingNumber: string): string | undefined {
+    const normalized = trackingNumber.trim();
+    return Object.entries(this.config.providers).find(([, provider]) =>
+      provider.canTrack(normalized)
+    )?.[0];
+  }
+
+  async track(trackingNumber: string): Promise<CarrierTracking> {
+    const normalized = trackingNumber.trim();
+    const carrier = this.detectCarrier(normalized);
+    if (!carrier) {
+      throw new UnrecognizedTrackingNumberError(normalized);
+    }
+    const tracking = await this.config.providers[carrier]!.track(normalized);
+    return { carrier, tracking };
+  }
+
+  async trackWithProvider(
+    providerName: string,
+    trackingNumber: string
+  ): Promise<TrackingInfo> {
+    const provider = this.config.providers[providerName];
+    if (!provider) {
+      throw new Error(`Unknown tracking provider: ${providerName}`);
+    }
+    return provider.track(trackingNumber.trim());
+  }
+}